@@ -3,7 +3,7 @@
  * CLI Entry Point for term-deck
  *
  * Terminal presentation tool with a cyberpunk aesthetic.
- * Provides commands for presenting, exporting, and initializing decks.
+ * Provides commands for presenting, exporting, initializing, and linting decks.
  */
 
 import { Command } from 'commander';
@@ -12,15 +12,18 @@ import { presentCommand } from '../src/cli/commands/present.js';
 import { exportCommand } from '../src/cli/commands/export.js';
 import { initCommand } from '../src/cli/commands/init.js';
 import { playCommand } from '../src/cli/commands/play.js';
+import { themesCommand } from '../src/cli/commands/themes.js';
+import { lintCommand } from '../src/cli/commands/lint.js';
+import { notesCommand } from '../src/cli/commands/notes.js';
 import { handleError } from '../src/cli/errors.js';
-import { showHelp, showVersion } from '../src/cli/help.js';
+import { showHelp, showVersion, loadHelpKeybindings } from '../src/cli/help.js';
 
 // Check for help/version flags before commander parses
 const args = process.argv.slice(2);
 if (args.includes('-h') || args.includes('--help') || args.length === 0) {
   // Only show custom help for main command, not subcommands
-  if (!args.some(arg => ['present', 'export', 'init', 'play'].includes(arg))) {
-    showHelp();
+  if (!args.some(arg => ['present', 'export', 'init', 'play', 'themes', 'lint', 'check', 'notes'].includes(arg))) {
+    showHelp(await loadHelpKeybindings());
     process.exit(0);
   }
 }
@@ -42,6 +45,9 @@ program.addCommand(presentCommand);
 program.addCommand(exportCommand);
 program.addCommand(initCommand);
 program.addCommand(playCommand);
+program.addCommand(themesCommand);
+program.addCommand(lintCommand);
+program.addCommand(notesCommand);
 
 // Default action: present if directory given, else show help
 program
@@ -56,7 +62,7 @@ program
         handleError(error);
       }
     } else {
-      showHelp();
+      showHelp(await loadHelpKeybindings());
     }
   });
 
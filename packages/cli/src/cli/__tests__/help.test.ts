@@ -2,11 +2,19 @@
  * Tests for CLI help text
  */
 
-import { describe, test, expect } from 'vitest';
+import { describe, test, expect, vi, afterEach } from 'vitest';
 import { Command } from 'commander';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { presentCommand } from '../commands/present.js';
 import { exportCommand } from '../commands/export.js';
 import { initCommand } from '../commands/init.js';
+import { themesCommand, formatThemeList } from '../commands/themes.js';
+import { lintCommand } from '../commands/lint.js';
+import { notesCommand } from '../commands/notes.js';
+import { showHelp, loadHelpKeybindings } from '../help.js';
+import { DEFAULT_KEYBINDINGS } from '../../schemas/config.js';
 
 describe('CLI help text', () => {
   test('present command has description', () => {
@@ -21,7 +29,13 @@ describe('CLI help text', () => {
     expect(optionNames).toContain('--start');
     expect(optionNames).toContain('--notes');
     expect(optionNames).toContain('--notes-tty');
+    expect(optionNames).toContain('--notes-server');
+    expect(optionNames).toContain('--remote');
+    expect(optionNames).toContain('--remote-token');
     expect(optionNames).toContain('--loop');
+    expect(optionNames).toContain('--no-loop');
+    expect(optionNames).toContain('--auto-advance');
+    expect(optionNames).toContain('--watch');
   });
 
   test('present command has short options', () => {
@@ -31,6 +45,7 @@ describe('CLI help text', () => {
     expect(shortNames).toContain('-s');
     expect(shortNames).toContain('-n');
     expect(shortNames).toContain('-l');
+    expect(shortNames).toContain('-w');
   });
 
   test('present command requires dir argument', () => {
@@ -148,6 +163,32 @@ describe('CLI help text', () => {
     expect(helpInfo).toContain('fps');
   });
 
+  test('themes command has description', () => {
+    expect(themesCommand.description()).toBeTruthy();
+    expect(themesCommand.description().toLowerCase()).toContain('theme');
+  });
+
+  test('themes list includes all built-in presets', () => {
+    const output = formatThemeList().join('\n');
+
+    for (const name of ['matrix', 'neon', 'retro', 'minimal', 'hacker']) {
+      expect(output).toContain(name);
+    }
+  });
+
+  test('lint command has description, alias and format option', () => {
+    expect(lintCommand.description().toLowerCase()).toContain('check');
+    expect(lintCommand.aliases()).toContain('check');
+    expect(lintCommand.options.map((opt) => opt.long)).toContain('--format');
+    expect(lintCommand.registeredArguments[0].required).toBe(true);
+  });
+
+  test('notes command has an optional address argument', () => {
+    expect(notesCommand.description().toLowerCase()).toContain('notes');
+    expect(notesCommand.registeredArguments[0].name()).toBe('address');
+    expect(notesCommand.registeredArguments[0].required).toBe(false);
+  });
+
   test('init command help includes options descriptions', () => {
     const helpInfo = initCommand.helpInformation();
 
@@ -155,3 +196,55 @@ describe('CLI help text', () => {
     expect(helpInfo).toContain('name');
   });
 });
+
+describe('showHelp', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function captureHelp(...args: Parameters<typeof showHelp>): string {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    showHelp(...args);
+    return log.mock.calls.map((call) => call.join(' ')).join('\n');
+  }
+
+  test('lists the default hotkeys', () => {
+    const output = captureHelp();
+
+    expect(output).toMatch(/Space \/ Enter \/ → \/ n\s+Next slide/);
+    expect(output).toMatch(/0-9\s+Jump to slide/);
+    expect(output).toMatch(/q \/ Esc \/ Ctrl\+C\s+Quit/);
+  });
+
+  test('lists configured hotkeys and skips unbound actions', () => {
+    const output = captureHelp({ ...DEFAULT_KEYBINDINGS, next: ['x', 'pagedown'], list: [] });
+
+    expect(output).toMatch(/x \/ PgDn\s+Next slide/);
+    expect(output).not.toContain('Show slide list');
+  });
+
+  test('loads the hotkeys of the deck in a directory', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'term-deck-help-'));
+    writeFileSync(join(dir, 'deck.config.js'), "export default { settings: { keybindings: { next: ['x'] } } }\n");
+
+    try {
+      const keybindings = await loadHelpKeybindings(dir);
+
+      expect(keybindings.next).toEqual(['x']);
+      expect(keybindings.prev).toEqual(DEFAULT_KEYBINDINGS.prev);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('falls back to the default hotkeys for an invalid config', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'term-deck-help-'));
+    writeFileSync(join(dir, 'deck.config.js'), "export default { settings: { keybindings: { next: ['l'] } } }\n");
+
+    try {
+      expect(await loadHelpKeybindings(dir)).toEqual(DEFAULT_KEYBINDINGS);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
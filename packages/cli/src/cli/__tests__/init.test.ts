@@ -107,4 +107,20 @@ describe('initDeck', () => {
 
     expect(slide1).toContain(TEST_DECK_NAME.toUpperCase());
   });
+
+  test('writes the selected theme preset to deck.config.js', async () => {
+    await initDeck(TEST_DECK_NAME, 'neon');
+
+    const content = readFileSync(join(TEST_DECK_PATH, 'deck.config.js'), 'utf-8');
+    expect(content).toContain("themePreset: 'neon'");
+    expect(content).toContain("'hacker'");
+  });
+
+  test('rejects unknown themes without creating the deck', async () => {
+    await expect(initDeck(TEST_DECK_NAME, 'vaporwave')).rejects.toThrow(
+      /Unknown theme "vaporwave"/,
+    );
+
+    expect(existsSync(TEST_DECK_PATH)).toBe(false);
+  });
 });
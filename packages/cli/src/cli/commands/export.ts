@@ -10,7 +10,7 @@ import { handleError } from '../errors.js';
 
 export const exportCommand = new Command('export')
   .description('Export presentation to GIF or MP4')
-  .argument('<dir>', 'Slides directory')
+  .argument('<dir>', 'Slides directory or deck file')
   .requiredOption('-o, --output <file>', 'Output file (.mp4 or .gif)')
   .option('-w, --width <n>', 'Terminal width in characters', '120')
   .option('-h, --height <n>', 'Terminal height in characters', '40')
@@ -9,11 +9,12 @@ import { join } from 'node:path';
 import { mkdir, writeFile } from 'fs/promises';
 import { intro, outro, log } from '@clack/prompts';
 import { handleError } from '../errors.js';
+import { THEME_PRESET_NAMES, isThemePreset } from '../../themes/index.js';
 
 export const initCommand = new Command('init')
   .description('Create a new presentation deck')
   .argument('<name>', 'Deck name (will create directory)')
-  .option('-t, --theme <name>', 'Theme to use', 'matrix')
+  .option('-t, --theme <name>', 'Theme preset to use (see: term-deck themes)', 'matrix')
   .action(async (name, options) => {
     try {
       intro(`Creating ${name}`);
@@ -35,9 +36,18 @@ export const initCommand = new Command('init')
  *
  * Creates the directory, configuration file, sample slides,
  * and README for a new presentation deck.
+ *
+ * @throws Error if theme is not a built-in theme preset
  */
 export async function initDeck(name: string, theme: string): Promise<void> {
+  if (!isThemePreset(theme)) {
+    throw new Error(
+      `Unknown theme "${theme}". Available themes: ${THEME_PRESET_NAMES.join(', ')}`
+    );
+  }
+
   const deckDir = join(process.cwd(), name);
+  const availablePresets = THEME_PRESET_NAMES.map((preset) => `'${preset}'`).join(', ');
 
   // Create directory
   await mkdir(deckDir, { recursive: true });
@@ -50,8 +60,9 @@ export default {
   title: '${name}',
 
   // Theme preset (defaults to 'matrix')
-  // Available presets: 'matrix'
-  themePreset: 'matrix',
+  // Available presets: ${availablePresets}
+  // Run \`term-deck themes\` to preview them
+  themePreset: '${theme}',
 
   // Advanced: Custom theme object
   // Uncomment to override theme completely:
@@ -0,0 +1,83 @@
+/**
+ * Lint Command
+ *
+ * Validates a deck without presenting it and reports every problem found.
+ * Exits with code 1 when there are errors, so it can be used in CI.
+ */
+
+import { Command } from 'commander';
+import pc from 'picocolors';
+import { lintDeck, type LintIssue, type LintResult } from '../../lint/deck-linter.js';
+import { handleError } from '../errors.js';
+
+export const lintCommand = new Command('lint')
+  .alias('check')
+  .description('Check a deck for errors without presenting')
+  .argument('<dir>', 'Slides directory or deck file')
+  .option('-f, --format <format>', 'Output format (text or json)', 'text')
+  .action(async (dir, options) => {
+    try {
+      if (options.format !== 'text' && options.format !== 'json') {
+        throw new Error(`Unknown format: ${options.format} (expected text or json)`);
+      }
+
+      const result = await lintDeck(dir);
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        for (const line of formatLintResult(result)) {
+          console.log(line);
+        }
+      }
+
+      if (result.errorCount > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+/**
+ * Format a lint result for the terminal
+ *
+ * Issues are grouped by file, followed by a summary line.
+ *
+ * @param result - The lint result
+ * @returns Lines to print
+ */
+export function formatLintResult(result: LintResult): string[] {
+  const lines: string[] = [];
+  const byFile = new Map<string, LintIssue[]>();
+
+  for (const issue of result.issues) {
+    byFile.set(issue.file, [...(byFile.get(issue.file) ?? []), issue]);
+  }
+
+  for (const [file, issues] of byFile) {
+    lines.push('');
+    lines.push(pc.underline(file));
+    for (const issue of issues) {
+      const severity = issue.severity === 'error' ? pc.red('error  ') : pc.yellow('warning');
+      const slide = issue.slide ? pc.dim(` [${issue.slide}]`) : '';
+      const line = pc.dim((issue.line ? `:${issue.line}` : '').padEnd(6));
+      // Align continuation lines of multi-line messages (e.g. validation errors)
+      const message = issue.message.replace(/\n\s*/g, `\n${' '.repeat(19)}`);
+      lines.push(`  ${line}${severity}  ${message}${slide}  ${pc.dim(issue.rule)}`);
+    }
+  }
+
+  lines.push('');
+  const slides = `${result.slideCount} slide${result.slideCount === 1 ? '' : 's'}`;
+  if (result.issues.length === 0) {
+    lines.push(pc.green(`✓ ${slides} checked, no problems found`));
+  } else {
+    const summary = `${result.errorCount} error${result.errorCount === 1 ? '' : 's'}, ` +
+      `${result.warningCount} warning${result.warningCount === 1 ? '' : 's'}`;
+    lines.push((result.errorCount > 0 ? pc.red : pc.yellow)(`✖ ${summary} in ${slides}`));
+  }
+  lines.push('');
+
+  return lines;
+}
@@ -0,0 +1,22 @@
+/**
+ * Notes Command
+ *
+ * Shows the presenter notes of a running presentation in this terminal.
+ * Connects to the notes server started with `present --notes-server`.
+ */
+
+import { Command } from 'commander';
+import { parseNotesAddress } from '../../presenter/notes-protocol.js';
+import { runNotesClient } from '../../presenter/notes-client.js';
+import { handleError } from '../errors.js';
+
+export const notesCommand = new Command('notes')
+  .description('Show presenter notes of a running presentation')
+  .argument('[address]', 'Socket path or port of the notes server (default: shared socket)')
+  .action(async (address) => {
+    try {
+      await runNotesClient(parseNotesAddress(address));
+    } catch (error) {
+      handleError(error);
+    }
+  });
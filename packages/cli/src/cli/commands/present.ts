@@ -10,18 +10,39 @@ import { handleError } from '../errors.js';
 
 export const presentCommand = new Command('present')
   .description('Start a presentation')
-  .argument('<dir>', 'Slides directory')
+  .argument('<dir>', 'Slides directory or deck file')
   .option('-s, --start <n>', 'Start at slide number', '0')
   .option('-n, --notes', 'Show presenter notes in separate terminal')
   .option('--notes-tty <path>', 'TTY device for notes window (e.g., /dev/ttys001)')
+  .option('--notes-server [address]', 'Serve notes to `term-deck notes` on a socket path or port')
+  .option('--remote <port>', 'Remote control over HTTP and WebSocket on a port')
+  .option('--remote-token <token>', 'Shared-secret token for the remote control (default: random)')
   .option('-l, --loop', 'Loop back to first slide after last')
+  .option('--no-loop', 'Stop at the last slide (overrides settings.loop)')
+  .option('-a, --auto-advance <seconds>', 'Advance slides automatically (0 to disable)')
+  .option('-w, --watch', 'Reload slides when files change')
   .action(async (dir, options) => {
     try {
+      const remotePort = options.remote === undefined ? undefined : Number(options.remote);
+      if (remotePort !== undefined && (!Number.isInteger(remotePort) || remotePort < 1 || remotePort > 65535)) {
+        throw new Error(`Invalid remote port: ${options.remote} (expected 1-65535)`);
+      }
+
+      const autoAdvance = options.autoAdvance === undefined ? undefined : Number(options.autoAdvance);
+      if (autoAdvance !== undefined && (!Number.isFinite(autoAdvance) || autoAdvance < 0)) {
+        throw new Error(`Invalid auto-advance interval: ${options.autoAdvance} (expected seconds, 0 to disable)`);
+      }
+
       await present(dir, {
         startSlide: Number.parseInt(options.start, 10),
         showNotes: options.notes,
         notesTty: options.notesTty,
+        notesServer: options.notesServer,
+        remotePort,
+        remoteToken: options.remoteToken,
         loop: options.loop,
+        autoAdvance: autoAdvance === undefined ? undefined : autoAdvance * 1000,
+        watch: options.watch,
       });
     } catch (error) {
       handleError(error);
@@ -0,0 +1,79 @@
+/**
+ * Themes Command
+ *
+ * Lists the built-in theme presets with their descriptions and palettes.
+ */
+
+import { Command } from 'commander';
+import pc from 'picocolors';
+import { BUILTIN_THEMES, THEME_PRESET_NAMES } from '../../themes/index.js';
+import { handleError } from '../errors.js';
+
+export const themesCommand = new Command('themes')
+  .description('List available theme presets')
+  .action(() => {
+    try {
+      showThemes();
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+/**
+ * Render a color swatch for a hex color
+ *
+ * Uses a 24-bit ANSI foreground color when the terminal supports colors,
+ * otherwise falls back to an empty string.
+ */
+function swatch(hex: string): string {
+  if (!pc.isColorSupported) return '';
+
+  const r = Number.parseInt(hex.slice(1, 3), 16);
+  const g = Number.parseInt(hex.slice(3, 5), 16);
+  const b = Number.parseInt(hex.slice(5, 7), 16);
+  return `\x1b[38;2;${r};${g};${b}m██\x1b[39m `;
+}
+
+/**
+ * Format the list of built-in themes
+ *
+ * Each theme gets a name/description line and a palette line
+ * with the primary, accent and background colors.
+ *
+ * @returns Lines to print
+ */
+export function formatThemeList(): string[] {
+  const lines: string[] = [];
+
+  for (const name of THEME_PRESET_NAMES) {
+    const theme = BUILTIN_THEMES[name];
+    const { primary, accent, background } = theme.colors;
+
+    lines.push(`  ${pc.green(pc.bold(name.padEnd(10)))}${pc.white(theme.description ?? '')}`);
+    lines.push(
+      pc.dim('    ') +
+      `${swatch(primary)}${pc.dim(primary)}  ` +
+      `${swatch(accent)}${pc.dim(accent)}  ` +
+      `${swatch(background)}${pc.dim(background)}`
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Show the list of built-in themes with usage hints
+ */
+export function showThemes(): void {
+  console.log('');
+  console.log(pc.bold(pc.magenta('▶ THEMES:')));
+  console.log('');
+  for (const line of formatThemeList()) {
+    console.log(line);
+  }
+  console.log('');
+  console.log(pc.dim('  Use in deck.config.js:  ') + pc.white("themePreset: 'neon'"));
+  console.log(pc.dim('  New deck:               ') + pc.white('term-deck init my-talk --theme neon'));
+  console.log(pc.dim('  Single slide:           ') + pc.white('theme: neon') + pc.dim(' (frontmatter)'));
+  console.log('');
+}
@@ -7,7 +7,7 @@
 
 import { log, cancel } from '@clack/prompts';
 import { ValidationError } from '../schemas/validation.js';
-import { SlideParseError } from '../core/slide.js';
+import { SlideParseError, formatSlideErrorLocation } from '../core/slide.js';
 import { DeckLoadError } from '../core/deck-loader.js';
 import { ThemeError } from '../core/theme.js';
 
@@ -24,7 +24,7 @@ export function handleError(errorObj: unknown): never {
   }
 
   if (errorObj instanceof SlideParseError) {
-    log.error(`Slide error in ${errorObj.filePath}`);
+    log.error(`Slide error in ${formatSlideErrorLocation(errorObj)}`);
     log.message(`  ${errorObj.message}`);
     if (errorObj.cause) {
       const causeMessage = errorObj.cause instanceof Error
@@ -6,11 +6,34 @@
  */
 
 import pc from 'picocolors';
+import { loadDeckConfig } from '../core/deck-loader.js';
+import { DEFAULT_KEYBINDINGS, type Keybindings } from '../schemas/config.js';
+import { getHotkeys, getKeybindings } from '../presenter/keybindings.js';
+
+/**
+ * Load the keyboard bindings to show in help
+ *
+ * Uses the bindings of the deck in a directory (the current directory by
+ * default), so help matches the keys configured for that deck.
+ *
+ * @param dir - Deck directory
+ * @returns The deck's bindings, or the defaults if there is no valid config
+ */
+export async function loadHelpKeybindings(dir: string = process.cwd()): Promise<Keybindings> {
+  try {
+    const config = await loadDeckConfig(dir);
+    return getKeybindings(config.settings);
+  } catch {
+    return DEFAULT_KEYBINDINGS;
+  }
+}
 
 /**
  * Show styled help message
+ *
+ * @param keybindings - Keyboard bindings listed under hotkeys
  */
-export function showHelp(): void {
+export function showHelp(keybindings: Keybindings = DEFAULT_KEYBINDINGS): void {
   console.log('');
 
   // Header box
@@ -50,7 +73,13 @@ export function showHelp(): void {
   console.log(pc.dim('    -s, --start <n>       ') + pc.white('Start at slide number'));
   console.log(pc.dim('    -n, --notes           ') + pc.white('Show presenter notes (requires --notes-tty)'));
   console.log(pc.dim('    --notes-tty <path>    ') + pc.white('TTY for notes (e.g., /dev/ttys001)'));
+  console.log(pc.dim('    --notes-server [addr] ') + pc.white('Serve notes to term-deck notes (socket or port)'));
+  console.log(pc.dim('    --remote <port>       ') + pc.white('Remote control over HTTP/WebSocket'));
+  console.log(pc.dim('    --remote-token <t>    ') + pc.white('Token for the remote (default: random)'));
   console.log(pc.dim('    -l, --loop            ') + pc.white('Loop back after last slide'));
+  console.log(pc.dim('    --no-loop             ') + pc.white('Stop at the last slide'));
+  console.log(pc.dim('    --auto-advance <s>    ') + pc.white('Advance slides every s seconds'));
+  console.log(pc.dim('    -w, --watch           ') + pc.white('Reload slides when files change'));
   console.log('');
   console.log(pc.green('  export') + pc.dim(' <dir>         ') + pc.white('Export to GIF or MP4'));
   console.log(pc.dim('    -o, --output <file>   ') + pc.white('Output file (.mp4 or .gif)'));
@@ -63,6 +92,13 @@ export function showHelp(): void {
   console.log(pc.green('  init') + pc.dim(' <name>          ') + pc.white('Create a new presentation deck'));
   console.log(pc.dim('    -t, --theme <name>    ') + pc.white('Theme preset (default: matrix)'));
   console.log('');
+  console.log(pc.green('  themes') + pc.dim('               ') + pc.white('List available theme presets'));
+  console.log('');
+  console.log(pc.green('  lint') + pc.dim(' <dir>           ') + pc.white('Check a deck for errors (alias: check)'));
+  console.log(pc.dim('    -f, --format <fmt>    ') + pc.white('Output format: text or json (default: text)'));
+  console.log('');
+  console.log(pc.green('  notes') + pc.dim(' [address]      ') + pc.white('Show notes of a running presentation'));
+  console.log('');
   console.log(pc.green('  play') + pc.dim(' <url>           ') + pc.white('Play a deck from term-deck web'));
   console.log(pc.dim('    -s, --start <n>       ') + pc.white('Start at slide number'));
   console.log(pc.dim('    -n, --notes           ') + pc.white('Show presenter notes'));
@@ -72,11 +108,11 @@ export function showHelp(): void {
   // Hotkeys
   console.log(pc.bold(pc.cyan('▶ HOTKEYS:')));
   console.log('');
-  console.log(pc.dim('  Space / →   ') + pc.white('Next slide'));
-  console.log(pc.dim('  ←           ') + pc.white('Previous slide'));
-  console.log(pc.dim('  0-9         ') + pc.white('Jump to slide'));
-  console.log(pc.dim('  l           ') + pc.white('Show slide list'));
-  console.log(pc.dim('  q           ') + pc.white('Quit'));
+  const hotkeys = getHotkeys(keybindings);
+  const keysWidth = Math.max(...hotkeys.map((hotkey) => hotkey.keys.length)) + 3;
+  for (const { keys, description } of hotkeys) {
+    console.log(pc.dim(`  ${keys.padEnd(keysWidth)}`) + pc.white(description));
+  }
   console.log('');
 
   // Slide Format
@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { processSlideContent, normalizeBigText } from '../content-processor'
+import {
+  processSlideContent,
+  renderCodeBlock,
+  parseCodeFenceInfo,
+  normalizeBigText,
+} from '../content-processor'
 import { DEFAULT_THEME } from '../../schemas/theme'
 import type { Theme } from '../../schemas/theme'
 
@@ -8,7 +13,8 @@ import type { Theme } from '../../schemas/theme'
  *
  * This module is responsible for processing slide content through:
  * 1. Mermaid diagram conversion (to ASCII)
- * 2. Color token resolution (to blessed tags)
+ * 2. Code block boxing and syntax highlighting
+ * 3. Color token resolution (to blessed tags)
  *
  * The normalizeBigText function is already tested in slide.test.ts
  * but we include basic coverage here for module completeness.
@@ -217,6 +223,94 @@ graph LR
   })
 })
 
+describe('parseCodeFenceInfo', () => {
+  it('parses language, highlighted lines and line numbers', () => {
+    const info = parseCodeFenceInfo('ts {2,4-6} showLineNumbers')
+
+    expect(info.language).toBe('ts')
+    expect([...info.highlightLines]).toEqual([2, 4, 5, 6])
+    expect(info.showLineNumbers).toBe(true)
+  })
+
+  it('accepts ranges attached to the language', () => {
+    const info = parseCodeFenceInfo('bash{3}')
+
+    expect(info.language).toBe('bash')
+    expect([...info.highlightLines]).toEqual([3])
+    expect(info.showLineNumbers).toBe(false)
+  })
+
+  it('handles an empty info string', () => {
+    const info = parseCodeFenceInfo('')
+
+    expect(info.language).toBe('')
+    expect(info.highlightLines.size).toBe(0)
+  })
+})
+
+describe('renderCodeBlock', () => {
+  const stripTags = (text: string) =>
+    text.replace(/\{(open|close|[^{}]*)\}/g, (_match, tag) =>
+      tag === 'open' ? '{' : tag === 'close' ? '}' : ''
+    )
+
+  it('draws a plain box without a language', () => {
+    const result = renderCodeBlock('', 'hello\n')
+    const lines = result.split('\n')
+
+    expect(lines[0]).toBe('┌' + '─'.repeat(22) + '┐')
+    expect(lines[1]).toBe('│ hello' + ' '.repeat(15) + ' │')
+    expect(lines[2]).toBe('└' + '─'.repeat(22) + '┘')
+  })
+
+  it('shows the language as a border label', () => {
+    const result = renderCodeBlock('typescript', 'const a = 1')
+    const [top, , bottom] = result.split('\n')
+
+    expect(top.startsWith('┌─ typescript ─')).toBe(true)
+    expect(top.length).toBe(bottom.length)
+  })
+
+  it('syntax highlights supported languages with a theme', () => {
+    const result = renderCodeBlock('ts', 'const a = 1', DEFAULT_THEME)
+
+    expect(result).toContain(`{${DEFAULT_THEME.colors.accent}-fg}const{/${DEFAULT_THEME.colors.accent}-fg}`)
+  })
+
+  it('keeps box lines aligned when highlighting', () => {
+    const result = renderCodeBlock(
+      'ts {2} showLineNumbers',
+      'const a = 1\nfunction longer() {}',
+      DEFAULT_THEME
+    )
+    const widths = result.split('\n').map((line) => stripTags(line).length)
+
+    expect(new Set(widths).size).toBe(1)
+  })
+
+  it('adds line numbers to the gutter', () => {
+    const result = renderCodeBlock('js showLineNumbers', 'a\nb')
+
+    expect(result).toContain('│ 1  a')
+    expect(result).toContain('│ 2  b')
+  })
+
+  it('marks highlighted lines', () => {
+    const result = renderCodeBlock('ts {2}', 'a\nb', DEFAULT_THEME)
+    const lines = result.split('\n')
+
+    expect(lines[1]).not.toContain('-bg}')
+    expect(lines[2]).toContain('{#333333-bg}')
+    expect(stripTags(lines[2])).toContain('▌')
+  })
+
+  it('leaves unsupported languages unhighlighted', () => {
+    const result = renderCodeBlock('cobol', 'MOVE A TO B', DEFAULT_THEME)
+
+    expect(result.split('\n')[1]).toBe('│ MOVE A TO B' + ' '.repeat(9) + ' │')
+  })
+})
+
 describe('normalizeBigText (module completeness)', () => {
   // Basic coverage - detailed tests are in slide.test.ts
 
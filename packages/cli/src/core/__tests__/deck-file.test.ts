@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest'
+import { parseDeckFileContent } from '../deck-file'
+import { SlideParseError, formatSlideError } from '../slide'
+
+const FILE = '/talks/deck.md'
+
+function parseError(content: string): SlideParseError {
+  try {
+    parseDeckFileContent(content, FILE)
+  } catch (error) {
+    if (error instanceof SlideParseError) return error
+    throw error
+  }
+  throw new Error('Expected a SlideParseError')
+}
+
+describe('parseDeckFileContent', () => {
+  it('splits slides at separator lines', () => {
+    const { settings, slides } = parseDeckFileContent(`---
+title: One
+---
+First
+
+---
+title: Two
+bigText: HI
+---
+Second
+`, FILE)
+
+    expect(settings).toBeUndefined()
+    expect(slides.map((slide) => slide.frontmatter.title)).toEqual(['One', 'Two'])
+    expect(slides.map((slide) => slide.body)).toEqual(['First', 'Second'])
+    expect(slides[1].frontmatter.bigText).toBe('HI')
+  })
+
+  it('records the source file, index and line of each slide', () => {
+    const { slides } = parseDeckFileContent('---\ntitle: One\n---\nA\n---\ntitle: Two\n---\nB', FILE)
+
+    expect(slides.map((slide) => slide.sourcePath)).toEqual([FILE, FILE])
+    expect(slides.map((slide) => slide.index)).toEqual([0, 1])
+    expect(slides.map((slide) => slide.sourceLine)).toEqual([1, 5])
+  })
+
+  it('reads a leading settings block', () => {
+    const { settings, slides } = parseDeckFileContent(`---deck
+title: My Talk
+themePreset: neon
+---
+
+---
+title: Intro
+---
+Hello
+`, FILE)
+
+    expect(settings).toEqual({ data: { title: 'My Talk', themePreset: 'neon' }, line: 1 })
+    expect(slides).toHaveLength(1)
+    expect(slides[0].sourceLine).toBe(6)
+  })
+
+  it('keeps a first slide without a body as a slide', () => {
+    const { settings, slides } = parseDeckFileContent(`---
+title: Title
+bigText: MY TALK
+---
+
+---
+title: Intro
+---
+Hello
+`, FILE)
+
+    expect(settings).toBeUndefined()
+    expect(slides.map((slide) => slide.frontmatter.title)).toEqual(['Title', 'Intro'])
+    expect(slides[0].frontmatter.bigText).toBe('MY TALK')
+    expect(slides[0].body).toBe('')
+  })
+
+  it('rejects settings blocks after the first slide', () => {
+    const error = parseError('---\ntitle: A\n---\nok\n---deck\ntitle: My Talk\n---\n')
+
+    expect(error.message).toMatch(/must be the first block/)
+    expect(error.line).toBe(5)
+  })
+
+  it('rejects a settings block followed by slide content', () => {
+    const error = parseError('---deck\ntitle: My Talk\n---\nHello\n---\ntitle: A\n---\n')
+
+    expect(error.message).toMatch(/must be followed by a slide frontmatter block/)
+    expect(error.line).toBe(4)
+  })
+
+  it('does not split at separators inside code fences', () => {
+    const { slides } = parseDeckFileContent([
+      '---',
+      'title: Code',
+      '---',
+      '```yaml',
+      '---',
+      'key: value',
+      '```',
+    ].join('\n'), FILE)
+
+    expect(slides).toHaveLength(1)
+    expect(slides[0].body).toContain('key: value')
+  })
+
+  it('extracts presenter notes per slide', () => {
+    const { slides } = parseDeckFileContent('---\ntitle: A\n---\nBody\n<!-- notes -->\nSay hi', FILE)
+
+    expect(slides[0].body).toBe('Body')
+    expect(slides[0].notes).toBe('Say hi')
+  })
+
+  it('rejects content before the first frontmatter block', () => {
+    const error = parseError('Intro text\n---\ntitle: A\n---\n')
+
+    expect(error.message).toMatch(/must start with a frontmatter block/)
+    expect(error.line).toBe(1)
+  })
+
+  it('reports YAML errors at their line in the deck file', () => {
+    const error = parseError('---\ntitle: A\n---\nok\n---\ntitle: B\nbigText: [unclosed\n---\n')
+
+    expect(error.line).toBe(7)
+    expect(formatSlideError(error)).toContain(`${FILE}:7`)
+  })
+
+  it('reports validation errors at the slide line', () => {
+    const error = parseError('---\ntitle: A\n---\nok\n---\nbigText: NO TITLE\n---\nbody')
+
+    expect(error.line).toBe(5)
+    expect(error.message).toMatch(/title/)
+  })
+
+  it('collects slide errors and keeps the valid slides', () => {
+    const { slides, errors } = parseDeckFileContent(
+      '---\ntitle: A\n---\nok\n---\nbigText: NO TITLE\n---\nbody\n---\ntitle: [x\n---\n---\ntitle: D\n---\nd',
+      FILE,
+      { collectErrors: true }
+    )
+
+    expect(slides.map((slide) => slide.frontmatter.title)).toEqual(['A', 'D'])
+    expect(errors.map((error) => error.line)).toEqual([5, 10])
+  })
+})
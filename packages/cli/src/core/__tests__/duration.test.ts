@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { parseDuration } from '../duration'
+
+const MINUTE = 60_000
+
+describe('parseDuration', () => {
+  it('reads numbers as minutes', () => {
+    expect(parseDuration(2)).toBe(2 * MINUTE)
+    expect(parseDuration(0.5)).toBe(30_000)
+  })
+
+  it('reads strings with units', () => {
+    expect(parseDuration('90s')).toBe(90_000)
+    expect(parseDuration('2m')).toBe(2 * MINUTE)
+    expect(parseDuration('1h')).toBe(60 * MINUTE)
+    expect(parseDuration('5')).toBe(5 * MINUTE)
+  })
+
+  it('reads minutes and seconds', () => {
+    expect(parseDuration('1:30')).toBe(90_000)
+  })
+
+  it('rejects invalid durations', () => {
+    expect(parseDuration(-1)).toBeUndefined()
+    expect(parseDuration('soon')).toBeUndefined()
+    expect(parseDuration('1:75')).toBeUndefined()
+    expect(parseDuration(undefined)).toBeUndefined()
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { countFragments, prepareFragments, splitFragments } from '../fragments'
+import { processSlideContent } from '../content-processor'
+import { DEFAULT_THEME } from '../../schemas/theme'
+
+describe('prepareFragments', () => {
+  it('leaves the body unchanged without list fragments', () => {
+    expect(prepareFragments('- a\n- b')).toBe('- a\n- b')
+  })
+
+  it('adds a marker before each top-level list item', () => {
+    expect(prepareFragments('Intro\n- a\n  - nested\n- b', true)).toBe(
+      'Intro\n<!-- pause -->\n- a\n  - nested\n<!-- pause -->\n- b'
+    )
+  })
+
+  it('ignores list markers in code fences and thematic breaks', () => {
+    expect(prepareFragments('```\n- code\n```\n- - -', true)).toBe('```\n- code\n```\n- - -')
+  })
+})
+
+describe('countFragments', () => {
+  it('counts pause markers outside code fences', () => {
+    expect(countFragments('a\n<!-- pause -->\nb\n```\n<!-- pause -->\n```')).toBe(2)
+  })
+
+  it('returns 1 for a body without markers', () => {
+    expect(countFragments('Just text')).toBe(1)
+  })
+
+  it('counts list items as fragments', () => {
+    expect(countFragments('Intro\n1. a\n2. b', true)).toBe(3)
+  })
+})
+
+describe('splitFragments', () => {
+  it('splits processed content at marker lines', () => {
+    expect(splitFragments('a\n<!-- pause -->\nb\n  <!-- pause -->\nc')).toEqual(['a', 'b', 'c'])
+  })
+
+  it('keeps list numbering across fragments', async () => {
+    const processed = await processSlideContent(prepareFragments('1. one\n2. two', true), DEFAULT_THEME)
+
+    expect(splitFragments(processed)).toEqual(['', '  1. one', '  2. two'])
+  })
+})
@@ -0,0 +1,241 @@
+import { describe, it, expect } from 'vitest'
+import { parseMarkdown, parseInline, renderMarkdown, visibleWidth } from '../markdown'
+import { DEFAULT_THEME } from '../../schemas/theme'
+
+const MUTED = DEFAULT_THEME.colors.muted
+
+function render(source: string): string {
+  return renderMarkdown(source, { theme: DEFAULT_THEME })
+}
+
+describe('parseInline', () => {
+  it('parses nested emphasis', () => {
+    expect(parseInline('**bold *and italic***')).toEqual([
+      {
+        type: 'strong',
+        children: [
+          { type: 'text', value: 'bold ' },
+          { type: 'emphasis', children: [{ type: 'text', value: 'and italic' }] },
+        ],
+      },
+    ])
+  })
+
+  it('does not parse emphasis inside code spans', () => {
+    expect(parseInline('`a *b* c`')).toEqual([{ type: 'code', value: 'a *b* c' }])
+  })
+
+  it('keeps underscores inside words literal', () => {
+    expect(parseInline('snake_case_name')).toEqual([{ type: 'text', value: 'snake_case_name' }])
+  })
+
+  it('keeps color tokens as tag nodes', () => {
+    expect(parseInline('{GREEN}go{/}')).toEqual([
+      { type: 'tag', value: '{GREEN}' },
+      { type: 'text', value: 'go' },
+      { type: 'tag', value: '{/}' },
+    ])
+  })
+
+  it('parses links and autolinks', () => {
+    expect(parseInline('[docs](https://example.com) <https://x.dev>')).toEqual([
+      { type: 'link', url: 'https://example.com', children: [{ type: 'text', value: 'docs' }] },
+      { type: 'text', value: ' ' },
+      { type: 'link', url: 'https://x.dev', children: [{ type: 'text', value: 'https://x.dev' }] },
+    ])
+  })
+
+  it('treats escaped characters as literal text', () => {
+    expect(parseInline('\\*not italic\\*')).toEqual([{ type: 'text', value: '*not italic*' }])
+  })
+
+  it('leaves unmatched delimiters as text', () => {
+    expect(parseInline('2 * 3 = 6')).toEqual([{ type: 'text', value: '2 * 3 = 6' }])
+  })
+})
+
+describe('parseMarkdown', () => {
+  it('parses nested lists', () => {
+    const [list] = parseMarkdown('- one\n  - nested\n- two')
+
+    expect(list.type).toBe('list')
+    if (list.type !== 'list') return
+
+    expect(list.items).toHaveLength(2)
+    expect(list.items[0].children[1].type).toBe('list')
+  })
+
+  it('keeps fenced code as a single node', () => {
+    const nodes = parseMarkdown('```ts\n- not a list\n**not bold**\n```')
+
+    expect(nodes).toEqual([{ type: 'code', info: 'ts', code: '- not a list\n**not bold**' }])
+  })
+
+  it('parses blockquotes with nested blocks', () => {
+    const [quote] = parseMarkdown('> # Title\n> text')
+
+    expect(quote.type).toBe('blockquote')
+    if (quote.type !== 'blockquote') return
+
+    expect(quote.children.map((node) => node.type)).toEqual(['heading', 'paragraph'])
+  })
+
+  it('parses pipe tables with alignment', () => {
+    const [table] = parseMarkdown('| a | b | c |\n|:--|:-:|--:|\n| 1 | 2 | 3 |')
+
+    expect(table.type).toBe('table')
+    if (table.type !== 'table') return
+
+    expect(table.align).toEqual(['left', 'center', 'right'])
+    expect(table.header).toHaveLength(3)
+    expect(table.rows).toEqual([[
+      [{ type: 'text', value: '1' }],
+      [{ type: 'text', value: '2' }],
+      [{ type: 'text', value: '3' }],
+    ]])
+  })
+
+  it('does not treat a paragraph with pipes as a table', () => {
+    expect(parseMarkdown('a | b\nc | d').map((node) => node.type)).toEqual(['paragraph'])
+  })
+
+  it('keeps blank lines', () => {
+    expect(parseMarkdown('a\n\nb').map((node) => node.type)).toEqual(['paragraph', 'blank', 'paragraph'])
+  })
+})
+
+describe('renderMarkdown', () => {
+  it('renders emphasis as blessed tags', () => {
+    expect(render('**bold** and *dim*')).toBe(
+      '{bold}bold{/bold} and {light-black-fg}dim{/light-black-fg}'
+    )
+  })
+
+  it('renders nested emphasis', () => {
+    expect(render('**a _b_ c**')).toBe(
+      '{bold}a {light-black-fg}b{/light-black-fg} c{/bold}'
+    )
+  })
+
+  it('renders inline code with escaped braces', () => {
+    expect(render('`{GREEN}`')).toBe('{inverse} {open}GREEN{close} {/inverse}')
+  })
+
+  it('renders headings and rules', () => {
+    expect(render('# Title\n---')).toBe(`{bold}Title{/bold}\n${'─'.repeat(40)}`)
+  })
+
+  it('indents nested lists by level', () => {
+    expect(render('- one\n  - two\n    - three\n- four')).toBe([
+      '  • one',
+      '      ◦ two',
+      '          ▪ three',
+      '  • four',
+    ].join('\n'))
+  })
+
+  it('numbers ordered lists from their start', () => {
+    expect(render('3. c\n4. d')).toBe('  3. c\n  4. d')
+  })
+
+  it('keeps list continuation lines aligned', () => {
+    expect(render('- first line\n  second line')).toBe('  • first line\n    second line')
+  })
+
+  it('renders blockquotes with a bar', () => {
+    const bar = `{${MUTED}-fg}│{/${MUTED}-fg}`
+
+    expect(render('> quoted\n> text')).toBe(`${bar} quoted\n${bar} text`)
+  })
+
+  it('renders links with footnote URLs', () => {
+    expect(render('See [docs](https://a.dev) and [more](https://a.dev).')).toBe([
+      `See {underline}docs{/underline}{${MUTED}-fg}[1]{/${MUTED}-fg} and {underline}more{/underline}{${MUTED}-fg}[1]{/${MUTED}-fg}.`,
+      '',
+      `{${MUTED}-fg}[1] https://a.dev{/${MUTED}-fg}`,
+    ].join('\n'))
+  })
+
+  it('does not add a footnote for autolinks', () => {
+    expect(render('<https://a.dev>')).toBe('{underline}https://a.dev{/underline}')
+  })
+
+  it('reopens markdown styles after a color token closes', () => {
+    expect(render('**{GREEN}green{/} still bold**')).toBe(
+      '{bold}{GREEN}green{/}{bold} still bold{/bold}'
+    )
+  })
+
+  it('preserves color tokens spanning several nodes', () => {
+    expect(render('{CYAN}one\n\n**two**{/}')).toBe('{CYAN}one\n\n{bold}two{/bold}{/}')
+    expect(render('- {CYAN}one\n- two{/}')).toBe('  • {CYAN}one\n  • two{/}')
+  })
+
+  it('renders code blocks with the given renderer', () => {
+    const result = renderMarkdown('- item\n\n```sh\nls\n```', {
+      theme: DEFAULT_THEME,
+      renderCode: (info, code) => `[${info}:${code}]`,
+    })
+
+    expect(result).toBe('  • item\n\n[sh:ls]')
+  })
+
+  it('preserves line breaks and indentation in paragraphs', () => {
+    expect(render('line one\n   indented')).toBe('line one\n   indented')
+  })
+
+  describe('tables', () => {
+    const stripTags = (text: string) => text.replace(/\{[^{}]*\}/g, '')
+
+    it('draws a box-drawn grid', () => {
+      const lines = render('| Name | Role |\n|---|---|\n| Ada | Math |').split('\n').map(stripTags)
+
+      expect(lines).toEqual([
+        '┌──────┬──────┐',
+        '│ Name │ Role │',
+        '├──────┼──────┤',
+        '│ Ada  │ Math │',
+        '└──────┴──────┘',
+      ])
+    })
+
+    it('aligns columns from the delimiter row', () => {
+      const lines = render('| left | center | right |\n|:--|:-:|--:|\n| a | b | c |')
+        .split('\n')
+        .map(stripTags)
+
+      expect(lines[3]).toBe('│ a    │   b    │     c │')
+    })
+
+    it('styles the header with the primary color', () => {
+      const result = render('| H |\n|---|\n| x |')
+
+      expect(result).toContain(`{${DEFAULT_THEME.colors.primary}-fg}{bold}H{/bold}`)
+    })
+
+    it('fits wide tables into the available width by wrapping cells', () => {
+      const source = '| Key | Description |\n|---|---|\n| a | one two three four five six |'
+      const result = renderMarkdown(source, { theme: DEFAULT_THEME, width: 24 })
+      const lines = result.split('\n')
+
+      for (const line of lines) {
+        expect(visibleWidth(line)).toBeLessThanOrEqual(24)
+      }
+      expect(lines.map(stripTags)).toContain('│ a   │ one two three  │')
+    })
+
+    it('fits tables inside lists to the remaining width', () => {
+      const source = '- item\n\n  | A | B |\n  |---|---|\n  | aaaaaaaaaa | bbbbbbbbbb |'
+      const result = renderMarkdown(source, { theme: DEFAULT_THEME, width: 24 })
+
+      for (const line of result.split('\n')) {
+        expect(visibleWidth(line)).toBeLessThanOrEqual(24)
+      }
+    })
+  })
+
+  it('measures visible width of tagged text', () => {
+    expect(visibleWidth('{bold}Hi{/bold} {open}x{close}')).toBe(6)
+    expect(visibleWidth('{GREEN}abc{/}')).toBe(3)
+  })
+})
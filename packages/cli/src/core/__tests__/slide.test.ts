@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
 import { extractNotes, parseSlide } from '../slide'
-import { findSlideFiles, loadDeckConfig, loadDeck } from '../deck-loader'
+import { findSlideFiles, formatSectionTitle, loadDeckConfig, loadDeck } from '../deck-loader'
 import { normalizeBigText } from '../content-processor'
 import { hasMermaidDiagrams, extractMermaidBlocks, mermaidToAscii, formatMermaidError, processMermaidDiagrams } from '../utils/mermaid'
 import { DEFAULT_THEME } from '../../schemas/theme'
@@ -1023,6 +1023,78 @@ describe('findSlideFiles', () => {
       expect(files).toHaveLength(2)
     })
   })
+
+  describe('sections', () => {
+    function createSectionFile(path: string): void {
+      mkdirSync(join(SLIDES_DIR, dirname(path)), { recursive: true })
+      writeFileSync(join(SLIDES_DIR, path), `---\ntitle: ${path}\n---\n`)
+    }
+
+    it('includes slides in section subdirectories in path order', async () => {
+      await createFile('01-intro.md')
+      createSectionFile('02-architecture/02-storage.md')
+      createSectionFile('02-architecture/01-overview.md')
+      await createFile('03-end.md')
+
+      const files = await findSlideFiles(SLIDES_DIR)
+
+      expect(files.map(f => f.name)).toEqual([
+        '01-intro.md',
+        '01-overview.md',
+        '02-storage.md',
+        '03-end.md',
+      ])
+      expect(files.map(f => f.section)).toEqual([undefined, 'Architecture', 'Architecture', undefined])
+    })
+
+    it('joins nested section titles', async () => {
+      createSectionFile('01-backend/02-api_design/01-rest.md')
+
+      const files = await findSlideFiles(SLIDES_DIR)
+
+      expect(files[0].section).toBe('Backend / Api design')
+    })
+
+    it('skips directories starting with underscore', async () => {
+      await createFile('01-intro.md')
+      createSectionFile('_drafts/01-idea.md')
+
+      const files = await findSlideFiles(SLIDES_DIR)
+
+      expect(files.map(f => f.name)).toEqual(['01-intro.md'])
+    })
+  })
+
+  describe('slide order', () => {
+    it('includes only the listed files and directories in order', async () => {
+      await createFile('01-intro.md')
+      await createFile('02-skipped.md')
+      await createFile('03-end.md')
+      mkdirSync(join(SLIDES_DIR, 'demo'))
+      writeFileSync(join(SLIDES_DIR, 'demo', '01-setup.md'), '---\ntitle: Setup\n---\n')
+
+      const files = await findSlideFiles(SLIDES_DIR, ['03-end.md', 'demo', '01-intro.md'])
+
+      expect(files.map(f => f.name)).toEqual(['03-end.md', '01-setup.md', '01-intro.md'])
+      expect(files.map(f => f.index)).toEqual([0, 1, 2])
+      expect(files[1].section).toBe('Demo')
+    })
+
+    it('throws for missing entries', async () => {
+      await expect(findSlideFiles(SLIDES_DIR, ['missing.md'])).rejects.toThrow(/missing\.md/)
+    })
+  })
+})
+
+describe('formatSectionTitle', () => {
+  it('strips the ordering prefix and separators', () => {
+    expect(formatSectionTitle('02-architecture')).toBe('Architecture')
+    expect(formatSectionTitle('10_deep-dive')).toBe('Deep dive')
+  })
+
+  it('keeps names that are only a number', () => {
+    expect(formatSectionTitle('2024')).toBe('2024')
+  })
 })
 
 describe('loadDeckConfig', () => {
@@ -1052,6 +1124,23 @@ describe('loadDeckConfig', () => {
     })
   })
 
+  describe('theme presets', () => {
+    it('resolves themePreset from the theme registry', async () => {
+      writeFileSync(join(CONFIG_DIR, 'deck.config.js'), `export default { themePreset: 'neon' }\n`)
+
+      const config = await loadDeckConfig(CONFIG_DIR)
+
+      expect(config.theme.name).toBe('neon')
+      expect(config.theme.colors.primary).toBe('#ff0099')
+    })
+
+    it('rejects unknown theme presets', async () => {
+      writeFileSync(join(CONFIG_DIR, 'deck.config.js'), `export default { themePreset: 'vaporwave' }\n`)
+
+      await expect(loadDeckConfig(CONFIG_DIR)).rejects.toThrow(/themePreset/)
+    })
+  })
+
   // Skip these tests in Vitest - they require dynamically loading TypeScript files
   // from temp directories, which Vite/esbuild can't handle. These tests work with Bun.
   describe.skip('config file loading', () => {
@@ -1361,11 +1450,109 @@ No title here.
       await expect(loadDeck(DECK_DIR)).rejects.toThrow(/title/)
     })
 
+    it('throws on slide theme references that cannot be resolved', async () => {
+      writeFileSync(join(DECK_DIR, '01-themed.md'), `---
+title: Themed
+theme: ./themes/missing.yml
+---
+
+Content
+`)
+
+      await expect(loadDeck(DECK_DIR)).rejects.toThrow(/missing\.yml/)
+    })
+
     // Note: Config file validation tests are covered in loadDeckConfig tests.
     // Testing config errors through loadDeck is problematic due to Bun's
     // dynamic import caching and temp directory path resolution.
   })
 
+  describe('sections and slide order', () => {
+    it('sets the section of slides in subdirectories', async () => {
+      await createSlide('01-intro.md', 'Intro')
+      mkdirSync(join(DECK_DIR, '02-architecture'))
+      await createSlide('02-architecture/01-overview.md', 'Overview')
+
+      const deck = await loadDeck(DECK_DIR)
+
+      expect(deck.slides.map((slide) => slide.section)).toEqual([undefined, 'Architecture'])
+    })
+
+    it('orders slides by deck.order', async () => {
+      await createSlide('01-intro.md', 'Intro')
+      await createSlide('02-content.md', 'Content')
+      await createSlide('03-end.md', 'End')
+      writeFileSync(join(DECK_DIR, 'deck.order'), '# Short version\n03-end.md\n\n01-intro.md\n')
+
+      const deck = await loadDeck(DECK_DIR)
+
+      expect(deck.slides.map((slide) => slide.frontmatter.title)).toEqual(['End', 'Intro'])
+    })
+  })
+
+  describe('single-file decks', () => {
+    it('loads slides from a deck file', async () => {
+      const file = join(DECK_DIR, 'talk.md')
+      writeFileSync(file, '---\ntitle: One\n---\nA\n\n---\ntitle: Two\n---\nB\n')
+
+      const deck = await loadDeck(file)
+
+      expect(deck.slides.map((slide) => slide.frontmatter.title)).toEqual(['One', 'Two'])
+      expect(deck.basePath).toBe(file)
+    })
+
+    it('applies the settings block to the deck config', async () => {
+      const file = join(DECK_DIR, 'talk.md')
+      writeFileSync(file, '---deck\ntitle: My Talk\ntheme: neon\n---\n\n---\ntitle: One\n---\nA\n')
+
+      const deck = await loadDeck(file)
+
+      expect(deck.config.title).toBe('My Talk')
+      expect(deck.config.theme.name).toBe('neon')
+    })
+
+    it('reports invalid settings with the deck file line', async () => {
+      const file = join(DECK_DIR, 'talk.md')
+      writeFileSync(file, '---deck\nsettings:\n  loop: sometimes\n---\n\n---\ntitle: One\n---\nA\n')
+
+      await expect(loadDeck(file)).rejects.toMatchObject({ filePath: file, line: 1 })
+    })
+  })
+
+  describe('collecting errors', () => {
+    it('collects every invalid slide instead of throwing', async () => {
+      await createSlide('01-ok.md', 'OK')
+      writeFileSync(join(DECK_DIR, '02-bad.md'), '---\nbigText: NO TITLE\n---\nA\n')
+      writeFileSync(join(DECK_DIR, '03-bad.md'), '---\ntitle: [unclosed\n---\nB\n')
+
+      const deck = await loadDeck(DECK_DIR, { collectErrors: true })
+
+      expect(deck.slides.map((slide) => slide.frontmatter.title)).toEqual(['OK'])
+      expect(deck.errors?.map((error) => error.filePath)).toEqual([
+        join(DECK_DIR, '02-bad.md'),
+        join(DECK_DIR, '03-bad.md'),
+      ])
+    })
+
+    it('collects slide theme errors', async () => {
+      writeFileSync(join(DECK_DIR, '01-themed.md'), '---\ntitle: Themed\ntheme: ./missing.yml\n---\nA\n')
+
+      const deck = await loadDeck(DECK_DIR, { collectErrors: true })
+
+      expect(deck.slides).toHaveLength(1)
+      expect(deck.errors).toHaveLength(1)
+      expect(deck.errors?.[0].filePath).toBe(join(DECK_DIR, '01-themed.md'))
+    })
+
+    it('leaves errors undefined without collectErrors', async () => {
+      await createSlide('01-ok.md', 'OK')
+
+      const deck = await loadDeck(DECK_DIR)
+
+      expect(deck.errors).toBeUndefined()
+    })
+  })
+
   describe('basePath', () => {
     it('returns the correct basePath', async () => {
       await createSlide('01-intro.md', 'Intro')
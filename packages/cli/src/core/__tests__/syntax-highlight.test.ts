@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest'
+import {
+  tokenize,
+  highlightCode,
+  isSupportedLanguage,
+  resolveSyntaxColors,
+} from '../utils/syntax-highlight'
+import { DEFAULT_THEME } from '../../schemas/theme'
+import type { Theme } from '../../schemas/theme'
+
+function tokensOfType(code: string, language: string, type: string): string[] {
+  return tokenize(code, language)
+    .filter((token) => token.type === type)
+    .map((token) => token.value)
+}
+
+describe('isSupportedLanguage', () => {
+  it('accepts languages and their aliases', () => {
+    expect(isSupportedLanguage('typescript')).toBe(true)
+    expect(isSupportedLanguage('ts')).toBe(true)
+    expect(isSupportedLanguage('JS')).toBe(true)
+    expect(isSupportedLanguage('sh')).toBe(true)
+    expect(isSupportedLanguage('json')).toBe(true)
+    expect(isSupportedLanguage('yml')).toBe(true)
+  })
+
+  it('rejects unknown languages', () => {
+    expect(isSupportedLanguage('cobol')).toBe(false)
+    expect(isSupportedLanguage('')).toBe(false)
+  })
+})
+
+describe('tokenize', () => {
+  it('round-trips the source code', () => {
+    const code = 'const x: Foo = bar(1, "a{b}") // done\n/* multi\nline */'
+
+    const tokens = tokenize(code, 'ts')
+
+    expect(tokens.map((token) => token.value).join('')).toBe(code)
+  })
+
+  it('classifies TypeScript tokens', () => {
+    const code = 'export async function load(path: string): Promise<Deck> { return 42 }'
+
+    expect(tokensOfType(code, 'ts', 'keyword')).toEqual(['export', 'async', 'function', 'return'])
+    expect(tokensOfType(code, 'ts', 'function')).toEqual(['load'])
+    expect(tokensOfType(code, 'ts', 'type')).toEqual(['Promise', 'Deck'])
+    expect(tokensOfType(code, 'ts', 'number')).toEqual(['42'])
+  })
+
+  it('keeps block comments spanning lines as one token', () => {
+    const tokens = tokenize('/* a\nb */ x', 'js')
+
+    expect(tokens[0]).toEqual({ type: 'comment', value: '/* a\nb */' })
+  })
+
+  it('classifies Bash tokens', () => {
+    const code = 'if [ -n "$HOME" ]; then echo $USER # greet\nfi'
+
+    expect(tokensOfType(code, 'bash', 'keyword')).toEqual(['if', 'then', 'fi'])
+    expect(tokensOfType(code, 'bash', 'string')).toEqual(['"$HOME"'])
+    expect(tokensOfType(code, 'bash', 'variable')).toEqual(['$USER'])
+    expect(tokensOfType(code, 'bash', 'comment')).toEqual(['# greet'])
+    expect(tokensOfType(code, 'bash', 'property')).toEqual(['-n'])
+  })
+
+  it('distinguishes JSON keys from string values', () => {
+    const code = '{ "name": "deck", "slides": 3, "draft": false }'
+
+    expect(tokensOfType(code, 'json', 'property')).toEqual(['"name"', '"slides"', '"draft"'])
+    expect(tokensOfType(code, 'json', 'string')).toEqual(['"deck"'])
+    expect(tokensOfType(code, 'json', 'number')).toEqual(['3'])
+    expect(tokensOfType(code, 'json', 'keyword')).toEqual(['false'])
+  })
+
+  it('classifies YAML tokens', () => {
+    const code = 'title: "Intro"\ncount: 5 # slides\nenabled: true'
+
+    expect(tokensOfType(code, 'yaml', 'property')).toEqual(['title', 'count', 'enabled'])
+    expect(tokensOfType(code, 'yaml', 'string')).toEqual(['"Intro"'])
+    expect(tokensOfType(code, 'yaml', 'number')).toEqual(['5'])
+    expect(tokensOfType(code, 'yaml', 'comment')).toEqual(['# slides'])
+    expect(tokensOfType(code, 'yaml', 'keyword')).toEqual(['true'])
+  })
+
+  it('returns a single plain token for unsupported languages', () => {
+    expect(tokenize('MOVE A TO B', 'cobol')).toEqual([{ type: 'plain', value: 'MOVE A TO B' }])
+  })
+})
+
+describe('resolveSyntaxColors', () => {
+  it('falls back to the theme palette', () => {
+    const colors = resolveSyntaxColors(DEFAULT_THEME)
+
+    expect(colors.keyword).toBe(DEFAULT_THEME.colors.accent)
+    expect(colors.comment).toBe(DEFAULT_THEME.colors.muted)
+    expect(colors.type).toBe(DEFAULT_THEME.colors.primary)
+    expect(colors.lineNumber).toBe(DEFAULT_THEME.colors.muted)
+  })
+
+  it('uses colors from the syntax section', () => {
+    const theme: Theme = {
+      ...DEFAULT_THEME,
+      syntax: { keyword: '#ff00ff', highlight: '#222222' },
+    }
+
+    const colors = resolveSyntaxColors(theme)
+
+    expect(colors.keyword).toBe('#ff00ff')
+    expect(colors.highlight).toBe('#222222')
+    expect(colors.comment).toBe(DEFAULT_THEME.colors.muted)
+  })
+})
+
+describe('highlightCode', () => {
+  it('returns one tagged line per source line', () => {
+    const lines = highlightCode('const a = 1\nconst b = 2', 'ts', DEFAULT_THEME)
+
+    expect(lines).toHaveLength(2)
+    expect(lines[0]).toContain(`{${DEFAULT_THEME.colors.accent}-fg}const{/${DEFAULT_THEME.colors.accent}-fg}`)
+  })
+
+  it('colors multi-line comments on every line', () => {
+    const muted = DEFAULT_THEME.colors.muted
+    const lines = highlightCode('/* one\ntwo */', 'ts', DEFAULT_THEME)
+
+    expect(lines).toEqual([
+      `{${muted}-fg}/* one{/${muted}-fg}`,
+      `{${muted}-fg}two */{/${muted}-fg}`,
+    ])
+  })
+
+  it('escapes braces so they are not parsed as tags', () => {
+    const lines = highlightCode('{GREEN}', 'json', DEFAULT_THEME)
+
+    expect(lines[0]).not.toContain('{GREEN}')
+    expect(lines[0]).toContain('{open}')
+    expect(lines[0]).toContain('{close}')
+  })
+})
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { join } from 'path'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { getSlideThemeSource, resolveThemeReference, resolveSlideTheme } from '../theme-resolver'
+import { ThemeError } from '../theme'
+import { DEFAULT_THEME } from '../../schemas/theme'
+import type { Slide } from '../../schemas/slide'
+
+const customThemeYaml = `
+name: custom-file
+colors:
+  primary: "#123456"
+  accent: "#654321"
+  background: "#000000"
+  text: "#ffffff"
+  muted: "#666666"
+gradients:
+  fire:
+    - "#ff0000"
+    - "#00ff00"
+glyphs: "0123456789abcdef"
+animations:
+  revealSpeed: 1.0
+  matrixDensity: 50
+  glitchIterations: 5
+  lineDelay: 30
+  matrixInterval: 80
+`
+
+describe('resolveThemeReference', () => {
+  let tempDir: string
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'term-deck-resolver-'))
+    await writeFile(join(tempDir, 'custom.yml'), customThemeYaml)
+  })
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('resolves built-in theme names', async () => {
+    const theme = await resolveThemeReference('neon', tempDir)
+
+    expect(theme.name).toBe('neon')
+  })
+
+  it('resolves all bundled themes', async () => {
+    for (const name of ['matrix', 'neon', 'retro', 'minimal', 'hacker']) {
+      const theme = await resolveThemeReference(name, tempDir)
+      expect(theme.name).toBe(name)
+    }
+  })
+
+  it('resolves relative YAML files against the base directory', async () => {
+    const theme = await resolveThemeReference('./custom.yml', tempDir)
+
+    expect(theme.name).toBe('custom-file')
+    expect(theme.colors.primary).toBe('#123456')
+  })
+
+  it('resolves absolute YAML file paths', async () => {
+    const theme = await resolveThemeReference(join(tempDir, 'custom.yml'), '/')
+
+    expect(theme.name).toBe('custom-file')
+  })
+
+  it('throws ThemeError for missing theme files', async () => {
+    await expect(resolveThemeReference('./missing.yml', tempDir)).rejects.toThrow(ThemeError)
+  })
+
+  it('throws ThemeError for unknown packages', async () => {
+    await expect(
+      resolveThemeReference('@term-deck/theme-does-not-exist', tempDir)
+    ).rejects.toThrow(/not found/)
+  })
+})
+
+describe('resolveSlideTheme', () => {
+  function createSlide(theme?: string): Slide {
+    return {
+      frontmatter: { title: 'Slide', theme, transition: 'instant' },
+      body: '',
+      sourcePath: '/slides/01-slide.md',
+      index: 0,
+    }
+  }
+
+  it('returns the fallback theme when the slide has no override', async () => {
+    const theme = await resolveSlideTheme(createSlide(), DEFAULT_THEME)
+
+    expect(theme).toBe(DEFAULT_THEME)
+  })
+
+  it('returns the slide theme when set', async () => {
+    const theme = await resolveSlideTheme(createSlide('retro'), DEFAULT_THEME)
+
+    expect(theme.name).toBe('retro')
+  })
+
+  it('loads a slide theme file once', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'term-deck-slide-theme-'))
+    await writeFile(join(dir, 'custom.yml'), customThemeYaml)
+    const slide = { ...createSlide('./custom.yml'), sourcePath: join(dir, '01-slide.md') }
+
+    const theme = await resolveSlideTheme(slide, DEFAULT_THEME)
+    await rm(dir, { recursive: true, force: true })
+
+    expect(await resolveSlideTheme(slide, DEFAULT_THEME)).toBe(theme)
+    expect(theme.name).toBe('custom-file')
+  })
+})
+
+describe('getSlideThemeSource', () => {
+  function createSlide(theme?: string): Slide {
+    return {
+      frontmatter: { title: 'Slide', theme, transition: 'instant' },
+      body: '',
+      sourcePath: '/slides/01-slide.md',
+      index: 0,
+    }
+  }
+
+  it('has no source for slides using the fallback theme', () => {
+    expect(getSlideThemeSource(createSlide())).toBeUndefined()
+  })
+
+  it('identifies built-in and package themes by name', () => {
+    expect(getSlideThemeSource(createSlide('retro'))).toBe('retro')
+    expect(getSlideThemeSource(createSlide('@term-deck/theme-retro'))).toBe('@term-deck/theme-retro')
+  })
+
+  it('identifies theme files by their resolved path', () => {
+    expect(getSlideThemeSource(createSlide('./themes/custom.yml'))).toBe('/slides/themes/custom.yml')
+    expect(getSlideThemeSource(createSlide('../custom.yaml'))).toBe('/custom.yaml')
+  })
+
+  it('is the same for slides sharing a theme file, unlike the theme object', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'term-deck-source-'))
+    await writeFile(join(dir, 'custom.yml'), customThemeYaml)
+    const first = { ...createSlide('./custom.yml'), sourcePath: join(dir, '01-slide.md') }
+    const second = { ...first, sourcePath: join(dir, '02-slide.md') }
+
+    const firstTheme = await resolveSlideTheme(first, DEFAULT_THEME)
+    const secondTheme = await resolveSlideTheme(second, DEFAULT_THEME)
+
+    expect(firstTheme === secondTheme).toBe(false)
+    expect(getSlideThemeSource(first)).toBe(getSlideThemeSource(second))
+    await rm(dir, { recursive: true, force: true })
+  })
+})
@@ -6,6 +6,7 @@ import {
   BUILTIN_COLORS,
   resolveColorToken,
   colorTokensToBlessedTags,
+  blessedTagsToAnsi,
   ThemeError,
   formatThemeError,
 } from '../theme'
@@ -931,6 +932,22 @@ animations:
   })
 })
 
+describe('blessedTagsToAnsi', () => {
+  it('converts hex colors to 24-bit ANSI colors', () => {
+    expect(blessedTagsToAnsi('{#00cc66-fg}Hi{/}')).toBe('\x1b[38;2;0;204;102mHi\x1b[0m')
+    expect(blessedTagsToAnsi('{#ff0000-bg}!{/}')).toBe('\x1b[48;2;255;0;0m!\x1b[0m')
+  })
+
+  it('restores open styles when a tag is closed', () => {
+    expect(blessedTagsToAnsi('{bold}a{underline}b{/underline}c{/bold}'))
+      .toBe('\x1b[1ma\x1b[4mb\x1b[0m\x1b[1mc\x1b[0m')
+  })
+
+  it('unescapes braces and removes unknown tags', () => {
+    expect(blessedTagsToAnsi('{open}x{close} {center}y{/center}')).toBe('{x} y')
+  })
+})
+
 describe('ThemeError', () => {
   describe('constructor', () => {
     it('creates error with message only', () => {
@@ -2,7 +2,9 @@
  * Content Processing Module
  *
  * Responsible for processing slide content through various transformations:
+ * - Markdown rendering, including tables (see markdown.ts)
  * - Mermaid diagram conversion
+ * - Code block boxing and syntax highlighting
  * - Color token resolution
  * - Text normalization
  *
@@ -12,101 +14,154 @@
 
 import type { Theme } from '../schemas/theme.js'
 import { colorTokensToBlessedTags } from './theme.js'
-import { processMermaidDiagrams } from './utils/mermaid.js'
+import { renderMarkdown } from './markdown.js'
+import { mermaidToAscii } from './utils/mermaid.js'
+import { highlightCode, isSupportedLanguage, resolveSyntaxColors } from './utils/syntax-highlight.js'
 
 /**
- * Pattern to match generic code blocks in markdown.
- * Captures optional language and the code content.
- *
- * Matches: ```language\n<content>``` or ```\n<content>```
- * Group 1: Optional language identifier
- * Group 2: The code content
+ * Options parsed from a code fence info string.
  */
-const CODE_BLOCK_PATTERN = /```(\w*)\n([\s\S]*?)```/g
+export interface CodeFenceInfo {
+  // Language identifier (empty if none was given)
+  language: string
+  // 1-based line numbers to highlight
+  highlightLines: Set<number>
+  // Whether to show a line number gutter
+  showLineNumbers: boolean
+}
 
 /**
- * Process generic code blocks in content.
+ * Parse a code fence info string.
+ *
+ * Supports a language identifier, a `{2,4-6}` line range list for
+ * highlighted lines, and the `showLineNumbers` flag in any order.
  *
- * Strips the ``` delimiters and formats code blocks with a simple
- * box border for visual distinction.
+ * @param info - The text following the opening ``` of a code fence
+ * @returns Parsed fence options
  *
- * @param content - The content containing code blocks
- * @returns Content with code blocks formatted
+ * @example
+ * parseCodeFenceInfo('ts {2,4-6} showLineNumbers')
+ * // { language: 'ts', highlightLines: Set {2, 4, 5, 6}, showLineNumbers: true }
  */
-export function processCodeBlocks(content: string): string {
-  return content.replace(CODE_BLOCK_PATTERN, (_match, _lang, code) => {
-    const lines = code.trimEnd().split('\n')
-    const maxLen = Math.max(...lines.map((l: string) => l.length), 20)
-
-    const top = '┌' + '─'.repeat(maxLen + 2) + '┐'
-    const bottom = '└' + '─'.repeat(maxLen + 2) + '┘'
+export function parseCodeFenceInfo(info: string): CodeFenceInfo {
+  const highlightLines = new Set<number>()
+
+  const rest = info.replace(/\{([\d\s,-]*)\}/g, (_match, ranges: string) => {
+    for (const range of ranges.split(',')) {
+      const [from, to = from] = range.split('-').map((n) => parseInt(n, 10))
+      if (Number.isNaN(from) || Number.isNaN(to)) continue
+
+      for (let line = Math.min(from, to); line <= Math.max(from, to); line++) {
+        highlightLines.add(line)
+      }
+    }
+    return ' '
+  })
 
-    const boxedLines = lines.map((line: string) => {
-      const padded = line.padEnd(maxLen)
-      return `│ ${padded} │`
-    })
+  const words = rest.trim().split(/\s+/).filter(Boolean)
+  const showLineNumbers = words.includes('showLineNumbers')
+  const language = words.find((word) => word !== 'showLineNumbers') ?? ''
 
-    return [top, ...boxedLines, bottom].join('\n')
-  })
+  return { language, highlightLines, showLineNumbers }
 }
 
 /**
- * Process markdown inline formatting.
+ * Render a fenced code block as a box.
+ *
+ * The language is shown as a label on the top border. With a theme,
+ * supported languages are syntax highlighted and highlighted lines get
+ * the theme's highlight background.
  *
- * Converts common markdown syntax to blessed tags:
- * - **bold** or __bold__ → {bold}bold{/bold}
- * - *italic* or _italic_ → {italic}italic{/italic} (rendered as dim in terminal)
- * - `code` → {inverse}code{/inverse}
- * - ~~strikethrough~~ → {strikethrough}text{/strikethrough}
+ * @param info - The fence info string (language, highlighted lines, options)
+ * @param code - The code between the fences
+ * @param theme - Theme providing syntax colors (omit for a plain box)
+ * @returns The boxed code block
  *
- * @param content - The content containing markdown formatting
- * @returns Content with markdown converted to blessed tags
+ * @example
+ * renderCodeBlock('ts {2} showLineNumbers', 'const a = 1\nconst b = 2', theme)
+ * // ┌─ ts ─────────────────────┐
+ * // │ 1  const a = 1           │
+ * // │ 2  const b = 2           │  (highlighted)
+ * // └──────────────────────────┘
  */
-export function processMarkdownInline(content: string): string {
-  let result = content
-
-  // Bold: **text** or __text__ (process before italic to avoid conflicts)
-  result = result.replace(/\*\*([^*]+)\*\*/g, '{bold}$1{/bold}')
-  result = result.replace(/__([^_]+)__/g, '{bold}$1{/bold}')
-
-  // Italic: *text* or _text_ (single asterisk/underscore, not inside words)
-  // Use negative lookbehind/ahead to avoid matching inside words
-  result = result.replace(/(?<![*\w])\*([^*]+)\*(?![*\w])/g, '{light-black-fg}$1{/light-black-fg}')
-  result = result.replace(/(?<![_\w])_([^_]+)_(?![_\w])/g, '{light-black-fg}$1{/light-black-fg}')
-
-  // Inline code: `code`
-  result = result.replace(/`([^`]+)`/g, '{inverse} $1 {/inverse}')
-
-  // Strikethrough: ~~text~~
-  result = result.replace(/~~([^~]+)~~/g, '{strikethrough}$1{/strikethrough}')
-
-  // Headers: # Header (convert to bold)
-  result = result.replace(/^(#{1,6})\s+(.+)$/gm, '{bold}$2{/bold}')
-
-  // Horizontal rules: --- or *** or ___
-  result = result.replace(/^[-*_]{3,}$/gm, '─'.repeat(40))
-
-  // Lists: - item or * item (preserve but clean up)
-  result = result.replace(/^[\s]*[-*+]\s+/gm, '  • ')
+export function renderCodeBlock(info: string, code: string, theme?: Theme): string {
+  const { language, highlightLines, showLineNumbers } = parseCodeFenceInfo(info)
+  const colors = theme ? resolveSyntaxColors(theme) : null
+
+  const lines = code.trimEnd().split('\n')
+  const taggedLines = theme && isSupportedLanguage(language)
+    ? highlightCode(code.trimEnd(), language, theme)
+    : lines
+
+  // Gutter: highlight marker column and line numbers
+  const hasMarkers = highlightLines.size > 0
+  const numberWidth = String(lines.length).length
+  const gutterWidth = (hasMarkers ? 1 : 0) + (showLineNumbers ? numberWidth + 2 : 0)
+
+  const maxLen = Math.max(
+    ...lines.map((l) => l.length + gutterWidth),
+    language.length + 2,
+    20
+  )
+
+  const top = language
+    ? '┌─ ' + language + ' ' + '─'.repeat(maxLen - language.length - 1) + '┐'
+    : '┌' + '─'.repeat(maxLen + 2) + '┐'
+  const bottom = '└' + '─'.repeat(maxLen + 2) + '┘'
+
+  const boxedLines = lines.map((line, i) => {
+    const lineNumber = i + 1
+    const highlighted = highlightLines.has(lineNumber)
+    let gutter = ''
+
+    if (hasMarkers) {
+      gutter += highlighted && colors
+        ? `{${colors.keyword}-fg}▌{/${colors.keyword}-fg}`
+        : highlighted ? '▌' : ' '
+    }
+
+    if (showLineNumbers) {
+      const number = String(lineNumber).padStart(numberWidth)
+      gutter += colors
+        ? `{${colors.lineNumber}-fg}${number}{/${colors.lineNumber}-fg}  `
+        : `${number}  `
+    }
+
+    // Pad by the visible length, tags take no space on screen
+    const padding = ' '.repeat(maxLen - line.length - gutterWidth)
+    const inner = ` ${gutter}${taggedLines[i] ?? line}${padding} `
+
+    return highlighted && colors
+      ? `│{${colors.highlight}-bg}${inner}{/${colors.highlight}-bg}│`
+      : `│${inner}│`
+  })
 
-  // Numbered lists: 1. item
-  result = result.replace(/^[\s]*(\d+)\.\s+/gm, '  $1. ')
+  return [top, ...boxedLines, bottom].join('\n')
+}
 
-  return result
+/**
+ * Options for processing slide content.
+ */
+export interface ContentOptions {
+  // Width available inside the slide window (used to fit tables)
+  width?: number
 }
 
 /**
  * Process slide body content.
  *
  * Applies the full content processing pipeline:
- * 1. Process mermaid diagrams (convert to ASCII)
+ * 1. Render markdown to blessed tags, converting mermaid diagrams to
+ *    ASCII and boxing (and syntax highlighting) other code blocks
  * 2. Apply color tokens (convert to blessed tags)
  *
- * The order is important: mermaid diagrams are processed first so that
- * any color tokens they might contain are then converted to blessed tags.
+ * The order is important: color tokens pass through the markdown
+ * renderer untouched and are converted last, so they work across
+ * markdown nodes and inside mermaid output.
  *
  * @param body - The slide body content to process
  * @param theme - The theme to use for color token resolution
+ * @param options - Layout options such as the available width
  * @returns Processed content with mermaid converted and color tokens applied
  *
  * @example
@@ -118,16 +173,17 @@ export function processMarkdownInline(content: string): string {
  */
 export async function processSlideContent(
   body: string,
-  theme: Theme
+  theme: Theme,
+  options: ContentOptions = {}
 ): Promise<string> {
-  // Process mermaid diagrams first
-  let processed = processMermaidDiagrams(body)
-
-  // Process generic code blocks (before inline markdown to preserve code content)
-  processed = processCodeBlocks(processed)
-
-  // Process markdown inline formatting
-  processed = processMarkdownInline(processed)
+  // Render markdown, with mermaid diagrams as ASCII and code blocks boxed
+  let processed = renderMarkdown(body, {
+    theme,
+    width: options.width,
+    renderCode: (info, code) => parseCodeFenceInfo(info).language === 'mermaid'
+      ? mermaidToAscii(code.trim())
+      : renderCodeBlock(info, code, theme),
+  })
 
   // Apply color tokens (last, so they override markdown styling if specified)
   processed = colorTokensToBlessedTags(processed, theme)
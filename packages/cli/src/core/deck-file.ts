@@ -0,0 +1,253 @@
+/**
+ * Single-file deck format.
+ *
+ * A deck file holds all slides of a presentation, each starting with its
+ * own frontmatter block. Slides are separated by `---` lines, so every
+ * slide is a frontmatter block followed by its body:
+ *
+ * ```markdown
+ * ---deck
+ * title: My Talk
+ * themePreset: neon
+ * ---
+ *
+ * ---
+ * title: Intro
+ * bigText: HELLO
+ * ---
+ * Welcome!
+ *
+ * ---
+ * title: Next
+ * ---
+ * More content
+ * ```
+ *
+ * An optional first block opened with `---deck` holds the deck settings
+ * (title, author, theme, settings, ...). Any other block is a slide, even
+ * one without a body. `---` lines inside fenced code blocks do not split
+ * slides.
+ */
+
+import { readFile } from 'fs/promises'
+import { parse as parseYaml, YAMLParseError } from 'yaml'
+import type { Slide } from '../schemas/slide.js'
+import { ValidationError } from '../schemas/validation.js'
+import { SlideParseError, buildSlide } from './slide.js'
+
+/**
+ * Section of a deck file between two separator lines.
+ */
+interface DeckFileChunk {
+  text: string
+  // 1-based line number of the chunk's first line
+  line: number
+  // Whether the chunk was opened by the deck settings separator
+  settings?: boolean
+}
+
+/**
+ * Deck settings block (opened with `---deck`) of a deck file.
+ */
+export interface DeckFileSettings {
+  // Raw (unvalidated) settings data
+  data: Record<string, unknown>
+  // 1-based line number of the block's opening separator
+  line: number
+}
+
+/**
+ * Result of parsing a single-file deck.
+ */
+export interface ParsedDeckFile {
+  settings?: DeckFileSettings
+  slides: Slide[]
+  // Errors of slides left out (only when collecting errors)
+  errors: SlideParseError[]
+}
+
+/**
+ * Options for parsing a single-file deck.
+ */
+export interface ParseDeckFileOptions {
+  // Collect slide errors instead of throwing on the first one
+  collectErrors?: boolean
+}
+
+const SEPARATOR_PATTERN = /^---\s*$/
+const SETTINGS_SEPARATOR_PATTERN = /^---deck\s*$/
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})/
+
+/**
+ * Split deck file content at separator lines outside code fences.
+ */
+function splitChunks(content: string): DeckFileChunk[] {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n')
+  const chunks: DeckFileChunk[] = []
+  let current: string[] = []
+  let currentLine = 1
+  let fence: string | null = null
+  let isSettings = false
+
+  lines.forEach((line, i) => {
+    const fenceMatch = FENCE_PATTERN.exec(line)
+    if (fenceMatch) {
+      const marker = fenceMatch[1]
+      if (!fence) fence = marker
+      else if (marker[0] === fence[0] && marker.length >= fence.length) fence = null
+    }
+
+    const opensSettings = SETTINGS_SEPARATOR_PATTERN.test(line)
+
+    if (!fence && (opensSettings || SEPARATOR_PATTERN.test(line))) {
+      chunks.push({ text: current.join('\n'), line: currentLine, settings: isSettings })
+      current = []
+      currentLine = i + 2
+      isSettings = opensSettings
+    } else {
+      current.push(line)
+    }
+  })
+
+  chunks.push({ text: current.join('\n'), line: currentLine, settings: isSettings })
+  return chunks
+}
+
+/**
+ * Parse a frontmatter chunk as a YAML mapping.
+ *
+ * @throws {SlideParseError} With the line of the YAML error
+ */
+function parseFrontmatter(chunk: DeckFileChunk, filePath: string): Record<string, unknown> {
+  let data: unknown
+
+  try {
+    data = parseYaml(chunk.text)
+  } catch (error) {
+    if (error instanceof YAMLParseError) {
+      const offset = error.linePos?.[0]?.line ?? 1
+      const message = error.message.split('\n')[0]
+      throw new SlideParseError(`Invalid frontmatter: ${message}`, filePath, error, chunk.line + offset - 1)
+    }
+    throw error
+  }
+
+  if (data === null || data === undefined) return {}
+
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new SlideParseError('Frontmatter must be a YAML mapping', filePath, undefined, chunk.line)
+  }
+
+  return data as Record<string, unknown>
+}
+
+/**
+ * Parse the content of a single-file deck.
+ *
+ * With `collectErrors`, invalid slides and settings are left out and
+ * their errors returned instead. A file that does not start with a
+ * frontmatter block is always an error.
+ *
+ * @param content - The deck file content
+ * @param filePath - Path of the deck file (used for errors and slide sources)
+ * @param options - Parse options
+ * @returns Deck settings (if present), validated slides and collected errors
+ * @throws {SlideParseError} If the file is malformed or a slide is invalid,
+ *   with the line number within the deck file
+ */
+export function parseDeckFileContent(
+  content: string,
+  filePath: string,
+  options: ParseDeckFileOptions = {}
+): ParsedDeckFile {
+  const [preamble, ...chunks] = splitChunks(content)
+
+  if (preamble.text.trim()) {
+    throw new SlideParseError(
+      'Deck file must start with a frontmatter block (---)',
+      filePath,
+      undefined,
+      preamble.line
+    )
+  }
+
+  // A trailing separator leaves an empty chunk behind
+  if (chunks.length > 0 && !chunks[chunks.length - 1].text.trim() && chunks.length % 2 === 1) {
+    chunks.pop()
+  }
+
+  let settings: DeckFileSettings | undefined
+  const slides: Slide[] = []
+  const errors: SlideParseError[] = []
+
+  // Record an error, or rethrow it when not collecting errors
+  const fail = (error: unknown) => {
+    if (options.collectErrors && error instanceof SlideParseError) {
+      errors.push(error)
+    } else {
+      throw error
+    }
+  }
+
+  // Deck settings: first frontmatter opened with ---deck
+  if (chunks[0]?.settings) {
+    const [block, rest] = chunks.splice(0, 2)
+    if (rest?.text.trim()) {
+      throw new SlideParseError(
+        'Deck settings (---deck) must be followed by a slide frontmatter block (---)',
+        filePath,
+        undefined,
+        rest.line
+      )
+    }
+    try {
+      settings = { data: parseFrontmatter(block, filePath), line: block.line - 1 }
+    } catch (error) {
+      fail(error)
+    }
+  }
+
+  const misplaced = chunks.find((chunk) => chunk.settings)
+  if (misplaced) {
+    throw new SlideParseError(
+      'Deck settings (---deck) must be the first block of the deck file',
+      filePath,
+      undefined,
+      misplaced.line - 1
+    )
+  }
+
+  for (let i = 0; i < chunks.length; i += 2) {
+    const frontmatter = chunks[i]
+    const body = chunks[i + 1]?.text ?? ''
+    // Slides start at their opening separator
+    const line = frontmatter.line - 1
+
+    try {
+      const data = parseFrontmatter(frontmatter, filePath)
+      slides.push(buildSlide(data, body, filePath, slides.length, line))
+    } catch (error) {
+      fail(error instanceof ValidationError
+        ? new SlideParseError(error.message, filePath, undefined, line)
+        : error)
+    }
+  }
+
+  return { settings, slides, errors }
+}
+
+/**
+ * Read and parse a single-file deck.
+ *
+ * @param filePath - Path to the deck file (e.g., deck.md)
+ * @param options - Parse options
+ * @returns Deck settings (if present), validated slides and collected errors
+ * @throws {SlideParseError} If the file is malformed or a slide is invalid
+ */
+export async function parseDeckFile(
+  filePath: string,
+  options: ParseDeckFileOptions = {}
+): Promise<ParsedDeckFile> {
+  const content = await readFile(filePath, 'utf-8')
+  return parseDeckFileContent(content, filePath, options)
+}
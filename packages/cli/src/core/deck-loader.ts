@@ -1,13 +1,17 @@
-import { join } from 'path'
+import { basename, dirname, join, relative, resolve, sep } from 'path'
 import { pathToFileURL } from 'url'
 import fg from 'fast-glob'
-import { access } from 'fs/promises'
+import { access, readFile, stat } from 'fs/promises'
 import type { DeckConfig } from '../schemas/config.js'
 import type { Slide } from '../schemas/slide.js'
 import { DeckConfigSchema } from '../schemas/config.js'
-import { safeParse } from '../schemas/validation.js'
+import { ValidationError, safeParse } from '../schemas/validation.js'
 import { DEFAULT_THEME } from '../schemas/theme.js'
-import { parseSlide } from './slide.js'
+import { SlideParseError, parseSlide } from './slide.js'
+import { parseDeckFile } from './deck-file.js'
+import type { DeckFileSettings } from './deck-file.js'
+import { resolveSlideTheme, resolveThemeReference } from './theme-resolver.js'
+import { getThemePreset } from '../themes/index.js'
 
 /**
  * Deck structure containing all slides and configuration.
@@ -17,6 +21,8 @@ export interface Deck {
   slides: Slide[]
   config: DeckConfig
   basePath: string
+  // Slide errors, when loaded with `collectErrors`
+  errors?: SlideParseError[]
 }
 
 /**
@@ -27,43 +33,167 @@ export interface SlideFile {
   path: string
   name: string
   index: number
+  // Section title for slides in a section subdirectory
+  section?: string
 }
 
 /**
- * Find and sort slide files in a directory.
+ * Options for loading a deck from disk.
+ */
+export interface LoadDeckOptions {
+  /**
+   * Bypass the ES module cache when importing deck.config.
+   * Needed when the same deck is loaded repeatedly (e.g. in watch mode).
+   */
+  bustCache?: boolean
+  /**
+   * Collect slide errors instead of throwing on the first one.
+   * Slides that fail to parse are left out of the deck, and all errors
+   * are returned in `Deck.errors` (e.g. for linting).
+   */
+  collectErrors?: boolean
+}
+
+/**
+ * Name of the optional slide order manifest in a deck directory.
+ */
+export const SLIDE_ORDER_FILE = 'deck.order'
+
+/**
+ * Turn a section directory name into a display title.
  *
- * Finds all markdown files (*.md), excludes non-slide files like
- * README.md and files starting with underscore, and sorts them
- * numerically by filename (e.g., 01-intro.md, 02-content.md).
+ * Strips the numeric ordering prefix and replaces dashes and
+ * underscores with spaces.
  *
- * @param dir - Directory to search for slide files
- * @returns Array of SlideFile objects sorted by filename
+ * @param dirName - Section directory name (e.g., 02-system_design)
+ * @returns Section title (e.g., System design)
+ *
+ * @example
+ * formatSectionTitle('02-architecture') // 'Architecture'
  */
-export async function findSlideFiles(dir: string): Promise<SlideFile[]> {
-  const pattern = join(dir, '*.md')
-  const foundFiles = await fg(pattern, { onlyFiles: true })
+export function formatSectionTitle(dirName: string): string {
+  const title = dirName
+    .replace(/^\d+[-_.\s]*/, '')
+    .replace(/[-_]+/g, ' ')
+    .trim()
 
-  const files: SlideFile[] = []
+  if (!title) return dirName
 
-  for (const filePath of foundFiles) {
-    const name = filePath.split('/').pop() || ''
+  return title.charAt(0).toUpperCase() + title.slice(1)
+}
 
-    // Skip non-slide files
-    if (name === 'README.md' || name.startsWith('_')) {
-      continue
+/**
+ * Get the section title for a slide file path relative to the deck directory.
+ * Nested section directories are joined with " / ".
+ */
+function getSection(relativePath: string): string | undefined {
+  const dirs = relativePath.split(sep).slice(0, -1)
+  if (dirs.length === 0 || dirs[0] === '..') return undefined
+  return dirs.map(formatSectionTitle).join(' / ')
+}
+
+/**
+ * Compare slide paths segment by segment, sorting each numerically
+ * (01-intro.md, 02-architecture/01-overview.md, 03-end.md, etc.)
+ */
+function compareSlidePaths(a: string, b: string): number {
+  const aParts = a.split(sep)
+  const bParts = b.split(sep)
+
+  for (let i = 0; i < Math.min(aParts.length, bParts.length); i++) {
+    if (aParts[i] !== bParts[i]) {
+      return aParts[i].localeCompare(bParts[i], undefined, { numeric: true })
     }
+  }
 
-    files.push({
-      path: filePath,
-      name,
-      index: 0, // Will be set after sorting
+  return aParts.length - bParts.length
+}
+
+/**
+ * Create slide file info for a file inside a deck directory.
+ */
+function toSlideFile(dir: string, filePath: string): SlideFile {
+  return {
+    path: filePath,
+    name: basename(filePath),
+    index: 0, // Will be set after ordering
+    section: getSection(relative(dir, filePath)),
+  }
+}
+
+/**
+ * Find all slide files below a directory, sorted by path.
+ * Subdirectories starting with underscore are skipped.
+ */
+async function discoverSlideFiles(dir: string, searchDir: string = dir): Promise<SlideFile[]> {
+  const foundFiles = await fg('**/*.md', {
+    cwd: searchDir,
+    onlyFiles: true,
+    ignore: ['**/node_modules/**', '**/_*/**'],
+  })
+
+  return foundFiles
+    .map((file) => join(searchDir, file))
+    .filter((filePath) => {
+      const name = basename(filePath)
+
+      // Skip non-slide files
+      return name !== 'README.md' && !name.startsWith('_')
     })
+    .sort((a, b) => compareSlidePaths(relative(dir, a), relative(dir, b)))
+    .map((filePath) => toSlideFile(dir, filePath))
+}
+
+/**
+ * Resolve the entries of a slide order manifest to slide files.
+ * Directory entries include all slides in that directory.
+ *
+ * @throws {DeckLoadError} If an entry does not exist
+ */
+async function resolveSlideOrder(dir: string, order: string[]): Promise<SlideFile[]> {
+  const files: SlideFile[] = []
+
+  for (const entry of order) {
+    const entryPath = resolve(dir, entry)
+    const stats = await stat(entryPath).catch(() => null)
+
+    if (!stats) {
+      throw new DeckLoadError(`Slide order entry not found: ${entry}`, dir)
+    }
+
+    if (stats.isDirectory()) {
+      files.push(...await discoverSlideFiles(dir, entryPath))
+    } else {
+      files.push(toSlideFile(dir, entryPath))
+    }
   }
 
-  // Sort by filename numerically (01-intro.md, 02-problem.md, etc.)
-  files.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+  return files
+}
 
-  // Assign indices after sorting
+/**
+ * Find and sort slide files in a directory.
+ *
+ * Finds all markdown files (*.md), including those in section
+ * subdirectories (e.g., 02-architecture/01-overview.md), excludes
+ * non-slide files like README.md and files or directories starting
+ * with underscore, and sorts them numerically by path
+ * (e.g., 01-intro.md, 02-content.md).
+ *
+ * If a slide order is given, only the listed files and directories are
+ * included, in the listed order.
+ *
+ * @param dir - Directory to search for slide files
+ * @param order - Optional slide order (paths relative to dir)
+ * @returns Array of SlideFile objects in presentation order
+ * @throws {DeckLoadError} If a slide order entry does not exist
+ */
+export async function findSlideFiles(dir: string, order?: string[]): Promise<SlideFile[]> {
+  const files = order
+    ? await resolveSlideOrder(dir, order)
+    : await discoverSlideFiles(dir)
+
+  // Assign indices after ordering
   files.forEach((file, i) => {
     file.index = i
   })
@@ -71,6 +201,35 @@ export async function findSlideFiles(dir: string): Promise<SlideFile[]> {
   return files
 }
 
+/**
+ * Load the slide order for a deck directory.
+ *
+ * Uses the `slides` array from the deck config if present, otherwise
+ * reads a deck.order file (one path per line, `#` starts a comment).
+ *
+ * @param dir - Deck directory
+ * @param config - Loaded deck config
+ * @returns Slide order entries, or undefined if the deck has no order
+ */
+export async function loadSlideOrder(
+  dir: string,
+  config: DeckConfig
+): Promise<string[] | undefined> {
+  if (config.slides) return config.slides
+
+  let content: string
+  try {
+    content = await readFile(join(dir, SLIDE_ORDER_FILE), 'utf-8')
+  } catch {
+    return undefined
+  }
+
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*$/, '').trim())
+    .filter(Boolean)
+}
+
 /**
  * Load deck configuration from deck.config.js or deck.config.ts in slides directory.
  *
@@ -79,10 +238,14 @@ export async function findSlideFiles(dir: string): Promise<SlideFile[]> {
  * If not found, returns a default config with the DEFAULT_THEME.
  *
  * @param slidesDir - Directory to search for deck config file
+ * @param options - Load options (cache busting for reloads)
  * @returns Validated DeckConfig object
  * @throws {ValidationError} If config file exists but fails validation
  */
-export async function loadDeckConfig(slidesDir: string): Promise<DeckConfig> {
+export async function loadDeckConfig(
+  slidesDir: string,
+  options: LoadDeckOptions = {}
+): Promise<DeckConfig> {
   // Try .js first (preferred for Node.js compatibility), then .ts (for dev with tsx)
   const configPaths = [
     { path: join(slidesDir, 'deck.config.js'), name: 'deck.config.js' },
@@ -117,10 +280,11 @@ export async function loadDeckConfig(slidesDir: string): Promise<DeckConfig> {
     // Convert file path to file:// URL for ES module imports
     const fileUrl = pathToFileURL(configPath).href
 
-    // Add cache buster to prevent module caching in tests only
-    // In production, we want normal module caching behavior
+    // Add cache buster to prevent module caching in tests and on reloads
+    // Otherwise, we want normal module caching behavior
     const isTest = process.env.NODE_ENV === 'test' || process.env.VITEST === 'true'
-    const cacheBuster = isTest ? `?t=${Date.now()}-${Math.random()}` : ''
+    const shouldBust = isTest || options.bustCache
+    const cacheBuster = shouldBust ? `?t=${Date.now()}-${Math.random()}` : ''
     const configModule = await import(fileUrl + cacheBuster)
 
     if (!configModule.default) {
@@ -130,16 +294,11 @@ export async function loadDeckConfig(slidesDir: string): Promise<DeckConfig> {
     // Validate config against schema
     const config = safeParse(DeckConfigSchema, configModule.default, configName)
 
-    // Resolve theme from preset or use DEFAULT_THEME
+    // Resolve theme from the preset registry or use DEFAULT_THEME
     if (!config.theme) {
-      // Map of available theme presets
-      const themePresets: Record<string, typeof DEFAULT_THEME> = {
-        matrix: DEFAULT_THEME,
-      }
-
       // Use themePreset if specified, otherwise default to 'matrix'
       const presetName = config.themePreset || 'matrix'
-      config.theme = themePresets[presetName] || DEFAULT_THEME
+      config.theme = getThemePreset(presetName) ?? DEFAULT_THEME
     }
 
     return config
@@ -153,33 +312,168 @@ export async function loadDeckConfig(slidesDir: string): Promise<DeckConfig> {
 }
 
 /**
- * Load a complete deck from a directory.
+ * Check whether a deck path points to a single deck file.
+ *
+ * @param deckPath - Slides directory or deck file path
+ * @returns true if the path is an existing file
+ */
+export async function isDeckFile(deckPath: string): Promise<boolean> {
+  try {
+    return (await stat(deckPath)).isFile()
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Apply the settings block of a single-file deck on top of a config.
+ *
+ * Settings override values from a deck.config next to the deck file.
+ * `theme` may be a theme reference string (built-in name, YAML file or
+ * npm package) or a full theme object.
+ *
+ * @param config - Base config (from deck.config or defaults)
+ * @param settings - Settings block from the deck file
+ * @param filePath - Path to the deck file
+ * @returns Merged DeckConfig
+ * @throws {SlideParseError} If the settings fail validation
+ */
+async function applyDeckFileSettings(
+  config: DeckConfig,
+  settings: DeckFileSettings,
+  filePath: string
+): Promise<DeckConfig> {
+  const { theme: themeReference, ...data } = settings.data
+  const themeData = typeof themeReference === 'string' ? {} : { theme: themeReference }
+
+  try {
+    const parsed = safeParse(DeckConfigSchema, { ...data, ...themeData }, `deck settings in ${filePath}`)
+
+    let theme = config.theme
+    if (typeof themeReference === 'string') {
+      theme = await resolveThemeReference(themeReference, dirname(filePath))
+    } else if (parsed.theme) {
+      theme = parsed.theme
+    } else if (parsed.themePreset) {
+      theme = getThemePreset(parsed.themePreset) ?? theme
+    }
+
+    return { ...config, ...parsed, theme }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw new SlideParseError(error.message, filePath, undefined, settings.line)
+    }
+    throw error
+  }
+}
+
+/**
+ * Load a complete deck from a directory or a single deck file.
  *
- * Loads the deck configuration, finds all slide files, and parses
- * them in parallel. Returns a Deck object containing all slides,
- * the configuration, and the base path.
+ * For a directory, loads the deck configuration, finds all slide files
+ * (including section subdirectories, in the order given by `slides` or
+ * deck.order if present), and parses them in parallel. For a file (e.g. deck.md), parses all
+ * slides from the file and applies its settings block on top of any
+ * deck.config in the same directory. Returns a Deck object containing
+ * all slides, the configuration, and the base path.
  *
- * @param slidesDir - Directory containing slide files and optional deck.config.ts
+ * @param deckPath - Directory containing slide files and optional deck.config.ts,
+ *   or path to a single-file deck
+ * @param options - Load options (config cache busting, error collection)
  * @returns Complete Deck object with slides, config, and basePath
+ *   (and the collected slide errors with `collectErrors`)
  * @throws {ValidationError} If any slide fails to parse or validate
+ * @throws {SlideParseError} If a single-file deck is malformed or invalid
+ * @throws {DeckLoadError} If a slide order entry does not exist
+ * @throws {ThemeError} If a slide references a theme that cannot be loaded
  */
-export async function loadDeck(slidesDir: string): Promise<Deck> {
-  // Load config first
-  const config = await loadDeckConfig(slidesDir)
+export async function loadDeck(
+  deckPath: string,
+  options: LoadDeckOptions = {}
+): Promise<Deck> {
+  let config: DeckConfig
+  let slides: Slide[] = []
+  const errors: SlideParseError[] = []
+
+  // Turn a slide error into a result, or rethrow it when not collecting errors
+  const fail = (error: unknown, filePath: string, line?: number): SlideParseError => {
+    if (!options.collectErrors) throw error
+    return toSlideParseError(error, filePath, line)
+  }
+
+  if (await isDeckFile(deckPath)) {
+    const deckFile = await parseDeckFile(deckPath, { collectErrors: options.collectErrors })
+    errors.push(...deckFile.errors)
+
+    config = await loadDeckConfig(dirname(deckPath), options)
+    if (deckFile.settings) {
+      try {
+        config = await applyDeckFileSettings(config, deckFile.settings, deckPath)
+      } catch (error) {
+        errors.push(fail(error, deckPath, deckFile.settings.line))
+      }
+    }
+    slides = deckFile.slides
+  } else {
+    // Load config first
+    config = await loadDeckConfig(deckPath, options)
+
+    // Find all markdown files, in manifest order if the deck has one
+    const order = await loadSlideOrder(deckPath, config)
+    const slideFiles = await findSlideFiles(deckPath, order)
 
-  // Find all markdown files
-  const slideFiles = await findSlideFiles(slidesDir)
+    // Parse all slides in parallel
+    const parsed = await Promise.all(
+      slideFiles.map(async (file) => {
+        try {
+          const slide = await parseSlide(file.path, file.index)
+          return file.section ? { ...slide, section: file.section } : slide
+        } catch (error) {
+          return fail(error, file.path)
+        }
+      })
+    )
 
-  // Parse all slides in parallel
-  const slides = await Promise.all(
-    slideFiles.map((file) => parseSlide(file.path, file.index))
+    for (const result of parsed) {
+      if (result instanceof SlideParseError) errors.push(result)
+      else slides.push(result)
+    }
+  }
+
+  // Resolve per-slide theme overrides up front so broken references
+  // fail at load time instead of in the middle of a presentation, and
+  // rendering reuses the resolved themes
+  const themeErrors = await Promise.all(
+    slides.map((slide) =>
+      resolveSlideTheme(slide, config.theme).then(
+        () => null,
+        (error) => fail(error, slide.sourcePath, slide.sourceLine)
+      )
+    )
   )
+  errors.push(...themeErrors.filter((error) => error !== null))
 
-  return {
+  const deck: Deck = {
     slides,
     config,
-    basePath: slidesDir,
+    basePath: deckPath,
+  }
+
+  if (options.collectErrors) {
+    deck.errors = errors
   }
+
+  return deck
+}
+
+/**
+ * Wrap an error thrown while loading a slide so it carries the slide location.
+ */
+function toSlideParseError(error: unknown, filePath: string, line?: number): SlideParseError {
+  if (error instanceof SlideParseError) return error
+
+  const message = error instanceof Error ? error.message : String(error)
+  return new SlideParseError(message, filePath, undefined, line)
 }
 
 /**
@@ -0,0 +1,42 @@
+/**
+ * Durations in frontmatter and deck settings.
+ *
+ * Used for slide timing (auto-advance), the talk timer and the linter.
+ */
+
+const DURATION_PATTERN = /^(\d+(?:\.\d+)?)\s*(s|m|h)?$/
+const CLOCK_PATTERN = /^(\d+):([0-5]\d)$/
+const UNIT_MS = { s: 1000, m: 60_000, h: 3_600_000 }
+
+/**
+ * Parse a duration
+ *
+ * Numbers are minutes. Strings can be minutes ('5'), have a unit
+ * ('90s', '2m', '1h') or be minutes and seconds ('1:30').
+ *
+ * @param value - The duration (e.g. meta.duration of a slide)
+ * @returns Duration in ms, or undefined if the value is not a valid duration
+ *
+ * @example
+ * parseDuration(2)      // 120000
+ * parseDuration('90s')  // 90000
+ * parseDuration('1:30') // 90000
+ */
+export function parseDuration(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value * UNIT_MS.m : undefined
+  }
+
+  if (typeof value !== 'string') return undefined
+
+  const clock = CLOCK_PATTERN.exec(value.trim())
+  if (clock) {
+    return parseInt(clock[1], 10) * UNIT_MS.m + parseInt(clock[2], 10) * UNIT_MS.s
+  }
+
+  const match = DURATION_PATTERN.exec(value.trim())
+  if (!match) return undefined
+
+  const unit = (match[2] ?? 'm') as keyof typeof UNIT_MS
+  return parseFloat(match[1]) * UNIT_MS[unit]
+}
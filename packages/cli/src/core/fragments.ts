@@ -0,0 +1,123 @@
+/**
+ * Slide fragments.
+ *
+ * Fragments let a slide reveal its content step by step. A slide body is
+ * split into fragments at `<!-- pause -->` lines, and with
+ * `fragments: true` in the frontmatter every top-level list item starts
+ * a new fragment:
+ *
+ * ```markdown
+ * Always visible
+ *
+ * <!-- pause -->
+ * Shown on the next step
+ * ```
+ *
+ * Markers stay in the body while it is processed, so markdown constructs
+ * such as ordered lists keep working across fragments. The processed
+ * content is split at the rendered marker lines afterwards.
+ */
+
+/**
+ * Marker line that starts a new fragment.
+ */
+export const PAUSE_MARKER = '<!-- pause -->'
+
+const PAUSE_PATTERN = /^\s*<!--\s*pause\s*-->\s*$/
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})/
+const TOP_LEVEL_LIST_ITEM_PATTERN = /^ ?(?:[-*+]|\d{1,9}[.)])(?:\s|$)/
+const THEMATIC_BREAK_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/
+
+/**
+ * Map the lines of a markdown body, skipping lines inside fenced code blocks.
+ */
+function mapLinesOutsideFences(
+  body: string,
+  fn: (line: string) => string[]
+): string[] {
+  const result: string[] = []
+  let fence: string | null = null
+
+  for (const line of body.split('\n')) {
+    const fenceMatch = FENCE_PATTERN.exec(line)
+
+    if (fenceMatch) {
+      const marker = fenceMatch[1]
+      if (!fence) fence = marker
+      else if (marker[0] === fence[0] && marker.length >= fence.length) fence = null
+      result.push(line)
+    } else {
+      result.push(...(fence ? [line] : fn(line)))
+    }
+  }
+
+  return result
+}
+
+/**
+ * Add fragment markers to a slide body.
+ *
+ * Inserts a pause marker before every top-level list item when list
+ * fragments are enabled. Lines inside code fences are left untouched.
+ *
+ * @param body - The slide body
+ * @param listItems - Whether every top-level list item is a fragment
+ * @returns Body with fragment markers
+ *
+ * @example
+ * prepareFragments('Intro\n- a\n- b', true)
+ * // 'Intro\n<!-- pause -->\n- a\n<!-- pause -->\n- b'
+ */
+export function prepareFragments(body: string, listItems: boolean = false): string {
+  if (!listItems) return body
+
+  return mapLinesOutsideFences(body, (line) =>
+    TOP_LEVEL_LIST_ITEM_PATTERN.test(line) && !THEMATIC_BREAK_PATTERN.test(line)
+      ? [PAUSE_MARKER, line]
+      : [line]
+  ).join('\n')
+}
+
+/**
+ * Count the fragments of a slide body.
+ *
+ * @param body - The slide body
+ * @param listItems - Whether every top-level list item is a fragment
+ * @returns Number of fragments (1 for a slide without markers)
+ */
+export function countFragments(body: string, listItems: boolean = false): number {
+  let markers = 0
+
+  mapLinesOutsideFences(prepareFragments(body, listItems), (line) => {
+    if (PAUSE_PATTERN.test(line)) markers++
+    return [line]
+  })
+
+  return markers + 1
+}
+
+/**
+ * Split processed slide content into fragments.
+ *
+ * Splits at the rendered pause marker lines, which are removed. Markers
+ * may be indented (e.g. inside list items).
+ *
+ * @param content - Processed content (blessed tags)
+ * @returns Content of each fragment
+ *
+ * @example
+ * splitFragments('a\n<!-- pause -->\nb') // ['a', 'b']
+ */
+export function splitFragments(content: string): string[] {
+  const fragments: string[][] = [[]]
+
+  for (const line of content.split('\n')) {
+    if (PAUSE_PATTERN.test(line.replace(/\{[^{}]*\}/g, ''))) {
+      fragments.push([])
+    } else {
+      fragments[fragments.length - 1].push(line)
+    }
+  }
+
+  return fragments.map((lines) => lines.join('\n'))
+}
@@ -0,0 +1,921 @@
+/**
+ * Markdown Module
+ *
+ * Parses slide markdown into a small AST and renders it as blessed tags.
+ *
+ * Blocks: paragraphs, headings, thematic breaks, fenced code, blockquotes,
+ * (nested) lists and pipe tables. Inlines: emphasis, strong, strikethrough,
+ * code spans, links, autolinks and backslash escapes.
+ *
+ * Slides are laid out line by line, so line breaks and blank lines are
+ * preserved as written. Color tokens and blessed tags (e.g. {GREEN}, {/})
+ * are passed through untouched and may span several nodes.
+ */
+
+import type { Theme } from '../schemas/theme.js'
+
+// ============================================================================
+// AST
+// ============================================================================
+
+/**
+ * Inline markdown node.
+ */
+export type InlineNode =
+  | { type: 'text'; value: string }
+  // Color token or blessed tag, passed through as written
+  | { type: 'tag'; value: string }
+  | { type: 'code'; value: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'emphasis'; children: InlineNode[] }
+  | { type: 'strikethrough'; children: InlineNode[] }
+  | { type: 'link'; url: string; children: InlineNode[] }
+
+/**
+ * Item of a list node.
+ */
+export interface ListItem {
+  children: BlockNode[]
+}
+
+/**
+ * Column alignment of a table, from the `:---:` delimiter row.
+ */
+export type TableAlign = 'left' | 'center' | 'right'
+
+/**
+ * Block-level markdown node.
+ */
+export type BlockNode =
+  // Blank line, kept verbatim to preserve slide spacing
+  | { type: 'blank'; raw: string }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'thematicBreak' }
+  | { type: 'code'; info: string; code: string }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: ListItem[] }
+  | { type: 'table'; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+
+// ============================================================================
+// Block parsing
+// ============================================================================
+
+const FENCE_PATTERN = /^(\s{0,3})(`{3,}|~{3,})(.*)$/
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/
+const THEMATIC_BREAK_PATTERN = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/
+const BLOCKQUOTE_PATTERN = /^\s{0,3}>\s?(.*)$/
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])(?:(\s+)(.*))?$/
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/
+
+/**
+ * Get the width of a line's leading whitespace.
+ */
+function indentOf(line: string): number {
+  return /^\s*/.exec(line)![0].length
+}
+
+/**
+ * Remove up to `count` characters of leading whitespace.
+ */
+function dedent(line: string, count: number): string {
+  return line.slice(Math.min(indentOf(line), count))
+}
+
+/**
+ * Check whether a line starts a block that interrupts a paragraph.
+ */
+function startsBlock(line: string): boolean {
+  return FENCE_PATTERN.test(line)
+    || HEADING_PATTERN.test(line)
+    || THEMATIC_BREAK_PATTERN.test(line)
+    || BLOCKQUOTE_PATTERN.test(line)
+    || LIST_ITEM_PATTERN.test(line)
+}
+
+/**
+ * Check whether a list marker is ordered (e.g. '1.' or '2)').
+ */
+function isOrderedMarker(marker: string): boolean {
+  return /^\d/.test(marker)
+}
+
+/**
+ * Parse a fenced code block starting at `start`.
+ *
+ * An unterminated fence runs to the end of the content.
+ */
+function parseFence(lines: string[], start: number): [BlockNode, number] {
+  const [, indent, marker, info] = FENCE_PATTERN.exec(lines[start])!
+  const closing = new RegExp(`^\\s{0,3}${marker[0]}{${marker.length},}\\s*$`)
+  const code: string[] = []
+
+  let i = start + 1
+  while (i < lines.length && !closing.test(lines[i])) {
+    code.push(dedent(lines[i], indent.length))
+    i++
+  }
+
+  return [{ type: 'code', info: info.trim(), code: code.join('\n') }, i + 1]
+}
+
+/**
+ * Split a table row into cell sources.
+ *
+ * Leading and trailing pipes are optional; `\|` is a literal pipe.
+ */
+function splitTableRow(line: string): string[] {
+  const cells: string[] = []
+  let cell = ''
+  const row = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '')
+
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|'
+      i++
+    } else if (row[i] === '|') {
+      cells.push(cell.trim())
+      cell = ''
+    } else {
+      cell += row[i]
+    }
+  }
+  cells.push(cell.trim())
+
+  return cells
+}
+
+/**
+ * Check whether a table (header row plus delimiter row) starts at `start`.
+ */
+function isTableStart(lines: string[], start: number): boolean {
+  const header = lines[start]
+  const delimiter = lines[start + 1]
+
+  return header.includes('|')
+    && delimiter !== undefined
+    && delimiter.includes('-')
+    && TABLE_DELIMITER_PATTERN.test(delimiter)
+    && (delimiter.includes('|') || splitTableRow(header).length === 1)
+    && splitTableRow(header).length === splitTableRow(delimiter).length
+}
+
+/**
+ * Parse a pipe table starting at `start`.
+ *
+ * Body rows continue until a blank line or a line without a pipe. Rows
+ * are padded or cut to the header's column count.
+ */
+function parseTable(lines: string[], start: number): [BlockNode, number] {
+  const header = splitTableRow(lines[start])
+
+  const align = splitTableRow(lines[start + 1]).map((cell): TableAlign => {
+    if (cell.startsWith(':') && cell.endsWith(':')) return 'center'
+    if (cell.endsWith(':')) return 'right'
+    return 'left'
+  })
+
+  const rows: InlineNode[][][] = []
+  let i = start + 2
+  while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+    const cells = splitTableRow(lines[i])
+    rows.push(header.map((_, column) => parseInline(cells[column] ?? '')))
+    i++
+  }
+
+  return [{ type: 'table', align, header: header.map((cell) => parseInline(cell)), rows }, i]
+}
+
+/**
+ * Parse a list starting at `start`.
+ *
+ * Lines indented past the item marker belong to the item and are parsed
+ * as its child blocks, which is how nested lists are formed. A line at
+ * the marker's indentation that is not a marker of the same kind ends
+ * the list.
+ */
+function parseList(lines: string[], start: number): [BlockNode, number] {
+  const first = LIST_ITEM_PATTERN.exec(lines[start])!
+  const ordered = isOrderedMarker(first[2])
+  const markerIndent = first[1].length
+
+  const items: ListItem[] = []
+  let itemLines: string[] = []
+  let contentIndent = 0
+  let i = start
+
+  // A marker line at this indentation or less starts a sibling item
+  const isSibling = (line: string) => {
+    const match = LIST_ITEM_PATTERN.exec(line)
+    return !!match
+      && match[1].length < markerIndent + 2
+      && isOrderedMarker(match[2]) === ordered
+      && !THEMATIC_BREAK_PATTERN.test(line)
+  }
+
+  const belongsToItem = (line: string) => {
+    const indent = indentOf(line)
+    return LIST_ITEM_PATTERN.test(line) ? indent >= markerIndent + 2 : indent > markerIndent
+  }
+
+  const finishItem = () => {
+    if (i > start) items.push({ children: parseBlocks(itemLines) })
+  }
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (isSibling(line)) {
+      finishItem()
+      const [, indent, marker, spacing = ' ', content = ''] = LIST_ITEM_PATTERN.exec(line)!
+      contentIndent = indent.length + marker.length + (spacing.length > 4 || !content ? 1 : spacing.length)
+      itemLines = [content]
+      i++
+      continue
+    }
+
+    if (!line.trim()) {
+      // Blank lines stay in the list only if the list continues after them
+      let next = i
+      while (next < lines.length && !lines[next].trim()) next++
+      if (next === lines.length || !(isSibling(lines[next]) || belongsToItem(lines[next]))) break
+
+      itemLines.push(...lines.slice(i, next).map(() => ''))
+      i = next
+      continue
+    }
+
+    if (!belongsToItem(line)) break
+
+    itemLines.push(dedent(line, contentIndent))
+    i++
+  }
+
+  finishItem()
+
+  return [{ type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, i]
+}
+
+/**
+ * Parse markdown into block nodes.
+ *
+ * @param source - Markdown source (a slide body)
+ * @returns Block nodes in document order
+ *
+ * @example
+ * parseMarkdown('# Title\n\n- one\n  - nested')
+ * // [{ type: 'heading', ... }, { type: 'blank', raw: '' }, { type: 'list', ... }]
+ */
+export function parseMarkdown(source: string): BlockNode[] {
+  return parseBlocks(source.replace(/\r\n?/g, '\n').split('\n'))
+}
+
+function parseBlocks(lines: string[]): BlockNode[] {
+  const nodes: BlockNode[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+    let match: RegExpExecArray | null
+
+    if (!line.trim()) {
+      nodes.push({ type: 'blank', raw: line })
+      i++
+    } else if (FENCE_PATTERN.test(line)) {
+      const [node, next] = parseFence(lines, i)
+      nodes.push(node)
+      i = next
+    } else if ((match = HEADING_PATTERN.exec(line))) {
+      nodes.push({ type: 'heading', level: match[1].length, children: parseInline(match[2]) })
+      i++
+    } else if (THEMATIC_BREAK_PATTERN.test(line)) {
+      nodes.push({ type: 'thematicBreak' })
+      i++
+    } else if (BLOCKQUOTE_PATTERN.test(line)) {
+      const quoted: string[] = []
+      while (i < lines.length && (match = BLOCKQUOTE_PATTERN.exec(lines[i]))) {
+        quoted.push(match[1])
+        i++
+      }
+      nodes.push({ type: 'blockquote', children: parseBlocks(quoted) })
+    } else if (LIST_ITEM_PATTERN.test(line)) {
+      const [node, next] = parseList(lines, i)
+      nodes.push(node)
+      i = next
+    } else if (isTableStart(lines, i)) {
+      const [node, next] = parseTable(lines, i)
+      nodes.push(node)
+      i = next
+    } else {
+      const paragraph = [line]
+      i++
+      while (i < lines.length && lines[i].trim() && !startsBlock(lines[i]) && !isTableStart(lines, i)) {
+        paragraph.push(lines[i])
+        i++
+      }
+      nodes.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) })
+    }
+  }
+
+  return nodes
+}
+
+// ============================================================================
+// Inline parsing
+// ============================================================================
+
+/**
+ * Run of emphasis delimiters waiting to be matched.
+ */
+interface Delimiter {
+  type: 'delimiter'
+  char: '*' | '_' | '~'
+  count: number
+  canOpen: boolean
+  canClose: boolean
+}
+
+type InlineItem = InlineNode | Delimiter
+
+/**
+ * Color tokens and blessed tags, e.g. {GREEN}, {/}, {bold}, {#ff0066-fg}.
+ * Same shape blessed accepts as a tag.
+ */
+const TAG_PATTERN = /^\{\/?[\w\-,;!#]*\}/
+const AUTOLINK_PATTERN = /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*)>/
+const ESCAPABLE_PATTERN = /[!-/:-@[-`{-~]/
+const PUNCTUATION_PATTERN = /[\p{P}\p{S}]/u
+
+/**
+ * Build a delimiter run, working out whether it can open or close emphasis.
+ * Follows the CommonMark left-/right-flanking rules.
+ */
+function createDelimiter(char: Delimiter['char'], count: number, before: string, after: string): Delimiter {
+  const beforeSpace = /\s/.test(before)
+  const afterSpace = /\s/.test(after)
+  const beforePunct = PUNCTUATION_PATTERN.test(before)
+  const afterPunct = PUNCTUATION_PATTERN.test(after)
+
+  const leftFlanking = !afterSpace && (!afterPunct || beforeSpace || beforePunct)
+  const rightFlanking = !beforeSpace && (!beforePunct || afterSpace || afterPunct)
+
+  // Underscores do not create emphasis inside words (snake_case_names)
+  if (char === '_') {
+    return {
+      type: 'delimiter',
+      char,
+      count,
+      canOpen: leftFlanking && (!rightFlanking || beforePunct),
+      canClose: rightFlanking && (!leftFlanking || afterPunct),
+    }
+  }
+
+  return { type: 'delimiter', char, count, canOpen: leftFlanking, canClose: rightFlanking }
+}
+
+/**
+ * Find the `]` matching the `[` at `start`, or -1.
+ */
+function findClosingBracket(text: string, start: number): number {
+  let depth = 0
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') i++
+    else if (text[i] === '[') depth++
+    else if (text[i] === ']' && --depth === 0) return i
+  }
+  return -1
+}
+
+/**
+ * Split text into inline nodes and unmatched delimiter runs.
+ */
+function scanInline(text: string): InlineItem[] {
+  const items: InlineItem[] = []
+  let buffer = ''
+  let i = 0
+
+  const flush = () => {
+    if (buffer) items.push({ type: 'text', value: buffer })
+    buffer = ''
+  }
+
+  while (i < text.length) {
+    const char = text[i]
+    const rest = text.slice(i)
+    let match: RegExpExecArray | null
+
+    if (char === '\\' && ESCAPABLE_PATTERN.test(text[i + 1] ?? '')) {
+      const escaped = text[i + 1]
+      // Escaped braces must not form tags later on
+      if (escaped === '{' || escaped === '}') {
+        flush()
+        items.push({ type: 'tag', value: escaped === '{' ? '{open}' : '{close}' })
+      } else {
+        buffer += escaped
+      }
+      i += 2
+    } else if (char === '`') {
+      const run = /^`+/.exec(rest)![0]
+      const end = text.indexOf(run, i + run.length)
+      const closed = end !== -1 && text[end + run.length] !== '`'
+
+      if (closed) {
+        flush()
+        let code = text.slice(i + run.length, end).replace(/\n/g, ' ')
+        if (/^ .*[^ ].* $/.test(code)) code = code.slice(1, -1)
+        items.push({ type: 'code', value: code })
+        i = end + run.length
+      } else {
+        buffer += run
+        i += run.length
+      }
+    } else if (char === '{' && (match = TAG_PATTERN.exec(rest))) {
+      flush()
+      items.push({ type: 'tag', value: match[0] })
+      i += match[0].length
+    } else if (char === '<' && (match = AUTOLINK_PATTERN.exec(rest))) {
+      flush()
+      items.push({ type: 'link', url: match[1], children: [{ type: 'text', value: match[1] }] })
+      i += match[0].length
+    } else if (char === '[') {
+      const close = findClosingBracket(text, i)
+      const target = close === -1 ? null : /^\(\s*<?([^\s()<>]*)>?(?:\s+"[^"]*")?\s*\)/.exec(text.slice(close + 1))
+
+      if (target) {
+        flush()
+        items.push({ type: 'link', url: target[1], children: parseInline(text.slice(i + 1, close)) })
+        i = close + 1 + target[0].length
+      } else {
+        buffer += char
+        i++
+      }
+    } else if (char === '*' || char === '_' || char === '~') {
+      const run = new RegExp(`^\\${char}+`).exec(rest)![0]
+
+      // Strikethrough needs a double tilde
+      if (char === '~' && run.length < 2) {
+        buffer += run
+      } else {
+        flush()
+        items.push(createDelimiter(char, run.length, text[i - 1] ?? ' ', text[i + run.length] ?? ' '))
+      }
+      i += run.length
+    } else {
+      buffer += char
+      i++
+    }
+  }
+
+  flush()
+  return items
+}
+
+/**
+ * Turn an unmatched delimiter back into literal text.
+ */
+function delimiterToText(item: InlineItem): InlineNode {
+  return item.type === 'delimiter' ? { type: 'text', value: item.char.repeat(item.count) } : item
+}
+
+/**
+ * Merge adjacent text nodes.
+ */
+function mergeText(nodes: InlineNode[]): InlineNode[] {
+  const merged: InlineNode[] = []
+  for (const node of nodes) {
+    const last = merged[merged.length - 1]
+    if (node.type === 'text' && last?.type === 'text') {
+      merged[merged.length - 1] = { type: 'text', value: last.value + node.value }
+    } else {
+      merged.push(node)
+    }
+  }
+  return merged
+}
+
+/**
+ * Match delimiter runs into emphasis, strong and strikethrough nodes.
+ *
+ * Walks closers from left to right and pairs each with the nearest
+ * compatible opener, like the CommonMark delimiter algorithm.
+ */
+function processEmphasis(items: InlineItem[]): InlineNode[] {
+  let i = 0
+
+  while (i < items.length) {
+    const closer = items[i]
+
+    if (closer.type !== 'delimiter' || !closer.canClose) {
+      i++
+      continue
+    }
+
+    let openerIndex = -1
+    for (let j = i - 1; j >= 0; j--) {
+      const candidate = items[j]
+      if (candidate.type === 'delimiter' && candidate.char === closer.char && candidate.canOpen) {
+        openerIndex = j
+        break
+      }
+    }
+
+    if (openerIndex === -1) {
+      i++
+      continue
+    }
+
+    const opener = items[openerIndex] as Delimiter
+    const used = closer.char === '~' || (opener.count >= 2 && closer.count >= 2) ? 2 : 1
+    const type = closer.char === '~' ? 'strikethrough' : used === 2 ? 'strong' : 'emphasis'
+    const children = mergeText(items.slice(openerIndex + 1, i).map(delimiterToText))
+
+    opener.count -= used
+    closer.count -= used
+
+    const replacement: InlineItem[] = []
+    if (opener.count > 0) replacement.push(opener)
+    replacement.push({ type, children })
+    if (closer.count > 0) replacement.push(closer)
+
+    items.splice(openerIndex, i - openerIndex + 1, ...replacement)
+
+    // Revisit the closer if part of its run is left
+    i = openerIndex + replacement.length - (closer.count > 0 ? 1 : 0)
+  }
+
+  return mergeText(items.map(delimiterToText))
+}
+
+/**
+ * Parse inline markdown.
+ *
+ * @param text - Inline content (may contain line breaks)
+ * @returns Inline nodes
+ *
+ * @example
+ * parseInline('**bold *and italic***')
+ * // [{ type: 'strong', children: [{ type: 'text', ... }, { type: 'emphasis', ... }] }]
+ */
+export function parseInline(text: string): InlineNode[] {
+  return processEmphasis(scanInline(text))
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Options for rendering markdown to blessed tags.
+ */
+export interface MarkdownRenderOptions {
+  // Theme for muted decorations (quote bars, link footnotes)
+  theme: Theme
+  // Render a fenced code block; defaults to the code as-is
+  renderCode?: (info: string, code: string) => string
+  // Available width in columns; tables are fit to it
+  width?: number
+}
+
+/**
+ * Mutable state shared while rendering one document.
+ */
+interface RenderContext {
+  options: MarkdownRenderOptions
+  // Blessed style tags currently open, innermost last
+  styles: string[]
+  // Link URLs in footnote order
+  footnotes: string[]
+  // Nesting depth of lists
+  listDepth: number
+  // Width left for the current block (after list and quote indentation)
+  width: number
+}
+
+const BULLETS = ['•', '◦', '▪']
+const RULE_WIDTH = 40
+const MIN_COLUMN_WIDTH = 3
+
+/**
+ * Blessed tags, including color tokens; {open} and {close} print a brace.
+ */
+const RENDERED_TAG_PATTERN = /\{(\/?)([\w\-,;!#]*)\}/g
+
+/**
+ * Escape blessed tag delimiters in literal text.
+ */
+function escapeTags(text: string): string {
+  return text.replace(/[{}]/g, (char) => (char === '{' ? '{open}' : '{close}'))
+}
+
+/**
+ * Get the on-screen width of blessed-tagged text.
+ *
+ * @param text - Text that may contain blessed tags or color tokens
+ * @returns Number of columns the text occupies
+ *
+ * @example
+ * visibleWidth('{bold}Hi{/bold} {open}x{close}') // 6
+ */
+export function visibleWidth(text: string): number {
+  return text.replace(RENDERED_TAG_PATTERN, (_match, slash, name) =>
+    !slash && (name === 'open' || name === 'close') ? ' ' : ''
+  ).length
+}
+
+/**
+ * Wrap blessed-tagged text to a width, breaking at spaces where possible.
+ *
+ * Tags open at a line break are closed at the end of the line and
+ * reopened on the next, so each line is styled on its own.
+ */
+function wrapTagged(text: string, width: number): string[] {
+  const lines: string[] = []
+  const open: string[] = []
+  let line = ''
+  let lineWidth = 0
+  // Position in `line` after the last space, for word breaks
+  let breakAt = -1
+  let breakWidth = 0
+
+  const pushLine = (content: string) => {
+    lines.push(open.length ? content + '{/}' : content)
+  }
+
+  const tokens = text.match(/\{\/?[\w\-,;!#]*\}|[\s\S]/g) ?? []
+  for (const token of tokens) {
+    const tag = /^\{(\/?)([\w\-,;!#]*)\}$/.exec(token)
+
+    if (tag && tag[2] !== 'open' && tag[2] !== 'close') {
+      if (!tag[1]) open.push(token)
+      else if (!tag[2]) open.length = 0
+      else open.pop()
+      line += token
+      continue
+    }
+
+    if (lineWidth === width) {
+      if (token === ' ') {
+        pushLine(line)
+        line = open.join('')
+        lineWidth = 0
+        breakAt = -1
+        continue
+      }
+
+      if (breakAt !== -1) {
+        const rest = line.slice(breakAt)
+        pushLine(line.slice(0, breakAt - 1))
+        line = open.join('') + rest
+        lineWidth -= breakWidth
+      } else {
+        pushLine(line)
+        line = open.join('')
+        lineWidth = 0
+      }
+      breakAt = -1
+    }
+
+    line += token
+    lineWidth++
+
+    if (token === ' ') {
+      breakAt = line.length
+      breakWidth = lineWidth
+    }
+  }
+
+  lines.push(line)
+  return lines
+}
+
+/**
+ * Fit column widths into the available width.
+ *
+ * Shrinks the widest column one step at a time so narrow columns keep
+ * their natural width.
+ */
+function fitColumnWidths(widths: number[], available: number): number[] {
+  const fitted = [...widths]
+  let total = fitted.reduce((sum, w) => sum + w, 0)
+
+  while (total > available) {
+    const widest = fitted.indexOf(Math.max(...fitted))
+    if (fitted[widest] <= MIN_COLUMN_WIDTH) break
+    fitted[widest]--
+    total--
+  }
+
+  return fitted
+}
+
+/**
+ * Pad a cell line to a column width.
+ */
+function alignCell(text: string, width: number, align: TableAlign): string {
+  const space = Math.max(0, width - visibleWidth(text))
+
+  if (align === 'right') return ' '.repeat(space) + text
+  if (align === 'center') {
+    const left = Math.floor(space / 2)
+    return ' '.repeat(left) + text + ' '.repeat(space - left)
+  }
+  return text + ' '.repeat(space)
+}
+
+/**
+ * Render a table as a box-drawn grid.
+ *
+ * Columns are as wide as their content, shrunk (with wrapping) to fit
+ * the available width. The header row uses the theme's primary color.
+ */
+function renderTable(node: Extract<BlockNode, { type: 'table' }>, context: RenderContext): string[] {
+  const { primary, muted } = context.options.theme.colors
+  const border = (chars: string) => `{${muted}-fg}${chars}{/${muted}-fg}`
+
+  const header = node.header.map((cell) =>
+    `{${primary}-fg}{bold}${renderInline(cell, context)}{/bold}{/${primary}-fg}`
+  )
+  const rows = node.rows.map((row) => row.map((cell) => renderInline(cell, context)))
+
+  const natural = header.map((cell, column) => Math.max(
+    visibleWidth(cell),
+    ...rows.map((row) => visibleWidth(row[column])),
+    1
+  ))
+  // Each column adds a border and a space on both sides of the content
+  const widths = fitColumnWidths(natural, context.width - (natural.length * 3 + 1))
+
+  const rule = (left: string, middle: string, right: string) =>
+    border(left + widths.map((w) => '─'.repeat(w + 2)).join(middle) + right)
+
+  const renderRow = (cells: string[]): string[] => {
+    const wrapped = cells.map((cell, column) => wrapTagged(cell, widths[column]))
+    const height = Math.max(...wrapped.map((cellLines) => cellLines.length))
+
+    return Array.from({ length: height }, (_, i) =>
+      border('│') + wrapped.map((cellLines, column) =>
+        ` ${alignCell(cellLines[i] ?? '', widths[column], node.align[column])} `
+      ).join(border('│')) + border('│')
+    )
+  }
+
+  return [
+    rule('┌', '┬', '┐'),
+    ...renderRow(header),
+    rule('├', '┼', '┤'),
+    ...rows.flatMap(renderRow),
+    rule('└', '┴', '┘'),
+  ]
+}
+
+/**
+ * Get the plain text of inline nodes (used to compare link text with URLs).
+ */
+function plainText(nodes: InlineNode[]): string {
+  return nodes.map((node) => {
+    if (node.type === 'text' || node.type === 'code') return node.value
+    if (node.type === 'tag') return ''
+    return plainText(node.children)
+  }).join('')
+}
+
+function renderStyled(style: string, children: InlineNode[], context: RenderContext): string {
+  context.styles.push(style)
+  const inner = renderInline(children, context)
+  context.styles.pop()
+  return `{${style}}${inner}{/${style}}`
+}
+
+function renderInline(nodes: InlineNode[], context: RenderContext): string {
+  const muted = context.options.theme.colors.muted
+
+  return nodes.map((node) => {
+    switch (node.type) {
+      case 'text':
+        return node.value
+      case 'tag':
+        // {/} resets every attribute in blessed; reopen the markdown
+        // styles around it so only the color token is closed
+        return node.value === '{/}'
+          ? node.value + context.styles.map((style) => `{${style}}`).join('')
+          : node.value
+      case 'code':
+        return `{inverse} ${escapeTags(node.value)} {/inverse}`
+      case 'strong':
+        return renderStyled('bold', node.children, context)
+      case 'emphasis':
+      case 'strikethrough':
+        // Terminals have no italics or strikethrough in blessed, dim instead
+        return renderStyled('light-black-fg', node.children, context)
+      case 'link': {
+        const text = renderStyled('underline', node.children, context)
+        if (plainText(node.children) === node.url) return text
+
+        let index = context.footnotes.indexOf(node.url)
+        if (index === -1) index = context.footnotes.push(node.url) - 1
+        return `${text}{${muted}-fg}[${index + 1}]{/${muted}-fg}`
+      }
+    }
+  }).join('')
+}
+
+/**
+ * Prefix rendered lines, leaving blank lines untouched.
+ */
+function prefixLines(lines: string[], first: string, rest: string): string[] {
+  return lines.map((line, i) => {
+    if (i === 0) return first + line
+    return line.trim() ? rest + line : line
+  })
+}
+
+/**
+ * Run a render step with a narrower available width.
+ */
+function withWidth<T>(context: RenderContext, width: number, render: () => T): T {
+  const previous = context.width
+  context.width = width
+  try {
+    return render()
+  } finally {
+    context.width = previous
+  }
+}
+
+function renderBlocks(nodes: BlockNode[], context: RenderContext): string[] {
+  const { theme, renderCode } = context.options
+  const muted = theme.colors.muted
+
+  return nodes.flatMap((node): string[] => {
+    switch (node.type) {
+      case 'blank':
+        return [node.raw]
+      case 'paragraph':
+        return renderInline(node.children, context).split('\n')
+      case 'heading':
+        return [renderStyled('bold', node.children, context)]
+      case 'thematicBreak':
+        return ['─'.repeat(RULE_WIDTH)]
+      case 'code':
+        return (renderCode ? renderCode(node.info, node.code) : node.code).split('\n')
+      case 'blockquote': {
+        const bar = `{${muted}-fg}│{/${muted}-fg}`
+        const lines = withWidth(context, context.width - 2, () => renderBlocks(node.children, context))
+        return lines.map((line) => (line ? `${bar} ${line}` : bar))
+      }
+      case 'table':
+        return renderTable(node, context)
+      case 'list': {
+        const bullet = BULLETS[context.listDepth % BULLETS.length]
+        context.listDepth++
+
+        const lines = node.items.flatMap((item, index) => {
+          const marker = node.ordered ? `${node.start + index}.` : bullet
+          const prefix = `  ${marker} `
+          const itemLines = withWidth(context, context.width - prefix.length, () =>
+            renderBlocks(item.children, context)
+          )
+          return prefixLines(itemLines, prefix, ' '.repeat(prefix.length))
+        })
+
+        context.listDepth--
+        return lines
+      }
+    }
+  })
+}
+
+/**
+ * Render markdown as blessed-tagged text.
+ *
+ * Line structure is preserved. Link URLs are collected and listed as
+ * numbered footnotes below the content. Tables are fit to `options.width`
+ * when given. Color tokens are left in place for later conversion.
+ *
+ * @param source - Markdown source (a slide body)
+ * @param options - Theme and code block renderer
+ * @returns Blessed-tagged text
+ *
+ * @example
+ * renderMarkdown('**Hi** [docs](https://example.com)', { theme })
+ * // '{bold}Hi{/bold} {underline}docs{/underline}{#666666-fg}[1]{/#666666-fg}\n\n{#666666-fg}[1] https://example.com{/#666666-fg}'
+ */
+export function renderMarkdown(source: string, options: MarkdownRenderOptions): string {
+  const context: RenderContext = {
+    options,
+    styles: [],
+    footnotes: [],
+    listDepth: 0,
+    width: options.width ?? Infinity,
+  }
+  const lines = renderBlocks(parseMarkdown(source), context)
+
+  if (context.footnotes.length > 0) {
+    const muted = options.theme.colors.muted
+    lines.push('', ...context.footnotes.map(
+      (url, i) => `{${muted}-fg}[${i + 1}] ${escapeTags(url)}{/${muted}-fg}`
+    ))
+  }
+
+  return lines.join('\n')
+}
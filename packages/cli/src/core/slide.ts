@@ -81,6 +81,30 @@ export async function parseSlide(
   // Parse frontmatter with gray-matter
   const { data, content: rawBody } = matter(content)
 
+  return buildSlide(data, rawBody, filePath, index)
+}
+
+/**
+ * Build a slide from parsed frontmatter data and raw body content.
+ *
+ * Extracts presenter notes from the body and validates the result
+ * against the schema.
+ *
+ * @param data - Parsed frontmatter data
+ * @param rawBody - Body content including any notes block
+ * @param filePath - Path of the file the slide comes from
+ * @param index - The slide index in the deck (0-indexed)
+ * @param sourceLine - Line of the slide in its file (single-file decks)
+ * @returns Validated Slide object
+ * @throws {ValidationError} If frontmatter or slide validation fails
+ */
+export function buildSlide(
+  data: Record<string, unknown>,
+  rawBody: string,
+  filePath: string,
+  index: number,
+  sourceLine?: number
+): Slide {
   // Extract notes from body
   const { body, notes } = extractNotes(rawBody)
 
@@ -97,6 +121,7 @@ export async function parseSlide(
     body: body.trim(),
     notes: notes?.trim(),
     sourcePath: filePath,
+    sourceLine,
     index,
   }
 
@@ -106,29 +131,42 @@ export async function parseSlide(
 
 /**
  * Error class for slide parsing failures.
- * Includes the file path of the slide that failed to parse and
- * optionally the underlying cause for error chaining.
+ * Includes the file path of the slide that failed to parse,
+ * optionally the line number within that file, and the underlying
+ * cause for error chaining.
  */
 export class SlideParseError extends Error {
   /**
    * @param message - The error message describing what went wrong
    * @param filePath - Path to the slide file that failed to parse
    * @param cause - Optional underlying error that caused this failure
+   * @param line - Optional 1-based line number of the error in the file
    */
   constructor(
     message: string,
     public readonly filePath: string,
-    public override readonly cause?: Error
+    public override readonly cause?: Error,
+    public readonly line?: number
   ) {
     super(message)
     this.name = 'SlideParseError'
   }
 }
 
+/**
+ * Get the location of a slide parse error as `path` or `path:line`.
+ *
+ * @param error - The SlideParseError to locate
+ * @returns The file path, with the line number if known
+ */
+export function formatSlideErrorLocation(error: SlideParseError): string {
+  return error.line ? `${error.filePath}:${error.line}` : error.filePath
+}
+
 /**
  * Format a slide parse error for user-friendly display.
- * Creates a multi-line message with the file path, error message,
- * and optional cause chain.
+ * Creates a multi-line message with the file path (and line number,
+ * if known), error message, and optional cause chain.
  *
  * @param error - The SlideParseError to format
  * @returns A formatted string suitable for console output
@@ -145,7 +183,7 @@ export class SlideParseError extends Error {
  * //   Caused by: Validation failed
  */
 export function formatSlideError(error: SlideParseError): string {
-  let msg = `Error parsing slide: ${error.filePath}\n`
+  let msg = `Error parsing slide: ${formatSlideErrorLocation(error)}\n`
   msg += `  ${error.message}\n`
 
   if (error.cause) {
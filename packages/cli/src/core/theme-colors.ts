@@ -134,3 +134,72 @@ export function colorTokensToBlessedTags(content: string, theme: Theme): string
     }
   )
 }
+
+/**
+ * ANSI SGR codes of blessed style tags.
+ */
+const STYLE_CODES: Record<string, string> = {
+  bold: '1',
+  underline: '4',
+  blink: '5',
+  inverse: '7',
+  invisible: '8',
+}
+
+const TAG_PATTERN = /\{(\/?)([\w\-,;!#]*)\}/g
+const HEX_TAG_PATTERN = /^#([0-9a-fA-F]{6})-(fg|bg)$/
+
+/**
+ * Get the ANSI code of an opening blessed tag.
+ * Returns undefined for tags without an ANSI equivalent.
+ */
+function tagToAnsiCode(name: string): string | undefined {
+  const hex = HEX_TAG_PATTERN.exec(name)
+  if (hex) {
+    const [r, g, b] = [0, 2, 4].map((i) => parseInt(hex[1].slice(i, i + 2), 16))
+    return `${hex[2] === 'fg' ? 38 : 48};2;${r};${g};${b}`
+  }
+  return STYLE_CODES[name]
+}
+
+/**
+ * Convert blessed tags in content to ANSI escape codes.
+ * Used to show processed slide content outside of blessed, e.g. in the
+ * presenter notes. Hex colors and styles become ANSI codes, escaped
+ * braces become literal braces, and other tags are removed.
+ *
+ * @param content - Content with blessed tags (e.g. from processSlideContent)
+ * @returns Content styled with ANSI escape codes
+ *
+ * @example
+ * blessedTagsToAnsi('{#00cc66-fg}Hi{/} {open}x{close}')
+ * // '\x1b[38;2;0;204;102mHi\x1b[0m {x}'
+ */
+export function blessedTagsToAnsi(content: string): string {
+  // Open tags, so closing one tag can restore the others
+  const open: string[] = []
+  const restore = () => '\x1b[0m' + open.map((code) => `\x1b[${code}m`).join('')
+
+  return content.replace(TAG_PATTERN, (_, slash: string, name: string) => {
+    if (!slash && name === 'open') return '{'
+    if (!slash && name === 'close') return '}'
+
+    if (slash && !name) {
+      open.length = 0
+      return '\x1b[0m'
+    }
+
+    const code = tagToAnsiCode(name)
+    if (!code) return ''
+
+    if (!slash) {
+      open.push(code)
+      return `\x1b[${code}m`
+    }
+
+    const index = open.lastIndexOf(code)
+    if (index === -1) return ''
+    open.splice(index, 1)
+    return restore()
+  })
+}
@@ -0,0 +1,118 @@
+import { dirname, isAbsolute, resolve } from 'path'
+import type { Theme } from '../schemas/theme.js'
+import type { Slide } from '../schemas/slide.js'
+import { getThemePreset } from '../themes/index.js'
+import { formatThemeError } from './theme-errors.js'
+import { loadThemeFromFile, loadThemeFromPackage } from './theme-loaders.js'
+
+// Resolved theme overrides per slide. Reloaded slides are new objects,
+// so their themes are read again.
+const slideThemes = new WeakMap<Slide, Theme>()
+
+/**
+ * Check whether a theme reference points to a local YAML file.
+ * Relative and absolute paths, and anything ending in .yml/.yaml, count as files.
+ *
+ * @param reference - The theme reference from slide frontmatter
+ * @returns true if the reference should be loaded from the filesystem
+ */
+function isThemeFileReference(reference: string): boolean {
+  return (
+    /\.ya?ml$/i.test(reference) ||
+    reference.startsWith('./') ||
+    reference.startsWith('../') ||
+    isAbsolute(reference)
+  )
+}
+
+/**
+ * Resolve a theme reference to a validated theme.
+ *
+ * References are resolved in order:
+ * 1. Built-in theme names (matrix, neon, retro, minimal, hacker)
+ * 2. Local YAML files, relative to `baseDir`
+ * 3. npm packages exporting a default theme
+ *
+ * @param reference - Theme name, file path, or package name
+ * @param baseDir - Directory used to resolve relative file paths
+ * @returns The resolved theme
+ * @throws {ThemeError} If the theme cannot be loaded or is invalid
+ *
+ * @example
+ * await resolveThemeReference('neon', '/slides')
+ * await resolveThemeReference('./themes/custom.yml', '/slides')
+ * await resolveThemeReference('@term-deck/theme-retro', '/slides')
+ */
+export async function resolveThemeReference(
+  reference: string,
+  baseDir: string
+): Promise<Theme> {
+  const builtin = getThemePreset(reference)
+  if (builtin) {
+    return builtin
+  }
+
+  try {
+    if (isThemeFileReference(reference)) {
+      return await loadThemeFromFile(resolve(baseDir, reference))
+    }
+
+    return await loadThemeFromPackage(reference)
+  } catch (error) {
+    throw formatThemeError(error, reference)
+  }
+}
+
+/**
+ * Get where the theme of a slide comes from.
+ *
+ * File and package themes are loaded as new objects each time they are
+ * resolved, so the source identifies a slide theme where the resolved
+ * object cannot (e.g. for caches).
+ *
+ * @param slide - The slide to get the theme source for
+ * @returns Built-in theme name, resolved file path or package name,
+ *   or undefined when the slide uses the fallback (deck) theme
+ *
+ * @example
+ * getSlideThemeSource(slide) // '/slides/themes/custom.yml' for theme: ./themes/custom.yml
+ */
+export function getSlideThemeSource(slide: Slide): string | undefined {
+  const reference = slide.frontmatter.theme
+
+  if (!reference || getThemePreset(reference)) {
+    return reference
+  }
+
+  return isThemeFileReference(reference) ? resolve(dirname(slide.sourcePath), reference) : reference
+}
+
+/**
+ * Resolve the theme to use for a slide.
+ *
+ * Slides without a `theme` frontmatter field use the fallback (deck) theme.
+ * Relative theme file paths are resolved against the slide's directory.
+ * A slide's theme is loaded once (loadDeck resolves them all), so
+ * rendering never reads theme files or packages again.
+ *
+ * @param slide - The slide to resolve the theme for
+ * @param fallback - Theme to use when the slide has no override
+ * @returns The slide's theme
+ * @throws {ThemeError} If the slide's theme cannot be loaded
+ */
+export async function resolveSlideTheme(slide: Slide, fallback: Theme): Promise<Theme> {
+  const reference = slide.frontmatter.theme
+
+  if (!reference) {
+    return fallback
+  }
+
+  const cached = slideThemes.get(slide)
+  if (cached) {
+    return cached
+  }
+
+  const theme = await resolveThemeReference(reference, dirname(slide.sourcePath))
+  slideThemes.set(slide, theme)
+  return theme
+}
@@ -108,6 +108,7 @@ export {
   applyGradient,
   resolveColorToken,
   colorTokensToBlessedTags,
+  blessedTagsToAnsi,
   BUILTIN_COLORS,
 } from './theme-colors'
 export type { GradientFunction } from './theme-colors'
@@ -77,6 +77,23 @@ export function formatMermaidError(code: string, _error: unknown): string {
   return lines.join('\n')
 }
 
+/**
+ * Run mermaid-ascii with its console.debug logging of every parsed line
+ * switched off.
+ *
+ * @param mermaidCode - Raw mermaid diagram code
+ * @returns ASCII art representation
+ */
+function convertQuietly(mermaidCode: string): string {
+  const debug = console.debug
+  console.debug = () => {}
+  try {
+    return convertMermaid(mermaidCode)
+  } finally {
+    console.debug = debug
+  }
+}
+
 /**
  * Convert mermaid diagram to ASCII art.
  *
@@ -89,13 +106,31 @@ export function formatMermaidError(code: string, _error: unknown): string {
  */
 export function mermaidToAscii(mermaidCode: string): string {
   try {
-    return convertMermaid(mermaidCode)
+    return convertQuietly(mermaidCode)
   } catch (error) {
     // If parsing fails, return a formatted error block
     return formatMermaidError(mermaidCode, error)
   }
 }
 
+/**
+ * Check whether mermaid diagram code can be converted to ASCII.
+ *
+ * Diagrams that fail to parse are shown as an error block by
+ * mermaidToAscii, so this is used to report them up front.
+ *
+ * @param mermaidCode - Raw mermaid diagram code
+ * @returns true if the diagram parses
+ */
+export function canRenderMermaid(mermaidCode: string): boolean {
+  try {
+    convertQuietly(mermaidCode)
+    return true
+  } catch {
+    return false
+  }
+}
+
 /**
  * Escape special regex characters in a string.
  *
@@ -0,0 +1,292 @@
+import type { Theme } from '../../schemas/theme.js'
+
+/**
+ * Token classes produced by the syntax tokenizer.
+ * Each class maps to a color in the theme's `syntax` section.
+ */
+export type TokenType =
+  | 'keyword'
+  | 'string'
+  | 'number'
+  | 'comment'
+  | 'function'
+  | 'type'
+  | 'property'
+  | 'variable'
+  | 'operator'
+  | 'punctuation'
+  | 'plain'
+
+/**
+ * A single token of source code.
+ */
+export interface Token {
+  type: TokenType
+  value: string
+}
+
+/**
+ * Resolved syntax colors with all token classes filled in.
+ */
+export type SyntaxColors = Record<Exclude<TokenType, 'plain'>, string> & {
+  plain: string
+  lineNumber: string
+  highlight: string
+}
+
+/**
+ * A tokenizer rule: a sticky pattern and the token class it produces.
+ * Rules are tried in order at each position; the first match wins.
+ */
+interface TokenRule {
+  type: TokenType
+  pattern: RegExp
+}
+
+const JS_KEYWORDS = [
+  'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const',
+  'continue', 'declare', 'default', 'delete', 'do', 'else', 'enum', 'export',
+  'extends', 'false', 'finally', 'for', 'from', 'function', 'get', 'if',
+  'implements', 'import', 'in', 'instanceof', 'interface', 'keyof', 'let',
+  'namespace', 'new', 'null', 'of', 'private', 'protected', 'public',
+  'readonly', 'return', 'satisfies', 'set', 'static', 'super', 'switch',
+  'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'var',
+  'void', 'while', 'yield',
+]
+
+const BASH_KEYWORDS = [
+  'case', 'do', 'done', 'elif', 'else', 'esac', 'fi', 'for', 'function', 'if',
+  'in', 'select', 'then', 'until', 'while',
+]
+
+const BASH_BUILTINS = [
+  'alias', 'cd', 'echo', 'eval', 'exec', 'exit', 'export', 'local', 'printf',
+  'read', 'readonly', 'return', 'set', 'shift', 'source', 'test', 'trap', 'unset',
+]
+
+/**
+ * Build a sticky pattern matching any of the given words.
+ */
+function words(list: string[]): RegExp {
+  return new RegExp(`\\b(?:${list.join('|')})\\b`, 'y')
+}
+
+const JAVASCRIPT_RULES: TokenRule[] = [
+  { type: 'comment', pattern: /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y },
+  { type: 'string', pattern: /`(?:\\[\s\S]|[^\\`])*`?|'(?:\\.|[^\\'\n])*'?|"(?:\\.|[^\\"\n])*"?/y },
+  { type: 'number', pattern: /\b(?:0[xX][\da-fA-F_]+|0[bB][01_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?n?)\b/y },
+  { type: 'keyword', pattern: words(JS_KEYWORDS) },
+  { type: 'function', pattern: /[A-Za-z_$][\w$]*(?=\s*(?:<[^<>()]*>)?\()/y },
+  { type: 'type', pattern: /[A-Z][\w$]*/y },
+  { type: 'plain', pattern: /[A-Za-z_$][\w$]*/y },
+  { type: 'operator', pattern: /=>|[-+*/%=!<>&|^~?:]+/y },
+  { type: 'punctuation', pattern: /[{}()[\];,.]/y },
+]
+
+const BASH_RULES: TokenRule[] = [
+  { type: 'comment', pattern: /(?<![^\s;|&(])#[^\n]*/y },
+  { type: 'string', pattern: /"(?:\\[\s\S]|[^\\"])*"?|'[^']*'?/y },
+  { type: 'variable', pattern: /\$(?:\{[^}\n]*\}|\w+|[@#?$!*-])/y },
+  { type: 'keyword', pattern: words(BASH_KEYWORDS) },
+  { type: 'function', pattern: words(BASH_BUILTINS) },
+  { type: 'property', pattern: /(?<![^\s])--?[\w-]+/y },
+  { type: 'number', pattern: /\b\d+\b/y },
+  { type: 'operator', pattern: /&&|\|\||[|&;<>]+|=/y },
+  { type: 'punctuation', pattern: /[()[\]{}]/y },
+  { type: 'plain', pattern: /[^\s$"'#|&;<>=()[\]{}]+/y },
+]
+
+const JSON_RULES: TokenRule[] = [
+  { type: 'comment', pattern: /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y },
+  { type: 'property', pattern: /"(?:\\.|[^\\"\n])*"(?=\s*:)/y },
+  { type: 'string', pattern: /"(?:\\.|[^\\"\n])*"?/y },
+  { type: 'number', pattern: /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y },
+  { type: 'keyword', pattern: words(['true', 'false', 'null']) },
+  { type: 'punctuation', pattern: /[{}[\],:]/y },
+]
+
+const YAML_RULES: TokenRule[] = [
+  { type: 'comment', pattern: /(?<!\S)#[^\n]*/y },
+  { type: 'punctuation', pattern: /^---$|^\.\.\.$/my },
+  { type: 'property', pattern: /[A-Za-z_][\w.\- ]*?(?=\s*:(?:\s|$))|"[^"\n]*"(?=\s*:(?:\s|$))/y },
+  { type: 'string', pattern: /"(?:\\.|[^\\"\n])*"?|'(?:''|[^'\n])*'?/y },
+  { type: 'number', pattern: /-?\b\d+(?:\.\d+)?\b(?![\w.-])/y },
+  { type: 'keyword', pattern: words(['true', 'false', 'null', 'yes', 'no', 'on', 'off']) },
+  { type: 'type', pattern: /[&*][\w-]+|![\w!]+/y },
+  { type: 'punctuation', pattern: /[:\-?[\]{},|>]/y },
+  { type: 'plain', pattern: /[^\s:#'"[\]{},]+/y },
+]
+
+/**
+ * Tokenizer rules per language.
+ */
+const LANGUAGE_RULES: Record<string, TokenRule[]> = {
+  javascript: JAVASCRIPT_RULES,
+  bash: BASH_RULES,
+  json: JSON_RULES,
+  yaml: YAML_RULES,
+}
+
+/**
+ * Language identifiers accepted in code fences, mapped to a tokenizer.
+ * TypeScript shares the JavaScript tokenizer.
+ */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  typescript: 'javascript',
+  ts: 'javascript',
+  tsx: 'javascript',
+  javascript: 'javascript',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  bash: 'bash',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  json: 'json',
+  jsonc: 'json',
+  json5: 'json',
+  yaml: 'yaml',
+  yml: 'yaml',
+}
+
+/**
+ * Check whether a language identifier has a tokenizer.
+ *
+ * @param language - Language identifier from a code fence (e.g., 'ts')
+ * @returns true if the language can be highlighted
+ */
+export function isSupportedLanguage(language: string): boolean {
+  return language.toLowerCase() in LANGUAGE_ALIASES
+}
+
+/**
+ * Split source code into tokens.
+ *
+ * Whitespace and characters not matched by any rule become `plain` tokens.
+ * Unsupported languages produce a single plain token.
+ * Concatenating all token values always yields the original code.
+ *
+ * @param code - The source code to tokenize
+ * @param language - Language identifier from a code fence
+ * @returns Array of tokens in source order
+ *
+ * @example
+ * tokenize('const x = 1', 'ts')
+ * // [{ type: 'keyword', value: 'const' }, { type: 'plain', value: ' ' }, ...]
+ */
+export function tokenize(code: string, language: string): Token[] {
+  const rules = LANGUAGE_RULES[LANGUAGE_ALIASES[language.toLowerCase()]]
+
+  if (!rules) {
+    return code ? [{ type: 'plain', value: code }] : []
+  }
+
+  const tokens: Token[] = []
+  let position = 0
+
+  const pushToken = (type: TokenType, value: string) => {
+    const last = tokens[tokens.length - 1]
+    if (last && last.type === type) {
+      last.value += value
+    } else {
+      tokens.push({ type, value })
+    }
+  }
+
+  while (position < code.length) {
+    let matched = false
+
+    for (const rule of rules) {
+      rule.pattern.lastIndex = position
+      const match = rule.pattern.exec(code)
+
+      if (match && match[0].length > 0) {
+        pushToken(rule.type, match[0])
+        position += match[0].length
+        matched = true
+        break
+      }
+    }
+
+    if (!matched) {
+      pushToken('plain', code[position])
+      position++
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Resolve syntax colors for a theme.
+ *
+ * Uses colors from the theme's `syntax` section where defined and falls
+ * back to the theme palette for the rest, so every theme gets highlighting.
+ *
+ * @param theme - The theme to resolve colors from
+ * @returns Colors for every token class
+ */
+export function resolveSyntaxColors(theme: Theme): SyntaxColors {
+  const { colors } = theme
+  const syntax = theme.syntax ?? {}
+
+  return {
+    keyword: syntax.keyword ?? colors.accent,
+    string: syntax.string ?? colors.success ?? colors.primary,
+    number: syntax.number ?? colors.warning ?? colors.accent,
+    comment: syntax.comment ?? colors.muted,
+    function: syntax.function ?? colors.secondary ?? colors.primary,
+    type: syntax.type ?? colors.primary,
+    property: syntax.property ?? colors.secondary ?? colors.primary,
+    variable: syntax.variable ?? colors.text,
+    operator: syntax.operator ?? colors.text,
+    punctuation: syntax.punctuation ?? colors.text,
+    plain: colors.text,
+    lineNumber: syntax.lineNumber ?? colors.muted,
+    highlight: syntax.highlight ?? '#333333',
+  }
+}
+
+/**
+ * Escape blessed tag delimiters in literal text.
+ */
+function escapeTags(text: string): string {
+  return text.replace(/[{}]/g, (char) => (char === '{' ? '{open}' : '{close}'))
+}
+
+/**
+ * Highlight source code as blessed-tagged lines.
+ *
+ * Tokens spanning several lines (e.g. block comments) are colored on
+ * every line they cover. Braces in the code are escaped so they are not
+ * interpreted as blessed tags.
+ *
+ * @param code - The source code to highlight
+ * @param language - Language identifier from a code fence
+ * @param theme - Theme providing syntax colors
+ * @returns One tagged string per source line
+ */
+export function highlightCode(code: string, language: string, theme: Theme): string[] {
+  const colors = resolveSyntaxColors(theme)
+  const lines: string[] = ['']
+
+  for (const token of tokenize(code, language)) {
+    const segments = token.value.split('\n')
+
+    segments.forEach((segment, i) => {
+      if (i > 0) lines.push('')
+      if (!segment) return
+
+      const escaped = escapeTags(segment)
+      const color = colors[token.type]
+
+      lines[lines.length - 1] += token.type === 'plain' || !segment.trim()
+        ? escaped
+        : `{${color}-fg}${escaped}{/${color}-fg}`
+    })
+  }
+
+  return lines
+}
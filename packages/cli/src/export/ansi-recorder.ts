@@ -13,6 +13,12 @@ import { intro, outro, log, spinner } from '@clack/prompts';
 import { loadDeck } from '../core/deck-loader.js';
 import { createRenderer, destroyRenderer, renderSlide } from '../renderer/screen.js';
 import { setScreenDimensions } from '../renderer/types/screen.js';
+import {
+  createStatusBar,
+  getStatusBarInfo,
+  getStatusBarItems,
+  updateStatusBar,
+} from '../renderer/status-bar.js';
 import { captureScreenAsAnsi } from './capture/screen-capture.js';
 import type { AsciicastHeader, AsciicastFrame } from './types.js';
 
@@ -34,7 +40,7 @@ export interface AnsiRecordOptions {
  * This is an alternative to video export that doesn't require ffmpeg or canvas.
  * The output can be played back with asciinema: `asciinema play output.cast`
  *
- * @param slidesDir - Directory containing slide markdown files
+ * @param slidesDir - Directory containing slide markdown files, or a deck file
  * @param output - Output file path (e.g., 'presentation.cast')
  * @param options - Recording options (dimensions and timing)
  */
@@ -54,13 +60,17 @@ export async function recordAnsi(
   }
 
   // Create renderer (headless mode)
-  const renderer = createRenderer(deck.config.theme);
+  const renderer = createRenderer(deck.config.theme, deck.config.settings);
 
   // Set screen dimensions if specified
   const width = options.width ?? 120;
   const height = options.height ?? 40;
   setScreenDimensions(renderer.screen, width, height);
 
+  // Status bar, as shown when presenting
+  const statusItems = getStatusBarItems(deck.config.settings);
+  const statusBar = statusItems.length > 0 ? createStatusBar(renderer.screen, renderer.theme) : null;
+
   const slideTime = options.slideTime ?? 3;
   const frames: AsciicastFrame[] = [];
   let currentTime = 0;
@@ -75,6 +85,9 @@ export async function recordAnsi(
 
       // Render slide
       await renderSlide(renderer, slide);
+      if (statusBar) {
+        updateStatusBar(statusBar, statusItems, getStatusBarInfo(deck, i), renderer.theme);
+      }
 
       // Capture screen as ANSI string
       const content = captureScreenAsAnsi(renderer.screen);
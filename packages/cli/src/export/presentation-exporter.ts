@@ -10,6 +10,12 @@ import { intro, outro, log, spinner } from '@clack/prompts';
 import { loadDeck } from '../core/deck-loader.js';
 import { createRenderer, destroyRenderer, renderSlide } from '../renderer/screen.js';
 import { setScreenDimensions } from '../renderer/types/screen.js';
+import {
+  createStatusBar,
+  getStatusBarInfo,
+  getStatusBarItems,
+  updateStatusBar,
+} from '../renderer/status-bar.js';
 import { VirtualTerminal } from './utils/virtual-terminal.js';
 import { captureScreen } from './capture/screen-capture.js';
 import { checkFfmpeg, detectFormat, encodeVideo } from './encoding/ffmpeg-encoder.js';
@@ -46,7 +52,7 @@ async function encodeFramesToVideo(
 /**
  * Export a presentation to video or GIF format
  *
- * @param slidesDir - Directory containing slide markdown files
+ * @param slidesDir - Directory containing slide markdown files, or a deck file
  * @param options - Export options (output path, dimensions, fps, etc.)
  */
 export async function exportPresentation(
@@ -76,11 +82,15 @@ export async function exportPresentation(
   const vt = new VirtualTerminal(session.width, session.height);
 
   // Create renderer (headless mode)
-  const renderer = createRenderer(deck.config.theme);
+  const renderer = createRenderer(deck.config.theme, deck.config.settings);
 
   // Set screen dimensions for export
   setScreenDimensions(renderer.screen, session.width, session.height);
 
+  // Status bar, as shown when presenting
+  const statusItems = getStatusBarItems(deck.config.settings);
+  const statusBar = statusItems.length > 0 ? createStatusBar(renderer.screen, renderer.theme) : null;
+
   const slideTime = options.slideTime ?? 3; // seconds per slide
   const framesPerSlide = session.fps * slideTime;
 
@@ -94,6 +104,9 @@ export async function exportPresentation(
 
       // Render slide
       await renderSlide(renderer, slide);
+      if (statusBar) {
+        updateStatusBar(statusBar, statusItems, getStatusBarInfo(deck, i), renderer.theme);
+      }
 
       // Capture frames for this slide
       for (let f = 0; f < framesPerSlide; f++) {
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdirSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { lintDeck, findUnknownColorTokens } from '../deck-linter'
+
+describe('findUnknownColorTokens', () => {
+  it('finds tokens the theme engine does not support', () => {
+    expect(findUnknownColorTokens('{RED}stop{/} {GREEN}go{/} {RED}again{/}')).toEqual(['RED'])
+  })
+
+  it('ignores tokens inside code', () => {
+    expect(findUnknownColorTokens('`{RED}`\n\n```\n{BLUE}\n```')).toEqual([])
+  })
+})
+
+describe('lintDeck', () => {
+  const DECK_DIR = join(__dirname, '.test-lint-deck')
+
+  beforeEach(() => {
+    mkdirSync(DECK_DIR, { recursive: true })
+  })
+
+  afterEach(() => {
+    rmSync(DECK_DIR, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  function createSlide(name: string, frontmatter: string, body: string = 'Content'): string {
+    const path = join(DECK_DIR, name)
+    writeFileSync(path, `---\n${frontmatter}\n---\n\n${body}\n`)
+    return path
+  }
+
+  it('reports no issues for a clean deck', async () => {
+    createSlide('01-intro.md', 'title: Intro\nbigText: HELLO', '{GREEN}Welcome{/}')
+
+    const result = await lintDeck(DECK_DIR)
+
+    expect(result).toEqual({ issues: [], slideCount: 1, errorCount: 0, warningCount: 0 })
+  })
+
+  it('collects every invalid slide', async () => {
+    createSlide('01-ok.md', 'title: OK')
+    const first = createSlide('02-bad.md', 'bigText: NO TITLE')
+    const second = createSlide('03-bad.md', 'title: [unclosed')
+
+    const result = await lintDeck(DECK_DIR)
+
+    expect(result.slideCount).toBe(1)
+    expect(result.errorCount).toBe(2)
+    expect(result.issues.map((issue) => issue.file)).toEqual([first, second])
+    expect(result.issues.every((issue) => issue.rule === 'slide')).toBe(true)
+  })
+
+  it('reports unknown color tokens', async () => {
+    createSlide('01-colors.md', 'title: Colors', '{RED}danger{/}')
+
+    const { issues } = await lintDeck(DECK_DIR)
+
+    expect(issues).toMatchObject([
+      { severity: 'error', rule: 'color-token', message: 'Unknown color token {RED}', slide: 'Colors' },
+    ])
+  })
+
+  it('reports mermaid diagrams that cannot be parsed', async () => {
+    createSlide('01-diagram.md', 'title: Diagram', '```mermaid\nnot a diagram\n```')
+
+    const { issues } = await lintDeck(DECK_DIR)
+
+    expect(issues).toMatchObject([{ severity: 'error', rule: 'mermaid' }])
+  })
+
+  it('keeps mermaid-ascii from logging while checking diagrams', async () => {
+    const debug = vi.spyOn(console, 'debug')
+    createSlide('01-diagram.md', 'title: Diagram', '```mermaid\ngraph LR\n  A --> B\n```')
+
+    const { issues } = await lintDeck(DECK_DIR)
+
+    expect(issues).toEqual([])
+    expect(debug).not.toHaveBeenCalled()
+  })
+
+  it('warns about unknown gradients', async () => {
+    createSlide('01-big.md', 'title: Big\nbigText: HI\ngradient: rainbow')
+
+    const { issues } = await lintDeck(DECK_DIR)
+
+    expect(issues).toMatchObject([{ severity: 'warning', rule: 'gradient' }])
+    expect(issues[0].message).toContain('rainbow')
+  })
+
+  it('reports bigText characters figlet cannot render', async () => {
+    createSlide('01-big.md', 'title: Big\nbigText: "GO →"')
+
+    const { issues } = await lintDeck(DECK_DIR)
+
+    expect(issues).toMatchObject([{ severity: 'error', rule: 'big-text' }])
+    expect(issues[0].message).toContain('→')
+  })
+
+  it('warns about invalid slide time budgets', async () => {
+    createSlide('01-timed.md', 'title: Timed\nmeta:\n  duration: soon')
+
+    const { issues } = await lintDeck(DECK_DIR)
+
+    expect(issues).toMatchObject([{ severity: 'warning', rule: 'duration' }])
+  })
+
+  it('warns about invalid auto-play durations', async () => {
+    createSlide('01-timed.md', 'title: Timed\nduration: later')
+
+    const { issues } = await lintDeck(DECK_DIR)
+
+    expect(issues).toMatchObject([{ severity: 'warning', rule: 'duration', message: expect.stringContaining('Invalid duration') }])
+  })
+
+  it('warns about content overflowing the default window', async () => {
+    const body = Array.from({ length: 40 }, (_, i) => `Line ${i + 1}`).join('\n')
+    createSlide('01-long.md', 'title: Long', body)
+
+    const { issues, warningCount } = await lintDeck(DECK_DIR)
+
+    expect(warningCount).toBe(1)
+    expect(issues[0].rule).toBe('overflow')
+  })
+
+  it('allows taller content when windows auto-fit', async () => {
+    const body = Array.from({ length: 30 }, (_, i) => `Line ${i + 1}`).join('\n')
+    createSlide('01-long.md', 'title: Long', body)
+    writeFileSync(join(DECK_DIR, 'deck.config.js'), 'export default { settings: { autoFit: true } }\n')
+
+    const { issues } = await lintDeck(DECK_DIR)
+
+    expect(issues).toEqual([])
+  })
+
+  it('checks overflow against the window of the slide layout', async () => {
+    const body = Array.from({ length: 30 }, (_, i) => `Line ${i + 1}`).join('\n')
+    createSlide('01-long.md', 'title: Long\nlayout: fullscreen', body)
+
+    const { issues } = await lintDeck(DECK_DIR)
+
+    expect(issues).toEqual([])
+  })
+
+  it('reports the slide line for deck files', async () => {
+    const file = join(DECK_DIR, 'talk.md')
+    writeFileSync(file, '---\ntitle: One\n---\nok\n\n---\ntitle: Two\n---\n{RED}x{/}\n')
+
+    const { issues } = await lintDeck(file)
+
+    expect(issues).toMatchObject([{ rule: 'color-token', file, line: 6 }])
+  })
+
+  it('reports a deck without slides', async () => {
+    const result = await lintDeck(DECK_DIR)
+
+    expect(result.issues).toMatchObject([{ severity: 'error', rule: 'deck', message: `No slides found in ${DECK_DIR}` }])
+  })
+
+  it('reports a deck that cannot be loaded as a single error', async () => {
+    writeFileSync(join(DECK_DIR, 'deck.order'), 'missing.md\n')
+
+    const result = await lintDeck(DECK_DIR)
+
+    expect(result.issues).toMatchObject([{ severity: 'error', rule: 'deck', file: DECK_DIR }])
+    expect(result.slideCount).toBe(0)
+  })
+})
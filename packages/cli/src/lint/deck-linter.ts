@@ -0,0 +1,241 @@
+/**
+ * Deck Linter
+ *
+ * Validates a deck without presenting it. Loads the deck while collecting
+ * every slide error, then checks each slide for problems that would only
+ * show up on screen: unknown color tokens, mermaid diagrams that fail to
+ * parse, unknown gradients, bigText that figlet cannot render, invalid
+ * slide time budgets, and content that overflows its window and has to be
+ * scrolled.
+ */
+
+import { loadDeck, type Deck } from '../core/deck-loader.js';
+import { normalizeBigText } from '../core/content-processor.js';
+import { resolveSlideTheme } from '../core/theme-resolver.js';
+import { extractMermaidBlocks, canRenderMermaid } from '../core/utils/mermaid.js';
+import type { Settings } from '../schemas/config.js';
+import type { Slide } from '../schemas/slide.js';
+import { COLOR_TOKEN_PATTERN, type Theme } from '../schemas/theme.js';
+import { buildSlideFragments } from '../renderer/slide-renderer.js';
+import { findUnrenderableChars } from '../renderer/text-generator.js';
+import { parseDuration } from '../core/duration.js';
+import {
+  countContentRows,
+  getWindowBounds,
+  getWindowContentSize,
+} from '../renderer/window-manager.js';
+
+/**
+ * Severity of a lint issue. Errors fail the lint run.
+ */
+export type LintSeverity = 'error' | 'warning';
+
+/**
+ * A problem found in a deck
+ */
+export interface LintIssue {
+  severity: LintSeverity
+  /** Rule that found the issue (e.g. 'color-token') */
+  rule: string
+  message: string
+  /** File the issue is in */
+  file: string
+  /** 1-based line number, when known */
+  line?: number
+  /** Title of the slide the issue is in */
+  slide?: string
+}
+
+/**
+ * Result of linting a deck
+ */
+export interface LintResult {
+  issues: LintIssue[]
+  /** Number of slides that loaded */
+  slideCount: number
+  errorCount: number
+  warningCount: number
+}
+
+/**
+ * Screen size used for the overflow check (the default export size)
+ */
+export const LINT_SCREEN_SIZE = { width: 120, height: 40 };
+
+const TOKEN_PATTERN = /\{([A-Z][A-Z0-9_]*)\}/g;
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})/;
+const INLINE_CODE_PATTERN = /(`+)[^`][\s\S]*?\1/g;
+
+/**
+ * Remove fenced code blocks and inline code from a slide body.
+ */
+function stripCode(body: string): string {
+  const lines: string[] = [];
+  let fence: string | null = null;
+
+  for (const line of body.split('\n')) {
+    const fenceMatch = FENCE_PATTERN.exec(line);
+
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (!fence) fence = marker;
+      else if (marker[0] === fence[0] && marker.length >= fence.length) fence = null;
+    } else if (!fence) {
+      lines.push(line.replace(INLINE_CODE_PATTERN, ''));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Find color tokens that are not supported by the theme engine.
+ *
+ * @param body - The slide body
+ * @returns Unique unknown token names, in order of appearance
+ *
+ * @example
+ * findUnknownColorTokens('{RED}stop{/} {GREEN}go{/}') // ['RED']
+ */
+export function findUnknownColorTokens(body: string): string[] {
+  const known = new RegExp(`^${COLOR_TOKEN_PATTERN.source}$`);
+  const unknown = new Set<string>();
+
+  for (const [token, name] of stripCode(body).matchAll(TOKEN_PATTERN)) {
+    if (!known.test(token)) unknown.add(name);
+  }
+
+  return [...unknown];
+}
+
+/**
+ * Check a single slide for rendering problems
+ *
+ * @param slide - The slide to check
+ * @param theme - Theme the slide is rendered with
+ * @param settings - Deck settings that affect the window size (layout, autoFit)
+ * @returns Issues found in the slide
+ */
+export async function lintSlide(
+  slide: Slide,
+  theme: Theme,
+  settings: Partial<Settings> = {}
+): Promise<LintIssue[]> {
+  const { frontmatter, body } = slide;
+  const issues: LintIssue[] = [];
+
+  const report = (severity: LintSeverity, rule: string, message: string) => {
+    issues.push({
+      severity,
+      rule,
+      message,
+      file: slide.sourcePath,
+      line: slide.sourceLine,
+      slide: frontmatter.title,
+    });
+  };
+
+  for (const token of findUnknownColorTokens(body)) {
+    report('error', 'color-token', `Unknown color token {${token}}`);
+  }
+
+  for (const block of extractMermaidBlocks(body)) {
+    if (!canRenderMermaid(block)) {
+      const firstLine = block.split('\n')[0];
+      report('error', 'mermaid', `Mermaid diagram cannot be parsed: ${firstLine}`);
+    }
+  }
+
+  if (frontmatter.gradient && !theme.gradients[frontmatter.gradient]) {
+    const available = Object.keys(theme.gradients).join(', ');
+    report('warning', 'gradient', `Unknown gradient "${frontmatter.gradient}" (available: ${available})`);
+  }
+
+  for (const line of normalizeBigText(frontmatter.bigText)) {
+    const chars = findUnrenderableChars(line);
+    if (chars.length > 0) {
+      report('error', 'big-text', `bigText "${line}" has characters figlet cannot render: ${chars.join(' ')}`);
+    }
+  }
+
+  const durations = { duration: frontmatter.duration, 'meta.duration': frontmatter.meta?.duration };
+  for (const [field, duration] of Object.entries(durations)) {
+    if (duration !== undefined && parseDuration(duration) === undefined) {
+      report('warning', 'duration', `Invalid ${field} ${JSON.stringify(duration)} (e.g. 2, '90s' or '1:30')`);
+    }
+  }
+
+  const { width, height } = LINT_SCREEN_SIZE;
+  const bounds = getWindowBounds(frontmatter.layout ?? settings.layout ?? 'random', 0, width, height);
+  const size = getWindowContentSize(theme, bounds);
+  // Auto-fit windows grow up to the screen height
+  const fitRows = settings.autoFit ? size.height + height - bounds.height : size.height;
+  const fragments = await buildSlideFragments(size.width, theme, slide);
+  const rows = countContentRows(fragments.join('\n'), size.width);
+  if (rows > fitRows) {
+    report(
+      'warning',
+      'overflow',
+      `Content is ${rows} rows tall but the ${settings.autoFit ? 'screen' : 'window'} fits ${fitRows} ` +
+      `(${width}x${height} screen), so the slide has to be scrolled`
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * Lint a deck
+ *
+ * Collects all slide parse and validation errors instead of stopping at
+ * the first one, then checks every slide that loaded. A deck that cannot
+ * be loaded at all (e.g. a broken deck.config) yields a single error.
+ *
+ * @param deckPath - Slides directory or deck file
+ * @returns All issues found, with error and warning counts
+ */
+export async function lintDeck(deckPath: string): Promise<LintResult> {
+  const issues: LintIssue[] = [];
+  let deck: Deck;
+
+  try {
+    deck = await loadDeck(deckPath, { collectErrors: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return summarize([{ severity: 'error', rule: 'deck', message, file: deckPath }], 0);
+  }
+
+  if (deck.slides.length === 0 && !deck.errors?.length) {
+    issues.push({ severity: 'error', rule: 'deck', message: `No slides found in ${deckPath}`, file: deckPath });
+  }
+
+  for (const error of deck.errors ?? []) {
+    issues.push({
+      severity: 'error',
+      rule: 'slide',
+      message: error.message,
+      file: error.filePath,
+      line: error.line,
+    });
+  }
+
+  for (const slide of deck.slides) {
+    // Theme errors are already reported by loadDeck
+    const theme = await resolveSlideTheme(slide, deck.config.theme).catch(() => deck.config.theme);
+    issues.push(...await lintSlide(slide, theme, deck.config.settings));
+  }
+
+  return summarize(issues, deck.slides.length);
+}
+
+/**
+ * Count the errors and warnings of a lint run
+ */
+function summarize(issues: LintIssue[], slideCount: number): LintResult {
+  return {
+    issues,
+    slideCount,
+    errorCount: issues.filter((issue) => issue.severity === 'error').length,
+    warningCount: issues.filter((issue) => issue.severity === 'warning').length,
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { getAutoAdvanceInterval, getSlideDelay, isLooping } from '../auto-advance';
+import type { Presenter, PresentOptions } from '../types';
+import type { Settings } from '../../schemas/config';
+import type { Slide } from '../../schemas/slide';
+
+function createSlide(duration?: string, body = ''): Slide {
+  return {
+    frontmatter: { title: 'Slide', transition: 'instant', duration, fragments: true },
+    body,
+    notes: '',
+    sourcePath: '/slides/01.md',
+    index: 0,
+  };
+}
+
+function createPresenter(options: PresentOptions, settings?: Partial<Settings>): Presenter {
+  return { options, deck: { config: { settings } } } as unknown as Presenter;
+}
+
+describe('getSlideDelay', () => {
+  it('uses the interval for slides without a duration', () => {
+    expect(getSlideDelay(createSlide(), 5000)).toBe(5000);
+  });
+
+  it('lets the slide duration override the interval', () => {
+    expect(getSlideDelay(createSlide('90s'), 5000)).toBe(90000);
+    expect(getSlideDelay(createSlide('0:30'), 5000)).toBe(30000);
+  });
+
+  it('splits the slide time between its fragments', () => {
+    const body = 'Intro\n- One\n- Two';
+
+    expect(getSlideDelay(createSlide('90s', body), 5000)).toBe(30000);
+    expect(getSlideDelay(createSlide(undefined, body), 6000)).toBe(2000);
+  });
+
+  it('ignores invalid durations', () => {
+    expect(getSlideDelay(createSlide('soon'), 5000)).toBe(5000);
+  });
+
+  it('never advances without auto-play', () => {
+    expect(getSlideDelay(createSlide('90s'), 0)).toBe(0);
+  });
+});
+
+describe('getAutoAdvanceInterval', () => {
+  it('uses settings.autoAdvance', () => {
+    expect(getAutoAdvanceInterval(createPresenter({}, { autoAdvance: 3000 }))).toBe(3000);
+    expect(getAutoAdvanceInterval(createPresenter({}))).toBe(0);
+  });
+
+  it('lets the option override the settings', () => {
+    expect(getAutoAdvanceInterval(createPresenter({ autoAdvance: 10000 }, { autoAdvance: 3000 }))).toBe(10000);
+    expect(getAutoAdvanceInterval(createPresenter({ autoAdvance: 0 }, { autoAdvance: 3000 }))).toBe(0);
+  });
+});
+
+describe('isLooping', () => {
+  it('uses settings.loop', () => {
+    expect(isLooping(createPresenter({}, { loop: true }))).toBe(true);
+    expect(isLooping(createPresenter({}))).toBe(false);
+  });
+
+  it('lets the option override the settings', () => {
+    expect(isLooping(createPresenter({ loop: true }, { loop: false }))).toBe(true);
+    expect(isLooping(createPresenter({ loop: false }, { loop: true }))).toBe(false);
+  });
+});
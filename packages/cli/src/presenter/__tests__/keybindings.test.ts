@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { formatKeyName, getHotkeys, getKeyAction, getKeybindings } from '../keybindings';
+import { DEFAULT_KEYBINDINGS, KeybindingsSchema, SettingsSchema } from '../../schemas/config';
+
+describe('getKeybindings', () => {
+  it('uses the defaults without settings', () => {
+    expect(getKeybindings()).toBe(DEFAULT_KEYBINDINGS);
+    expect(getKeybindings({ loop: true })).toBe(DEFAULT_KEYBINDINGS);
+  });
+});
+
+describe('getKeyAction', () => {
+  it('finds the action bound to a key', () => {
+    expect(getKeyAction(DEFAULT_KEYBINDINGS, 'space')).toBe('next');
+    expect(getKeyAction(DEFAULT_KEYBINDINGS, 'C-c')).toBe('quit');
+    expect(getKeyAction(DEFAULT_KEYBINDINGS, 'x')).toBeUndefined();
+  });
+
+  it('quits with Ctrl+C when the quit keys are rebound', () => {
+    const keybindings = getKeybindings(SettingsSchema.parse({ keybindings: { quit: ['x'] } }));
+
+    expect(getKeyAction(keybindings, 'x')).toBe('quit');
+    expect(getKeyAction(keybindings, 'C-c')).toBe('quit');
+    expect(getKeyAction(keybindings, 'q')).toBeUndefined();
+  });
+});
+
+describe('formatKeyName', () => {
+  it('formats named keys and modifiers', () => {
+    expect(formatKeyName('right')).toBe('→');
+    expect(formatKeyName('escape')).toBe('Esc');
+    expect(formatKeyName('C-c')).toBe('Ctrl+C');
+    expect(formatKeyName('S-tab')).toBe('Shift+Tab');
+    expect(formatKeyName('f5')).toBe('F5');
+    expect(formatKeyName('n')).toBe('n');
+  });
+});
+
+describe('getHotkeys', () => {
+  it('lists actions in help order with the number keys after navigation', () => {
+    const hotkeys = getHotkeys();
+
+    expect(hotkeys[0]).toEqual({ keys: 'Space / Enter / → / n', description: 'Next slide' });
+    expect(hotkeys[4]).toEqual({ keys: '0-9', description: 'Jump to slide' });
+  });
+
+  it('skips actions without keys', () => {
+    const hotkeys = getHotkeys(KeybindingsSchema.parse({ first: [], last: [] }));
+
+    expect(hotkeys.map((hotkey) => hotkey.description)).not.toContain('First slide');
+  });
+});
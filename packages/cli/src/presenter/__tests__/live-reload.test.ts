@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { join, dirname } from 'path';
+import { rmSync, mkdirSync, writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import * as fs from 'node:fs';
+import {
+  findReloadedSlideIndex,
+  formatReloadError,
+  reloadDeck,
+  watchDirectory,
+} from '../live-reload';
+import type { DeckWatcher, Presenter } from '../types';
+import { loadDeck } from '../../core/deck-loader';
+import { SlideParseError } from '../../core/slide';
+import { ValidationError } from '../../schemas/validation';
+import { createRenderer, destroyRenderer } from '../../renderer/screen';
+import { createTalkTimer } from '../talk-timer';
+import { DEFAULT_THEME } from '../../schemas/theme';
+import type { Slide } from '../../schemas/slide';
+
+vi.mock('node:fs', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:fs')>();
+  return { ...actual, watch: vi.fn(actual.watch) };
+});
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+function createSlide(sourcePath: string, index: number): Slide {
+  return {
+    frontmatter: { title: `Slide ${index}`, transition: 'instant' },
+    body: '',
+    sourcePath,
+    index,
+  };
+}
+
+describe('findReloadedSlideIndex', () => {
+  it('matches the previous slide by source path', () => {
+    const previous = createSlide('/deck/02-b.md', 1);
+    const slides = [
+      createSlide('/deck/01-a.md', 0),
+      createSlide('/deck/01b-new.md', 1),
+      createSlide('/deck/02-b.md', 2),
+    ];
+
+    expect(findReloadedSlideIndex(previous, slides, 1)).toBe(2);
+  });
+
+  it('falls back to the previous index when the slide was removed', () => {
+    const previous = createSlide('/deck/02-b.md', 1);
+    const slides = [
+      createSlide('/deck/01-a.md', 0),
+      createSlide('/deck/03-c.md', 1),
+    ];
+
+    expect(findReloadedSlideIndex(previous, slides, 1)).toBe(1);
+  });
+
+  it('clamps the fallback index to the new deck length', () => {
+    const slides = [createSlide('/deck/01-a.md', 0)];
+
+    expect(findReloadedSlideIndex(undefined, slides, 5)).toBe(0);
+  });
+
+  it('keeps the previous index for slides sharing a deck file', () => {
+    const previous = createSlide('/deck/deck.md', 2);
+    const slides = [0, 1, 2, 3].map((index) => createSlide('/deck/deck.md', index));
+
+    expect(findReloadedSlideIndex(previous, slides, 2)).toBe(2);
+  });
+});
+
+describe('formatReloadError', () => {
+  it('formats SlideParseError with file path', () => {
+    const error = new SlideParseError('Bad frontmatter', '/deck/01-a.md');
+
+    const message = formatReloadError(error);
+
+    expect(message).toContain('/deck/01-a.md');
+    expect(message).toContain('Bad frontmatter');
+  });
+
+  it('uses ValidationError message', () => {
+    const error = new ValidationError('Invalid frontmatter:\n  - title: Slide must have a title');
+
+    expect(formatReloadError(error)).toBe(error.message);
+  });
+
+  it('stringifies unknown errors', () => {
+    expect(formatReloadError('boom')).toBe('boom');
+  });
+});
+
+describe('reloadDeck', () => {
+  const DECK_DIR = join(__dirname, '.test-reload-deck');
+
+  function writeSlide(name: string, content: string): void {
+    writeFileSync(join(DECK_DIR, name), content);
+  }
+
+  async function createPresenter(): Promise<{ presenter: Presenter; deckWatcher: DeckWatcher }> {
+    const deck = await loadDeck(DECK_DIR);
+    const renderer = createRenderer(DEFAULT_THEME);
+
+    const deckWatcher: DeckWatcher = {
+      slidesDir: DECK_DIR,
+      watchers: [],
+      debounceTimer: null,
+      errorOverlay: null,
+    };
+
+    const presenter: Presenter = {
+      deck,
+      options: {},
+      renderer,
+      currentSlide: 1,
+      currentFragment: 0,
+      isAnimating: false,
+      blackout: null,
+      frozen: false,
+      notesWindow: null,
+      notesServer: null,
+      remoteServer: null,
+      talkTimer: createTalkTimer(),
+      notesTicker: null,
+      autoAdvance: null,
+      progressBar: null,
+      statusBar: null,
+      statusTicker: null,
+      deckWatcher,
+      resizeTimer: null,
+      sizeWarning: null,
+    };
+
+    return { presenter, deckWatcher };
+  }
+
+  beforeEach(() => {
+    mkdirSync(DECK_DIR, { recursive: true });
+    writeSlide('01-a.md', '---\ntitle: A\ntransition: instant\n---\nFirst');
+    writeSlide('02-b.md', '---\ntitle: B\ntransition: instant\n---\nSecond');
+  });
+
+  afterEach(() => {
+    rmSync(DECK_DIR, { recursive: true, force: true });
+  });
+
+  it('reloads changed slides and keeps the current slide', async () => {
+    const { presenter, deckWatcher } = await createPresenter();
+
+    writeSlide('01-0-new.md', '---\ntitle: New\ntransition: instant\n---\nInserted');
+    writeSlide('02-b.md', '---\ntitle: B (edited)\ntransition: instant\n---\nSecond');
+
+    await reloadDeck(presenter, deckWatcher);
+
+    expect(presenter.deck.slides).toHaveLength(3);
+    expect(presenter.currentSlide).toBe(2);
+    expect(presenter.deck.slides[2].frontmatter.title).toBe('B (edited)');
+    expect(presenter.renderer.windowStack).toHaveLength(3);
+    expect(deckWatcher.errorOverlay).toBeNull();
+    expect(presenter.isAnimating).toBe(false);
+
+    destroyRenderer(presenter.renderer);
+  });
+
+  it('keeps the previous deck and shows an overlay on parse errors', async () => {
+    const { presenter, deckWatcher } = await createPresenter();
+    const previousDeck = presenter.deck;
+
+    writeSlide('02-b.md', '---\ntransition: instant\n---\nMissing title');
+
+    await reloadDeck(presenter, deckWatcher);
+
+    expect(presenter.deck).toBe(previousDeck);
+    expect(presenter.currentSlide).toBe(1);
+    expect(deckWatcher.errorOverlay).not.toBeNull();
+    expect(deckWatcher.errorOverlay!.getContent()).toContain('title');
+    expect(presenter.isAnimating).toBe(false);
+
+    destroyRenderer(presenter.renderer);
+  });
+
+  it('removes the overlay after a successful reload', async () => {
+    const { presenter, deckWatcher } = await createPresenter();
+
+    writeSlide('02-b.md', '---\ntransition: instant\n---\nMissing title');
+    await reloadDeck(presenter, deckWatcher);
+    expect(deckWatcher.errorOverlay).not.toBeNull();
+
+    writeSlide('02-b.md', '---\ntitle: B\ntransition: instant\n---\nFixed');
+    await reloadDeck(presenter, deckWatcher);
+
+    expect(deckWatcher.errorOverlay).toBeNull();
+    expect(presenter.deck.slides[1].body).toBe('Fixed');
+
+    destroyRenderer(presenter.renderer);
+  });
+});
+
+describe('watchDirectory', () => {
+  const WATCH_DIR = join(__dirname, '.test-watch-deck');
+
+  beforeEach(() => {
+    mkdirSync(join(WATCH_DIR, '02-section'), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(WATCH_DIR, { recursive: true, force: true });
+  });
+
+  it('watches each subdirectory without recursive watch support', async () => {
+    // Linux before Node 19.1
+    vi.mocked(fs.watch).mockImplementationOnce(() => {
+      throw Object.assign(new Error('recursive watch unavailable'), {
+        code: 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM',
+      });
+    });
+
+    const changed: (string | null)[] = [];
+    const watchers = watchDirectory(WATCH_DIR, (filename) => changed.push(filename));
+
+    expect(watchers).toHaveLength(2);
+
+    writeFileSync(join(WATCH_DIR, '02-section', '01-slide.md'), '---\ntitle: A\n---\n');
+    await vi.waitFor(() => expect(changed).toContain(join('02-section', '01-slide.md')));
+
+    for (const watcher of watchers) watcher.close();
+  });
+
+  it('rethrows other watch errors', () => {
+    vi.mocked(fs.watch).mockImplementationOnce(() => {
+      throw Object.assign(new Error('no such directory'), { code: 'ENOENT' });
+    });
+
+    expect(() => watchDirectory(WATCH_DIR, () => {})).toThrow('no such directory');
+  });
+});
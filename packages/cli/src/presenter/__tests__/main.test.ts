@@ -1,9 +1,20 @@
 import { describe, it, expect, vi } from 'vitest';
 import { jumpToSlide } from '../main';
-import { nextSlide, prevSlide } from '../navigation';
+import { nextSlide, prevSlide, scrollSlide, showSlide } from '../navigation';
+import {
+  formatSlideList,
+  formatGotoPrompt,
+  formatHelpOverlay,
+  handleNotesCommand,
+  setupControls,
+} from '../keyboard-controls';
 import type { Presenter } from '../main';
 import { createRenderer, destroyRenderer } from '../../renderer/screen';
+import { createStatusBar } from '../../renderer/status-bar';
+import { createTalkTimer } from '../talk-timer';
+import { createAutoAdvance, restartAutoAdvance, stopAutoAdvance } from '../auto-advance';
 import { DEFAULT_THEME } from '../../schemas/theme';
+import { SettingsSchema, DEFAULT_KEYBINDINGS } from '../../schemas/config';
 import type { Deck } from '../../core/slide';
 import type { Slide } from '../../schemas/slide';
 
@@ -40,12 +51,25 @@ function createTestPresenter(slideCount: number): Presenter {
 
   return {
     deck,
+    options: {},
     renderer,
     currentSlide: 0,
+    currentFragment: 0,
     isAnimating: false,
+    blackout: null,
+    frozen: false,
     notesWindow: null,
-    autoAdvanceTimer: null,
+    notesServer: null,
+    remoteServer: null,
+    talkTimer: createTalkTimer(),
+    notesTicker: null,
+    autoAdvance: null,
     progressBar: null,
+    statusBar: null,
+    statusTicker: null,
+    deckWatcher: null,
+    resizeTimer: null,
+    sizeWarning: null,
   };
 }
 
@@ -61,6 +85,47 @@ describe('Presenter Navigation', () => {
       destroyRenderer(presenter.renderer);
     });
 
+    it('shows a slide left mid-fragments in full below the target', async () => {
+      const presenter = createTestPresenter(10);
+      for (const slide of presenter.deck.slides) {
+        slide.frontmatter.transition = 'instant';
+      }
+      presenter.deck.slides[2].body = 'First\n<!-- pause -->\nSecond\n<!-- pause -->\nThird';
+
+      await jumpToSlide(presenter, 2);
+      expect(presenter.renderer.windowStack[2].getContent()).not.toContain('Third');
+
+      await jumpToSlide(presenter, 5);
+
+      expect(presenter.renderer.windowStack).toHaveLength(6);
+      expect(presenter.renderer.windowStack[2].getContent()).toContain('Third');
+      destroyRenderer(presenter.renderer);
+    });
+
+    it('ignores navigation until the jump has rendered', async () => {
+      const presenter = createTestPresenter(10);
+
+      const jump = jumpToSlide(presenter, 5);
+      expect(presenter.isAnimating).toBe(true);
+      await Promise.all([jumpToSlide(presenter, 2), prevSlide(presenter), jump]);
+
+      expect(presenter.currentSlide).toBe(5);
+      expect(presenter.isAnimating).toBe(false);
+      expect(presenter.renderer.windowStack).toHaveLength(6);
+      expect(presenter.renderer.stackBase).toBe(0);
+      destroyRenderer(presenter.renderer);
+    });
+
+    it('updates the status bar', async () => {
+      const presenter = createTestPresenter(10);
+      presenter.statusBar = createStatusBar(presenter.renderer.screen, DEFAULT_THEME);
+
+      await jumpToSlide(presenter, 2);
+
+      expect(presenter.statusBar.getContent()).toContain('3/10');
+      destroyRenderer(presenter.renderer);
+    });
+
     it('checks bounds - ignores negative index', async () => {
       const presenter = createTestPresenter(10);
       presenter.currentSlide = 5;
@@ -164,6 +229,20 @@ describe('Presenter Navigation', () => {
     });
   });
 
+  describe('showSlide', () => {
+    it('allows navigation again after a slide fails to render', async () => {
+      const presenter = createTestPresenter(3);
+      presenter.deck.slides[1].frontmatter.theme = './missing-theme.yml';
+
+      await expect(showSlide(presenter, 1)).rejects.toThrow();
+
+      expect(presenter.isAnimating).toBe(false);
+      await showSlide(presenter, 2);
+      expect(presenter.currentSlide).toBe(2);
+      destroyRenderer(presenter.renderer);
+    });
+  });
+
   describe('nextSlide', () => {
     it('advances to next slide', async () => {
       const presenter = createTestPresenter(5);
@@ -196,6 +275,18 @@ describe('Presenter Navigation', () => {
       expect(presenter.currentSlide).toBe(0);
       destroyRenderer(presenter.renderer);
     });
+
+    it('lets the loop option override the settings', async () => {
+      const presenter = createTestPresenter(3);
+      presenter.deck.config.settings = { loop: true } as any;
+      presenter.options = { loop: false };
+      presenter.currentSlide = 2;
+
+      await nextSlide(presenter);
+
+      expect(presenter.currentSlide).toBe(2);
+      destroyRenderer(presenter.renderer);
+    });
   });
 
   describe('prevSlide', () => {
@@ -209,6 +300,18 @@ describe('Presenter Navigation', () => {
       destroyRenderer(presenter.renderer);
     });
 
+    it('ignores going back while a slide is animating', async () => {
+      const presenter = createTestPresenter(5);
+      presenter.currentSlide = 2;
+      presenter.isAnimating = true;
+
+      await prevSlide(presenter);
+
+      expect(presenter.currentSlide).toBe(2);
+      expect(presenter.renderer.windowStack).toHaveLength(0);
+      destroyRenderer(presenter.renderer);
+    });
+
     it('does not go before first slide when loop is disabled', async () => {
       const presenter = createTestPresenter(3);
       presenter.currentSlide = 0;
@@ -241,5 +344,365 @@ describe('Presenter Navigation', () => {
       expect(presenter.renderer.windowStack.length).toBe(3);
       destroyRenderer(presenter.renderer);
     });
+
+    it('keeps the windows of the slides before', async () => {
+      const presenter = createTestPresenter(5);
+      await jumpToSlide(presenter, 3);
+      const [first, second] = presenter.renderer.windowStack;
+
+      await prevSlide(presenter);
+
+      expect(presenter.renderer.windowStack.length).toBe(3);
+      expect(presenter.renderer.windowStack[0] === first).toBe(true);
+      expect(presenter.renderer.windowStack[1] === second).toBe(true);
+      destroyRenderer(presenter.renderer);
+    });
+  });
+});
+
+describe('Fragments', () => {
+  function createFragmentPresenter(): Presenter {
+    const presenter = createTestPresenter(2);
+    presenter.deck.slides = presenter.deck.slides.map((slide) => ({
+      ...slide,
+      frontmatter: { title: slide.frontmatter.title, transition: 'instant', fragments: true },
+      body: 'Intro\n- one\n- two',
+    }));
+    return presenter;
+  }
+
+  function topContent(presenter: Presenter): string {
+    const { windowStack } = presenter.renderer;
+    return windowStack[windowStack.length - 1].getContent();
+  }
+
+  it('reveals fragments before advancing to the next slide', async () => {
+    const presenter = createFragmentPresenter();
+    await jumpToSlide(presenter, 0);
+
+    expect(topContent(presenter)).not.toContain('one');
+
+    await nextSlide(presenter);
+    expect(presenter.currentSlide).toBe(0);
+    expect(presenter.currentFragment).toBe(1);
+    expect(topContent(presenter)).toContain('one');
+    expect(topContent(presenter)).not.toContain('two');
+
+    await nextSlide(presenter);
+    await nextSlide(presenter);
+    expect(presenter.currentSlide).toBe(1);
+    expect(presenter.currentFragment).toBe(0);
+    destroyRenderer(presenter.renderer);
+  });
+
+  it('hides fragments in reverse when going back', async () => {
+    const presenter = createFragmentPresenter();
+    await jumpToSlide(presenter, 1);
+
+    await prevSlide(presenter);
+    expect(presenter.currentSlide).toBe(0);
+    expect(presenter.currentFragment).toBe(2);
+    expect(topContent(presenter)).toContain('two');
+
+    await prevSlide(presenter);
+    expect(presenter.currentFragment).toBe(1);
+    expect(topContent(presenter)).not.toContain('two');
+    destroyRenderer(presenter.renderer);
+  });
+});
+
+describe('formatSlideList', () => {
+  function createSlide(title: string, index: number, section?: string): Slide {
+    return {
+      frontmatter: { title, transition: 'instant' },
+      body: '',
+      sourcePath: `/slides/${index}.md`,
+      section,
+      index,
+    };
+  }
+
+  it('lists slides with the current slide marked', () => {
+    const slides = [createSlide('Intro', 0), createSlide('End', 1)];
+
+    expect(formatSlideList(slides, 1)).toEqual(['  0: Intro', '▶ 1: End']);
+  });
+
+  it('groups slides under their section', () => {
+    const slides = [
+      createSlide('Intro', 0),
+      createSlide('Overview', 1, 'Architecture'),
+      createSlide('Storage', 2, 'Architecture'),
+      createSlide('End', 3),
+    ];
+
+    expect(formatSlideList(slides, 2)).toEqual([
+      '  0: Intro',
+      '{bold}Architecture{/bold}',
+      '    1: Overview',
+      '  ▶ 2: Storage',
+      '  3: End',
+    ]);
+  });
+
+  it('highlights the selected slide', () => {
+    const slides = [createSlide('Intro', 0), createSlide('Overview', 1, 'Architecture')];
+
+    expect(formatSlideList(slides, 0, 1)).toEqual([
+      '▶ 0: Intro',
+      '{bold}Architecture{/bold}',
+      '  {inverse}  1: Overview{/inverse}',
+    ]);
+  });
+});
+
+describe('formatGotoPrompt', () => {
+  const slides = Array.from({ length: 12 }, (_, i) => ({
+    frontmatter: { title: `Slide ${i}` },
+    body: '',
+    sourcePath: `/slides/${i}.md`,
+    index: i,
+  })) as Slide[];
+
+  it('shows the query and highlights the selected match', () => {
+    expect(formatGotoPrompt(slides, '1', [1, 10], 1)).toEqual([
+      '> 1█',
+      '',
+      '  1: Slide 1',
+      '{inverse}▶ 10: Slide 10{/inverse}',
+    ]);
+  });
+
+  it('reports when nothing matches', () => {
+    expect(formatGotoPrompt(slides, 'xyz', [], 0)).toContain('  No matching slides');
+  });
+
+  it('limits the number of matches', () => {
+    const matches = slides.map((slide) => slide.index);
+
+    expect(formatGotoPrompt(slides, 'slide', matches, 0)).toHaveLength(10);
+  });
+
+  it('escapes tags in the query', () => {
+    expect(formatGotoPrompt(slides, '{bold}', [], 0)[0]).toBe('> {open}bold{close}█');
+  });
+});
+
+describe('formatHelpOverlay', () => {
+  it('lists the configured keys', () => {
+    const lines = formatHelpOverlay({ ...DEFAULT_KEYBINDINGS, blackout: ['x'] });
+
+    expect(lines[0]).toMatch(/^\{bold\}Space \/ Enter \/ → \/ n +\{\/bold\}Next slide$/);
+    expect(lines).toContainEqual(expect.stringMatching(/^\{bold\}x +\{\/bold\}Black out the screen$/));
+  });
+});
+
+describe('keyboard overlays', () => {
+  // Instant transitions, so jumping far into the deck stays fast
+  function createKeyboardPresenter(slideCount: number): Presenter {
+    const presenter = createTestPresenter(slideCount);
+    for (const slide of presenter.deck.slides) {
+      slide.frontmatter.transition = 'instant';
+    }
+    setupControls(presenter);
+    return presenter;
+  }
+
+  function press(presenter: Presenter, ...keys: string[]): void {
+    for (const key of keys) {
+      const ch = key.length === 1 ? key : undefined;
+      presenter.renderer.screen.program.emit('keypress', ch, { name: key, full: key });
+    }
+  }
+
+  it('jumps to a multi-digit slide number from the go-to prompt', async () => {
+    const presenter = createKeyboardPresenter(15);
+
+    press(presenter, 'g', '1', '2', 'enter');
+
+    await vi.waitFor(() => expect(presenter.currentSlide).toBe(12));
+    destroyRenderer(presenter.renderer);
+  });
+
+  it('jumps to a slide by title', async () => {
+    const presenter = createKeyboardPresenter(15);
+    presenter.deck.slides[7].frontmatter.title = 'Architecture';
+
+    press(presenter, ':', 'a', 'r', 'c', 'h', 'enter');
+
+    await vi.waitFor(() => expect(presenter.currentSlide).toBe(7));
+    destroyRenderer(presenter.renderer);
+  });
+
+  it('ignores presentation keys while the prompt is open', async () => {
+    const presenter = createKeyboardPresenter(15);
+
+    press(presenter, 'g', 'n', 'escape', 'n');
+
+    await vi.waitFor(() => expect(presenter.currentSlide).toBe(1));
+    expect(presenter.renderer.screen.grabKeys).toBe(false);
+    destroyRenderer(presenter.renderer);
+  });
+
+  it('uses the configured keybindings', async () => {
+    const presenter = createKeyboardPresenter(5);
+    presenter.deck.config.settings = SettingsSchema.parse({ keybindings: { next: ['x'], last: ['z'] } });
+
+    press(presenter, 'x');
+    await vi.waitFor(() => expect(presenter.currentSlide).toBe(1));
+    await vi.waitFor(() => expect(presenter.isAnimating).toBe(false));
+    press(presenter, 'n', 'z');
+    await vi.waitFor(() => expect(presenter.currentSlide).toBe(4));
+    destroyRenderer(presenter.renderer);
+  });
+
+  it('blacks out the screen and holds the deck until restored', async () => {
+    const presenter = createKeyboardPresenter(5);
+
+    press(presenter, 'b', 'n');
+    handleNotesCommand(presenter, { type: 'jump', index: 3 });
+
+    expect(presenter.blackout).not.toBeNull();
+    expect(presenter.renderer.matrixRain.matrixInterval).toBeNull();
+    expect(presenter.currentSlide).toBe(0);
+
+    press(presenter, 'b', 'n');
+
+    await vi.waitFor(() => expect(presenter.currentSlide).toBe(1));
+    expect(presenter.blackout).toBeNull();
+    expect(presenter.renderer.matrixRain.matrixInterval).not.toBeNull();
+    destroyRenderer(presenter.renderer);
+  });
+
+  it('freezes the screen until unfrozen', async () => {
+    const presenter = createKeyboardPresenter(5);
+
+    press(presenter, 'f', 'n', 'l');
+
+    expect(presenter.frozen).toBe(true);
+    expect(presenter.renderer.screen.grabKeys).toBe(false);
+    expect(presenter.renderer.matrixRain.matrixInterval).toBeNull();
+
+    press(presenter, 'f', 'n');
+
+    await vi.waitFor(() => expect(presenter.currentSlide).toBe(1));
+    expect(presenter.frozen).toBe(false);
+    destroyRenderer(presenter.renderer);
+  });
+
+  it('auto-plays slides until paused', async () => {
+    const presenter = createKeyboardPresenter(10);
+    presenter.options = { autoAdvance: 100 };
+    presenter.autoAdvance = createAutoAdvance(() => nextSlide(presenter));
+    restartAutoAdvance(presenter);
+
+    await vi.waitFor(() => expect(presenter.currentSlide).toBeGreaterThan(0));
+    press(presenter, 'a');
+    const paused = presenter.currentSlide;
+    await new Promise((resolve) => setTimeout(resolve, 250));
+
+    expect(presenter.currentSlide).toBe(paused);
+    expect(presenter.autoAdvance.indicator).not.toBeNull();
+
+    press(presenter, 'a');
+
+    await vi.waitFor(() => expect(presenter.currentSlide).toBe(paused + 1));
+    expect(presenter.autoAdvance.indicator).toBeNull();
+    stopAutoAdvance(presenter.autoAdvance);
+    destroyRenderer(presenter.renderer);
+  });
+
+  it('shows a slide with fragments for its duration once', async () => {
+    const presenter = createKeyboardPresenter(3);
+    const slide = presenter.deck.slides[0];
+    slide.body = 'Intro\n- One\n- Two';
+    slide.frontmatter.fragments = true;
+    slide.frontmatter.duration = '0.3s';
+    presenter.options = { autoAdvance: 10000 };
+    presenter.autoAdvance = createAutoAdvance(() => nextSlide(presenter));
+    restartAutoAdvance(presenter);
+
+    await vi.waitFor(() => expect(presenter.currentFragment).toBe(2), { timeout: 500 });
+    await vi.waitFor(() => expect(presenter.currentSlide).toBe(1), { timeout: 500 });
+
+    stopAutoAdvance(presenter.autoAdvance);
+    destroyRenderer(presenter.renderer);
+  });
+
+  it('passes Ctrl+C to the presentation while an overlay is open', async () => {
+    const presenter = createKeyboardPresenter(5);
+    const keys: string[] = [];
+    presenter.renderer.screen.on('keypress', (_ch: string | undefined, key: { full: string }) => keys.push(key.full));
+
+    for (const overlay of ['g', 'l', '?']) {
+      press(presenter, overlay);
+      expect(presenter.renderer.screen.grabKeys).toBe(true);
+
+      press(presenter, 'C-c');
+      expect(keys[keys.length - 1]).toBe('C-c');
+      press(presenter, 'escape');
+    }
+
+    expect(keys.filter((key) => key === 'C-c')).toHaveLength(3);
+    destroyRenderer(presenter.renderer);
+  });
+
+  it('closes the help overlay with any key', async () => {
+    const presenter = createKeyboardPresenter(5);
+
+    press(presenter, '?');
+    expect(presenter.renderer.screen.grabKeys).toBe(true);
+
+    press(presenter, 'n');
+    expect(presenter.renderer.screen.grabKeys).toBe(false);
+    expect(presenter.currentSlide).toBe(0);
+    destroyRenderer(presenter.renderer);
+  });
+
+  it('navigates the slide list with arrow keys', async () => {
+    const presenter = createKeyboardPresenter(30);
+
+    press(presenter, 'l', 'down', 'down', 'pagedown', 'up', 'enter');
+
+    await vi.waitFor(() => expect(presenter.currentSlide).toBe(17));
+    destroyRenderer(presenter.renderer);
+  });
+});
+
+describe('scrollSlide', () => {
+  it('ignores scrolling while a slide is animating', async () => {
+    const presenter = createTestPresenter(3);
+    await jumpToSlide(presenter, 1);
+    const window = presenter.renderer.windowStack[presenter.renderer.windowStack.length - 1];
+
+    presenter.isAnimating = true;
+    scrollSlide(presenter, 1);
+
+    expect(window.childBase).toBe(0);
+    destroyRenderer(presenter.renderer);
+  });
+});
+
+describe('handleNotesCommand', () => {
+  it('navigates the presentation', async () => {
+    const presenter = createTestPresenter(5);
+
+    handleNotesCommand(presenter, { type: 'jump', index: 3 });
+    await vi.waitFor(() => expect(presenter.currentSlide).toBe(3));
+
+    destroyRenderer(presenter.renderer);
+  });
+
+  it('pauses and resets the talk timer', () => {
+    const presenter = createTestPresenter(1);
+
+    handleNotesCommand(presenter, { type: 'toggle-timer' });
+    expect(presenter.talkTimer.startedAt).toBeNull();
+
+    presenter.talkTimer.accumulated = 5000;
+    handleNotesCommand(presenter, { type: 'reset-timer' });
+    expect(presenter.talkTimer.accumulated).toBe(0);
+
+    destroyRenderer(presenter.renderer);
   });
 });
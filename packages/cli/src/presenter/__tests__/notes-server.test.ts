@@ -0,0 +1,245 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { PassThrough } from 'node:stream';
+import { existsSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  DEFAULT_NOTES_SOCKET,
+  parseNotesAddress,
+  createMessageReader,
+  type NotesCommand,
+  type NotesState,
+} from '../notes-protocol';
+import { startNotesServer, broadcastNotes, stopNotesServer, type NotesServer } from '../notes-server';
+import { connectToPresentation, getNotesKeyCommand, runNotesClient } from '../notes-client';
+import { formatNotesView, buildSlidePreview } from '../notes-window';
+import { DEFAULT_THEME } from '../../schemas/theme';
+import type { Slide } from '../../schemas/slide';
+
+const STATE: NotesState = {
+  index: 0,
+  totalSlides: 2,
+  title: 'Intro',
+  notes: 'Say hello',
+  nextTitle: 'Outro',
+};
+
+// Strip ANSI styling
+function plain(text: string): string {
+  return text.replace(/\x1b\[[0-9;?]*[a-zA-Z]|\x1b[78]/g, '');
+}
+
+function waitFor(condition: () => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      if (condition()) return resolve();
+      if (Date.now() - started > 2000) return reject(new Error('Timed out'));
+      setTimeout(check, 5);
+    };
+    check();
+  });
+}
+
+describe('parseNotesAddress', () => {
+  it('uses the default socket without an address', () => {
+    expect(parseNotesAddress()).toEqual({ path: DEFAULT_NOTES_SOCKET });
+  });
+
+  it('reads ports as localhost TCP addresses', () => {
+    expect(parseNotesAddress('4000')).toEqual({ host: '127.0.0.1', port: 4000 });
+    expect(parseNotesAddress('localhost:4000')).toEqual({ host: 'localhost', port: 4000 });
+    expect(parseNotesAddress('[::1]:4000')).toEqual({ host: '::1', port: 4000 });
+  });
+
+  it('rejects hosts that are not loopback addresses', () => {
+    expect(() => parseNotesAddress('0.0.0.0:4000')).toThrow('Invalid notes host: 0.0.0.0');
+    expect(() => parseNotesAddress('192.168.1.20:4000')).toThrow('Invalid notes host');
+    expect(() => parseNotesAddress('[::]:4000')).toThrow('Invalid notes host');
+  });
+
+  it('reads anything else as a socket path', () => {
+    expect(parseNotesAddress('./talk.sock')).toEqual({ path: './talk.sock' });
+  });
+
+  it('rejects ports out of range', () => {
+    expect(() => parseNotesAddress('70000')).toThrow('Invalid notes port');
+  });
+});
+
+describe('createMessageReader', () => {
+  it('decodes messages split across chunks and skips malformed lines', () => {
+    const messages: unknown[] = [];
+    const read = createMessageReader((message) => messages.push(message));
+
+    read('{"type":"ne');
+    read('xt"}\nnot json\n{"type":"prev"}\n');
+
+    expect(messages).toEqual([{ type: 'next' }, { type: 'prev' }]);
+  });
+});
+
+describe('getNotesKeyCommand', () => {
+  it('maps keys to the presentation actions', () => {
+    expect(getNotesKeyCommand(' ')).toEqual({ type: 'next' });
+    expect(getNotesKeyCommand('\x1b[D')).toEqual({ type: 'prev' });
+    expect(getNotesKeyCommand('3')).toEqual({ type: 'jump', index: 3 });
+    expect(getNotesKeyCommand('t')).toEqual({ type: 'toggle-timer' });
+    expect(getNotesKeyCommand('q')).toBe('quit');
+    expect(getNotesKeyCommand('x')).toBeUndefined();
+  });
+});
+
+describe('formatNotesView', () => {
+  it('wraps notes to the width', () => {
+    const view = plain(formatNotesView({ ...STATE, notes: 'one two three four' }, 9));
+
+    expect(view).toContain('one two\nthree\nfour');
+    expect(view).toContain('─'.repeat(9));
+    expect(view).toContain('NEXT: "Outro"');
+  });
+
+  it('shows the next slide preview cut off at the width', () => {
+    const view = formatNotesView({ ...STATE, nextPreview: ['\x1b[32mabcdefghij\x1b[0m', 'xyz'] }, 8);
+
+    expect(plain(view)).toContain('│ abcdef\n│ xyz\n');
+    expect(view).toContain('\x1b[32mabcdef');
+  });
+});
+
+describe('buildSlidePreview', () => {
+  const slide: Slide = {
+    frontmatter: { title: 'Next', bigText: 'HI' },
+    body: '{GREEN}Coming up{/}\n\n<!-- pause -->\nLater',
+    notes: '',
+    sourcePath: '/slides/next.md',
+    index: 1,
+  };
+
+  it('renders bigText and all fragments with ANSI colors', async () => {
+    const preview = await buildSlidePreview(slide, DEFAULT_THEME);
+    const text = plain(preview.join('\n'));
+
+    expect(text).toContain('_   _');
+    expect(text).toContain('Coming up');
+    expect(text).toContain('Later');
+    expect(preview.join('\n')).toContain('\x1b[38;2;0;204;102mComing up');
+    expect(preview[preview.length - 1]).not.toBe('');
+  });
+
+  it('is cut off at the preview height', async () => {
+    const body = Array.from({ length: 20 }, (_, i) => `Line ${i + 1}`).join('\n\n');
+    const preview = await buildSlidePreview({ ...slide, frontmatter: { title: 'Long' }, body }, DEFAULT_THEME, {
+      width: 40,
+      height: 5,
+    });
+
+    expect(preview).toHaveLength(5);
+    expect(plain(preview[4])).toBe('… 35 more lines');
+  });
+});
+
+describe('notes server', () => {
+  let notesServer: NotesServer | null = null;
+
+  afterEach(async () => {
+    if (notesServer) await stopNotesServer(notesServer);
+    notesServer = null;
+  });
+
+  function start(commands: NotesCommand[] = [], path = join(tmpdir(), `term-deck-test-${process.pid}.sock`)) {
+    return startNotesServer({ path }, {
+      getState: () => STATE,
+      onCommand: (command) => commands.push(command),
+    });
+  }
+
+  it('sends the current notes on connect and broadcasts updates', async () => {
+    notesServer = await startNotesServer({ host: '127.0.0.1', port: 0 }, {
+      getState: () => STATE,
+      onCommand: () => {},
+    });
+    const socket = await connectToPresentation(notesServer.address);
+    const messages: unknown[] = [];
+    socket.on('data', createMessageReader((message) => messages.push(message)));
+
+    await waitFor(() => messages.length === 1);
+    broadcastNotes(notesServer, { type: 'slide', state: { ...STATE, index: 1 } });
+    await waitFor(() => messages.length === 2);
+    socket.destroy();
+
+    expect(messages).toEqual([
+      { type: 'slide', state: STATE },
+      { type: 'slide', state: { ...STATE, index: 1 } },
+    ]);
+  });
+
+  it('passes valid client commands to the presentation', async () => {
+    const commands: NotesCommand[] = [];
+    notesServer = await start(commands);
+    const socket = await connectToPresentation(notesServer.address);
+
+    socket.write('{"type":"next"}\n{"type":"jump","index":-1}\n{"type":"jump","index":2}\n');
+    await waitFor(() => commands.length === 2);
+    socket.destroy();
+
+    expect(commands).toEqual([{ type: 'next' }, { type: 'jump', index: 2 }]);
+  });
+
+  it('replaces a stale socket file', async () => {
+    const path = join(tmpdir(), `term-deck-stale-${process.pid}.sock`);
+    // Left behind by a presentation that crashed
+    writeFileSync(path, '');
+
+    notesServer = await start([], path);
+
+    expect(notesServer.address).toEqual({ path });
+  });
+
+  it('refuses an address used by another presentation', async () => {
+    notesServer = await start();
+
+    await expect(start()).rejects.toThrow('address already in use');
+  });
+
+  it('removes the socket file when stopped', async () => {
+    const server = await start();
+
+    await stopNotesServer(server);
+
+    expect(existsSync((server.address as { path: string }).path)).toBe(false);
+  });
+
+  it('reports when no presentation is running', async () => {
+    await expect(connectToPresentation({ path: join(tmpdir(), 'term-deck-missing.sock') }))
+      .rejects.toThrow('No presentation found');
+  });
+});
+
+describe('runNotesClient', () => {
+  it('renders notes, sends keys and ends with the presentation', async () => {
+    const commands: NotesCommand[] = [];
+    const notesServer = await startNotesServer({ host: '127.0.0.1', port: 0 }, {
+      getState: () => STATE,
+      onCommand: (command) => commands.push(command),
+    });
+    const input = new PassThrough();
+    const output = new PassThrough();
+    let written = '';
+    output.on('data', (chunk) => { written += chunk.toString(); });
+
+    const client = runNotesClient(notesServer.address, {
+      input: input as unknown as NodeJS.ReadStream,
+      output: output as unknown as NodeJS.WriteStream,
+    });
+
+    await waitFor(() => written.includes('Say hello'));
+    input.write('n');
+    await waitFor(() => commands.length === 1);
+    await stopNotesServer(notesServer);
+    await client;
+
+    expect(commands).toEqual([{ type: 'next' }]);
+    expect(plain(written)).toContain('Presentation ended.');
+  });
+});
@@ -0,0 +1,280 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { request } from 'node:http';
+import type { Duplex } from 'node:stream';
+import {
+  startRemoteServer,
+  stopRemoteServer,
+  broadcastRemoteState,
+  getRemoteUrls,
+  createRemoteToken,
+  type RemoteCommand,
+  type RemoteServer,
+  type RemoteState,
+} from '../remote-server';
+import {
+  MAX_PAYLOAD_LENGTH,
+  OPCODES,
+  createFrameReader,
+  encodeFrame,
+  getAcceptKey,
+  type WebSocketFrame,
+} from '../websocket';
+
+const TOKEN = 'secret-token';
+
+const STATE: RemoteState = {
+  index: 0,
+  totalSlides: 3,
+  title: 'Intro',
+  notes: 'Say hello',
+  nextTitle: 'Middle',
+};
+
+function waitFor(condition: () => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      if (condition()) return resolve();
+      if (Date.now() - started > 2000) return reject(new Error('Timed out'));
+      setTimeout(check, 5);
+    };
+    check();
+  });
+}
+
+// Encode a masked client frame
+function encodeClientFrame(opcode: number, text: string): Buffer {
+  const payload = Buffer.from(text);
+  const mask = Buffer.from([1, 2, 3, 4]);
+  const masked = payload.map((byte, i) => byte ^ mask[i % 4]);
+  return Buffer.concat([Buffer.from([0x80 | opcode, 0x80 | payload.length]), mask, masked]);
+}
+
+describe('websocket frames', () => {
+  it('computes the handshake accept key', () => {
+    // Example from RFC 6455
+    expect(getAcceptKey('dGhlIHNhbXBsZSBub25jZQ==')).toBe('s3pPLMBiTxaQ9kYGzzhZRbK+xOo=');
+  });
+
+  it('decodes masked frames split across chunks', () => {
+    const frames: WebSocketFrame[] = [];
+    const read = createFrameReader((frame) => frames.push(frame));
+    const data = Buffer.concat([encodeClientFrame(OPCODES.TEXT, 'hello'), encodeClientFrame(OPCODES.PING, 'x')]);
+
+    read(data.subarray(0, 4));
+    read(data.subarray(4));
+
+    expect(frames.map((frame) => [frame.opcode, frame.payload.toString()])).toEqual([
+      [OPCODES.TEXT, 'hello'],
+      [OPCODES.PING, 'x'],
+    ]);
+  });
+
+  it('round-trips long payloads', () => {
+    const frames: WebSocketFrame[] = [];
+    const text = 'a'.repeat(70000);
+
+    createFrameReader((frame) => frames.push(frame), { maxPayloadLength: text.length })(encodeFrame(OPCODES.TEXT, text));
+
+    expect(frames[0].payload.toString()).toBe(text);
+  });
+
+  it('rejects frames over the payload limit from their header', () => {
+    const frames: WebSocketFrame[] = [];
+    let tooLarge = 0;
+    const read = createFrameReader((frame) => frames.push(frame), { onTooLarge: () => tooLarge++ });
+    const header = Buffer.alloc(10);
+    header[0] = 0x80 | OPCODES.TEXT;
+    header[1] = 127;
+    header.writeBigUInt64BE(2n ** 62n, 2);
+
+    read(header);
+    read(encodeClientFrame(OPCODES.TEXT, 'hello'));
+
+    expect(MAX_PAYLOAD_LENGTH).toBe(64 * 1024);
+    expect(tooLarge).toBe(1);
+    expect(frames).toEqual([]);
+  });
+});
+
+describe('createRemoteToken', () => {
+  it('creates random hex tokens', () => {
+    const token = createRemoteToken();
+
+    expect(token).toMatch(/^[0-9a-f]{32}$/);
+    expect(createRemoteToken()).not.toBe(token);
+  });
+});
+
+describe('getRemoteUrls', () => {
+  it('includes the token and ends with localhost', () => {
+    const urls = getRemoteUrls(8080, 'abc');
+
+    expect(urls[urls.length - 1]).toBe('http://127.0.0.1:8080/?token=abc');
+    expect(urls.every((url) => url.endsWith(':8080/?token=abc'))).toBe(true);
+  });
+});
+
+describe('remote server', () => {
+  let remoteServer: RemoteServer | null = null;
+  let state: RemoteState = STATE;
+  let commands: RemoteCommand[] = [];
+
+  afterEach(async () => {
+    if (remoteServer) await stopRemoteServer(remoteServer);
+    remoteServer = null;
+    state = STATE;
+    commands = [];
+  });
+
+  async function start(): Promise<RemoteServer> {
+    remoteServer = await startRemoteServer(0, {
+      getState: () => state,
+      onCommand: async (command) => {
+        commands.push(command);
+        state = { ...state, index: state.index + 1 };
+      },
+    }, { token: TOKEN, host: '127.0.0.1' });
+    return remoteServer;
+  }
+
+  async function send(
+    method: string,
+    path: string,
+    headers: Record<string, string> = { Authorization: `Bearer ${TOKEN}` }
+  ): Promise<{ status: number; body: string }> {
+    const response = await fetch(`http://127.0.0.1:${remoteServer!.port}${path}`, { method, headers });
+    return { status: response.status, body: await response.text() };
+  }
+
+  function connect(path = `/ws?token=${TOKEN}`): Promise<{ socket: Duplex; head: Buffer; accept: string }> {
+    return new Promise((resolve, reject) => {
+      request({
+        host: '127.0.0.1',
+        port: remoteServer!.port,
+        path,
+        headers: {
+          Connection: 'Upgrade',
+          Upgrade: 'websocket',
+          'Sec-WebSocket-Key': 'dGhlIHNhbXBsZSBub25jZQ==',
+          'Sec-WebSocket-Version': '13',
+        },
+      })
+        .on('upgrade', (response, socket, head) => {
+          resolve({ socket, head, accept: String(response.headers['sec-websocket-accept']) });
+        })
+        .on('response', (response) => reject(new Error(`Status ${response.statusCode}`)))
+        .on('error', reject)
+        .end();
+    });
+  }
+
+  it('rejects requests without a valid token', async () => {
+    await start();
+
+    expect((await send('GET', '/state', {})).status).toBe(401);
+    expect((await send('GET', '/state', { Authorization: 'Bearer wrong' })).status).toBe(401);
+    expect((await send('GET', '/state?token=wrong', {})).status).toBe(401);
+  });
+
+  it('reports the current state', async () => {
+    await start();
+
+    const response = await send('GET', '/state');
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body)).toEqual(STATE);
+  });
+
+  it('accepts the token as a query parameter', async () => {
+    await start();
+
+    expect((await send('GET', `/state?token=${TOKEN}`, {})).status).toBe(200);
+  });
+
+  it('runs commands and responds with the new state', async () => {
+    await start();
+
+    const next = await send('POST', '/next');
+    await send('POST', '/prev');
+    await send('POST', '/goto/2');
+
+    expect(JSON.parse(next.body).index).toBe(1);
+    expect(commands).toEqual([{ type: 'next' }, { type: 'prev' }, { type: 'goto', index: 2 }]);
+  });
+
+  it('rejects unknown routes and wrong methods', async () => {
+    await start();
+
+    expect((await send('POST', '/goto/abc')).status).toBe(404);
+    expect((await send('GET', '/next')).status).toBe(405);
+    expect((await send('POST', '/state')).status).toBe(405);
+    expect(commands).toEqual([]);
+  });
+
+  it('serves the control page', async () => {
+    await start();
+
+    const response = await send('GET', `/?token=${TOKEN}`, {});
+
+    expect(response.status).toBe(200);
+    expect(response.body).toContain('<title>term-deck remote</title>');
+  });
+
+  it('pushes state over the WebSocket and accepts commands', async () => {
+    const server = await start();
+    const { socket, head, accept } = await connect();
+    const messages: unknown[] = [];
+    const read = createFrameReader(({ payload }) => messages.push(JSON.parse(payload.toString())));
+    read(head);
+    socket.on('data', read);
+
+    await waitFor(() => messages.length === 1);
+    socket.write(encodeClientFrame(OPCODES.TEXT, '{"type":"goto","index":-1}'));
+    socket.write(encodeClientFrame(OPCODES.TEXT, '{"type":"next"}'));
+    await waitFor(() => commands.length === 1);
+    broadcastRemoteState(server, state);
+    await waitFor(() => messages.length === 2);
+    socket.destroy();
+
+    expect(accept).toBe('s3pPLMBiTxaQ9kYGzzhZRbK+xOo=');
+    expect(commands).toEqual([{ type: 'next' }]);
+    expect(messages).toEqual([
+      { type: 'state', state: STATE },
+      { type: 'state', state: { ...STATE, index: 1 } },
+    ]);
+  });
+
+  it('closes WebSocket connections sending oversized frames', async () => {
+    await start();
+    const { socket } = await connect();
+    const frames: WebSocketFrame[] = [];
+    socket.on('data', createFrameReader((frame) => frames.push(frame)));
+    let closed = false;
+    socket.on('close', () => { closed = true; });
+
+    const header = Buffer.alloc(14);
+    header[0] = 0x80 | OPCODES.TEXT;
+    header[1] = 0x80 | 127;
+    header.writeBigUInt64BE(BigInt(MAX_PAYLOAD_LENGTH + 1), 2);
+    socket.write(header);
+
+    await waitFor(() => closed);
+    const close = frames.find((frame) => frame.opcode === OPCODES.CLOSE);
+    expect(close?.payload.readUInt16BE(0)).toBe(1009);
+  });
+
+  it('refuses WebSocket connections without the token', async () => {
+    await start();
+
+    await expect(connect('/ws')).rejects.toThrow();
+  });
+
+  it('refuses a port already in use', async () => {
+    const server = await start();
+
+    await expect(startRemoteServer(server.port, { getState: () => STATE, onCommand: async () => {} }, {
+      host: '127.0.0.1',
+    })).rejects.toThrow('port already in use');
+  });
+});
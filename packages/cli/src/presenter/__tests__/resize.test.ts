@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatSizeWarning,
+  getDesignedSize,
+  resizePresenter,
+  stopResize,
+  updateSizeWarning,
+  watchResize,
+} from '../resize';
+import { jumpToSlide } from '../navigation';
+import type { Presenter } from '../types';
+import { createRenderer, destroyRenderer } from '../../renderer/screen';
+import { createTalkTimer } from '../talk-timer';
+import { DEFAULT_THEME } from '../../schemas/theme';
+import type { ExportSettings } from '../../schemas/config';
+import type { Deck } from '../../core/deck-loader';
+import type { Slide } from '../../schemas/slide';
+
+/**
+ * Create a presenter with a real renderer on a 120x40 screen
+ */
+function createTestPresenter(exportSettings?: ExportSettings): Presenter {
+  const slides: Slide[] = Array.from({ length: 3 }, (_, i) => ({
+    frontmatter: { title: `Slide ${i}`, transition: 'instant' },
+    body: `Content for slide ${i}`,
+    notes: '',
+    sourcePath: `/slides/${i}.md`,
+    index: i,
+  }));
+
+  const deck: Deck = {
+    slides,
+    config: { theme: DEFAULT_THEME, export: exportSettings },
+    basePath: '/slides',
+  };
+
+  const renderer = createRenderer(DEFAULT_THEME);
+  resizeScreen(renderer.screen, 120, 40);
+
+  return {
+    deck,
+    options: {},
+    renderer,
+    currentSlide: 0,
+    currentFragment: 0,
+    isAnimating: false,
+    blackout: null,
+    frozen: false,
+    notesWindow: null,
+    notesServer: null,
+    remoteServer: null,
+    talkTimer: createTalkTimer(),
+    notesTicker: null,
+    autoAdvance: null,
+    progressBar: null,
+    statusBar: null,
+    statusTicker: null,
+    deckWatcher: null,
+    resizeTimer: null,
+    sizeWarning: null,
+  };
+}
+
+// The screen reads its size from the program (1x1 without a terminal)
+function resizeScreen(screen: Presenter['renderer']['screen'], cols: number, rows: number): void {
+  screen.program.cols = cols;
+  screen.program.rows = rows;
+}
+
+describe('getDesignedSize', () => {
+  it('uses the export size', () => {
+    const presenter = createTestPresenter({ width: 160, height: 50, fps: 30 });
+
+    expect(getDesignedSize(presenter.deck)).toEqual({ width: 160, height: 50 });
+    destroyRenderer(presenter.renderer);
+  });
+
+  it('has no designed size without export settings', () => {
+    const presenter = createTestPresenter();
+
+    expect(getDesignedSize(presenter.deck)).toBeNull();
+    destroyRenderer(presenter.renderer);
+  });
+});
+
+describe('formatSizeWarning', () => {
+  it('shows the current and designed size', () => {
+    const warning = formatSizeWarning({ width: 100, height: 30 }, { width: 120, height: 40 });
+
+    expect(warning).toContain('Terminal is 100x30, this deck is designed for 120x40.');
+  });
+});
+
+describe('updateSizeWarning', () => {
+  it('warns while the terminal is smaller than the designed size', () => {
+    const presenter = createTestPresenter({ width: 120, height: 40, fps: 30 });
+
+    updateSizeWarning(presenter);
+    expect(presenter.sizeWarning).toBeNull();
+
+    resizeScreen(presenter.renderer.screen, 120, 30);
+    updateSizeWarning(presenter);
+    expect(presenter.sizeWarning?.getContent()).toContain('Terminal is 120x30');
+
+    resizeScreen(presenter.renderer.screen, 130, 45);
+    updateSizeWarning(presenter);
+    expect(presenter.sizeWarning).toBeNull();
+
+    destroyRenderer(presenter.renderer);
+  });
+
+  it('never warns for decks without a designed size', () => {
+    const presenter = createTestPresenter();
+    resizeScreen(presenter.renderer.screen, 40, 10);
+
+    updateSizeWarning(presenter);
+
+    expect(presenter.sizeWarning).toBeNull();
+    destroyRenderer(presenter.renderer);
+  });
+});
+
+describe('resizePresenter', () => {
+  it('lays out the window stack for the new size', async () => {
+    const presenter = createTestPresenter();
+    await jumpToSlide(presenter, 2);
+    expect(presenter.renderer.windowStack[2].width).toBe(90);
+
+    resizeScreen(presenter.renderer.screen, 200, 60);
+    await resizePresenter(presenter);
+
+    expect(presenter.renderer.windowStack).toHaveLength(3);
+    expect(presenter.renderer.windowStack.map((window) => window.width)).toEqual([150, 150, 150]);
+    expect(presenter.renderer.windowStack[2].getContent()).toContain('Content for slide 2');
+    expect(presenter.isAnimating).toBe(false);
+
+    destroyRenderer(presenter.renderer);
+  });
+
+  it('re-seeds the matrix rain across the new columns', async () => {
+    const presenter = createTestPresenter();
+
+    resizeScreen(presenter.renderer.screen, 400, 60);
+    await resizePresenter(presenter);
+
+    const { matrixDrops } = presenter.renderer.matrixRain;
+    expect(matrixDrops.length).toBe(DEFAULT_THEME.animations.matrixDensity);
+    expect(matrixDrops.every((drop) => drop.x < 400)).toBe(true);
+
+    destroyRenderer(presenter.renderer);
+  });
+});
+
+describe('watchResize', () => {
+  it('lays out the presentation once resizing stops', async () => {
+    const presenter = createTestPresenter({ width: 120, height: 40, fps: 30 });
+    await jumpToSlide(presenter, 1);
+    watchResize(presenter);
+
+    resizeScreen(presenter.renderer.screen, 100, 30);
+    presenter.renderer.screen.emit('resize');
+    presenter.renderer.screen.emit('resize');
+    expect(presenter.resizeTimer).not.toBeNull();
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(presenter.resizeTimer).toBeNull();
+    expect(presenter.renderer.windowStack[1].width).toBe(75);
+    expect(presenter.sizeWarning?.getContent()).toContain('Terminal is 100x30');
+
+    destroyRenderer(presenter.renderer);
+  });
+
+  it('waits for an open overlay to close', async () => {
+    const presenter = createTestPresenter();
+    await jumpToSlide(presenter, 1);
+    watchResize(presenter);
+    const windows = [...presenter.renderer.windowStack];
+    presenter.renderer.screen.grabKeys = true;
+
+    resizeScreen(presenter.renderer.screen, 100, 30);
+    presenter.renderer.screen.emit('resize');
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(presenter.renderer.windowStack.every((window, i) => window === windows[i])).toBe(true);
+
+    presenter.renderer.screen.grabKeys = false;
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(presenter.renderer.windowStack.includes(windows[1])).toBe(false);
+    expect(presenter.renderer.windowStack[1].width).toBe(75);
+    stopResize(presenter);
+    destroyRenderer(presenter.renderer);
+  });
+});
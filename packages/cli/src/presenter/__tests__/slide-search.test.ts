@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { matchSlides } from '../slide-search';
+import type { Slide } from '../../schemas/slide';
+
+function createSlides(titles: string[]): Slide[] {
+  return titles.map((title, index) => ({
+    frontmatter: { title },
+    body: '',
+    sourcePath: `/slides/${index}.md`,
+    index,
+  }));
+}
+
+describe('matchSlides', () => {
+  const slides = createSlides(
+    Array.from({ length: 15 }, (_, i) => `Slide ${i}`).map((title, i) =>
+      i === 3 ? 'Architecture Overview' : i === 5 ? 'Search Architecture' : title
+    )
+  );
+
+  it('matches nothing for an empty query', () => {
+    expect(matchSlides(slides, '  ')).toEqual([]);
+  });
+
+  it('matches multi-digit slide numbers first', () => {
+    expect(matchSlides(slides, '12')).toEqual([12]);
+    expect(matchSlides(slides, '1')[0]).toBe(1);
+  });
+
+  it('ignores slide numbers out of range', () => {
+    expect(matchSlides(slides, '99')).toEqual([]);
+  });
+
+  it('ranks prefix matches before substring matches', () => {
+    expect(matchSlides(slides, 'ARCH')).toEqual([3, 5]);
+  });
+
+  it('matches characters in order with gaps', () => {
+    expect(matchSlides(slides, 'srch arc')).toEqual([5]);
+    expect(matchSlides(slides, 'aov')).toEqual([3]);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTalkTimer,
+  getElapsed,
+  toggleTimer,
+  resetTimer,
+  getSlideBudgets,
+  getPacing,
+  getTimerStatus,
+  formatDuration,
+} from '../talk-timer';
+import { formatTimerLine } from '../notes-window';
+import type { Slide } from '../../schemas/slide';
+
+const MINUTE = 60_000;
+
+function createSlides(durations: unknown[]): Slide[] {
+  return durations.map((duration, i) => ({
+    frontmatter: { title: `Slide ${i}`, ...(duration === undefined ? {} : { meta: { duration } }) },
+    body: '',
+    notes: '',
+    sourcePath: `/slides/${i}.md`,
+    index: i,
+  }));
+}
+
+// Strip ANSI styling
+function plain(text: string): string {
+  return text.replace(/\x1b\[[0-9;]*m/g, '');
+}
+
+describe('talk timer', () => {
+  it('counts time while running', () => {
+    const timer = createTalkTimer(1000);
+
+    expect(getElapsed(timer, 6000)).toBe(5000);
+  });
+
+  it('stops counting while paused', () => {
+    const timer = createTalkTimer(0);
+
+    toggleTimer(timer, 5000);
+    expect(getElapsed(timer, 20_000)).toBe(5000);
+
+    toggleTimer(timer, 20_000);
+    expect(getElapsed(timer, 23_000)).toBe(8000);
+  });
+
+  it('resets to zero and keeps its running state', () => {
+    const running = createTalkTimer(0);
+    resetTimer(running, 5000);
+    expect(getElapsed(running, 7000)).toBe(2000);
+
+    const paused = createTalkTimer(0);
+    toggleTimer(paused, 5000);
+    resetTimer(paused, 6000);
+    expect(getElapsed(paused, 9000)).toBe(0);
+    expect(paused.startedAt).toBeNull();
+  });
+});
+
+describe('getSlideBudgets', () => {
+  it('splits the talk duration evenly', () => {
+    expect(getSlideBudgets(createSlides([undefined, undefined, undefined]), 6 * MINUTE))
+      .toEqual([2 * MINUTE, 2 * MINUTE, 2 * MINUTE]);
+  });
+
+  it('splits what is left after slide budgets', () => {
+    expect(getSlideBudgets(createSlides([4, undefined, undefined]), 10 * MINUTE))
+      .toEqual([4 * MINUTE, 3 * MINUTE, 3 * MINUTE]);
+  });
+
+  it('uses only slide budgets without a talk duration', () => {
+    expect(getSlideBudgets(createSlides(['90s', undefined]))).toEqual([90_000, 0]);
+  });
+});
+
+describe('getPacing', () => {
+  const budgets = [2 * MINUTE, 2 * MINUTE, 2 * MINUTE];
+
+  it('is ahead before the planned start of the slide', () => {
+    expect(getPacing(budgets, 2, 3 * MINUTE)).toEqual({ status: 'ahead', difference: MINUTE });
+  });
+
+  it('is behind once the slide budget is used up', () => {
+    expect(getPacing(budgets, 0, 3 * MINUTE)).toEqual({ status: 'behind', difference: MINUTE });
+  });
+
+  it('is on time within the slide budget', () => {
+    expect(getPacing(budgets, 1, 3 * MINUTE)).toEqual({ status: 'on-time', difference: 0 });
+  });
+
+  it('returns null without budgets', () => {
+    expect(getPacing([0, 0], 0, MINUTE)).toBeNull();
+  });
+});
+
+describe('getTimerStatus', () => {
+  it('reports elapsed time, target and pacing', () => {
+    const timer = createTalkTimer(0);
+
+    const status = getTimerStatus(timer, createSlides([undefined, undefined]), 1, 10 * MINUTE, MINUTE);
+
+    expect(status).toEqual({
+      elapsed: MINUTE,
+      paused: false,
+      target: 10 * MINUTE,
+      pacing: { status: 'ahead', difference: 4 * MINUTE },
+    });
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats minutes and seconds', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(90_000)).toBe('1:30');
+    expect(formatDuration(59_999)).toBe('0:59');
+  });
+
+  it('adds hours from one hour', () => {
+    expect(formatDuration(3_723_000)).toBe('1:02:03');
+  });
+});
+
+describe('formatTimerLine', () => {
+  const clock = new Date(2024, 0, 1, 9, 5);
+
+  it('shows elapsed time, target, clock and pacing', () => {
+    const line = formatTimerLine(
+      { elapsed: 754_000, paused: false, target: 30 * MINUTE, pacing: { status: 'behind', difference: 65_000 } },
+      clock
+    );
+
+    expect(plain(line)).toBe('⏱ 12:34 / 30:00  ·  09:05  ·  1:05 behind');
+  });
+
+  it('shows a paused timer without a target', () => {
+    const line = formatTimerLine({ elapsed: 5000, paused: true, target: 0, pacing: null }, clock);
+
+    expect(plain(line)).toBe('⏱ 0:05 (paused)  ·  09:05');
+  });
+});
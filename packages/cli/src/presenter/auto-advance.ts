@@ -0,0 +1,157 @@
+import blessed from 'neo-blessed';
+import type { Slide } from '../schemas/slide.js';
+import { countFragments } from '../core/fragments.js';
+import { parseDuration } from '../core/duration.js';
+import type { Presenter } from './types.js';
+
+/**
+ * Auto-advance state (auto-play)
+ *
+ * Each slide gets its own timer, restarted whenever another slide (or
+ * fragment) is shown, so manual navigation never cuts a slide short.
+ * Fragments share the time of their slide (see getSlideDelay).
+ */
+export interface AutoAdvance {
+  /** Go to the next slide (or fragment) */
+  advance: () => Promise<void>;
+  /** Timer of the current slide */
+  timer: ReturnType<typeof setTimeout> | null;
+  paused: boolean;
+  /** Indicator shown while paused */
+  indicator: blessed.Widgets.BoxElement | null;
+}
+
+/**
+ * Get the auto-advance interval of a presentation
+ *
+ * The `--auto-advance` option overrides settings.autoAdvance.
+ *
+ * @param presenter - The presenter state
+ * @returns Interval in ms (0 = disabled)
+ */
+export function getAutoAdvanceInterval(presenter: Presenter): number {
+  return presenter.options.autoAdvance ?? presenter.deck.config.settings?.autoAdvance ?? 0;
+}
+
+/**
+ * Check whether a presentation loops
+ *
+ * The `--loop` and `--no-loop` options override settings.loop.
+ *
+ * @param presenter - The presenter state
+ * @returns Whether to wrap around at the first and last slide
+ */
+export function isLooping(presenter: Presenter): boolean {
+  return presenter.options.loop ?? presenter.deck.config.settings?.loop ?? false;
+}
+
+/**
+ * Get how long auto-play shows each fragment of a slide
+ *
+ * A slide's `duration` overrides the interval. The time is split evenly
+ * between the slide's fragments, so revealing them does not keep the
+ * slide up any longer. Without auto-play, slides are never advanced.
+ *
+ * @param slide - The slide
+ * @param interval - Auto-advance interval (ms, 0 = disabled)
+ * @returns Delay in ms, or 0 if the slide is not advanced
+ *
+ * @example
+ * getSlideDelay(slide, 5000)  // 5000, or 90000 with duration '90s'
+ * getSlideDelay(slide, 0)     // 0
+ */
+export function getSlideDelay(slide: Slide, interval: number): number {
+  if (interval <= 0) return 0;
+
+  const duration = parseDuration(slide.frontmatter.duration) || interval;
+  return duration / countFragments(slide.body, slide.frontmatter.fragments);
+}
+
+/**
+ * Create auto-advance state
+ *
+ * @param advance - Goes to the next slide (or fragment)
+ * @returns Running auto-advance state, without a timer yet
+ */
+export function createAutoAdvance(advance: () => Promise<void>): AutoAdvance {
+  return { advance, timer: null, paused: false, indicator: null };
+}
+
+/**
+ * Stop the timer of the current slide
+ *
+ * @param autoAdvance - The auto-advance state
+ */
+export function stopAutoAdvance(autoAdvance: AutoAdvance): void {
+  if (autoAdvance.timer) {
+    clearTimeout(autoAdvance.timer);
+    autoAdvance.timer = null;
+  }
+}
+
+/**
+ * Restart the timer for the current slide
+ *
+ * Called whenever a slide or fragment is shown, and keeps the pause
+ * indicator in front of the slide windows. Does nothing without
+ * auto-play or while paused. Navigation ignores a timer that runs out
+ * while the screen is held or a slide is animating: releasing the
+ * screen or finishing the navigation restarts it.
+ *
+ * @param presenter - The presenter state
+ */
+export function restartAutoAdvance(presenter: Presenter): void {
+  const { autoAdvance } = presenter;
+  if (!autoAdvance) return;
+
+  stopAutoAdvance(autoAdvance);
+  autoAdvance.indicator?.setFront();
+  if (autoAdvance.paused) return;
+
+  const slide = presenter.deck.slides[presenter.currentSlide];
+  const delay = slide ? getSlideDelay(slide, getAutoAdvanceInterval(presenter)) : 0;
+  if (delay <= 0) return;
+
+  autoAdvance.timer = setTimeout(() => {
+    autoAdvance.timer = null;
+    void autoAdvance.advance();
+  }, delay);
+}
+
+/**
+ * Pause or resume auto-play
+ *
+ * Shows an indicator in the top-right corner while paused. Resuming
+ * gives the current slide its full time again.
+ *
+ * @param presenter - The presenter state
+ */
+export function toggleAutoAdvance(presenter: Presenter): void {
+  const { autoAdvance } = presenter;
+  if (!autoAdvance) return;
+
+  const { screen, theme } = presenter.renderer;
+  autoAdvance.paused = !autoAdvance.paused;
+
+  if (autoAdvance.paused) {
+    autoAdvance.indicator = blessed.box({
+      screen,
+      top: 0,
+      right: 0,
+      width: 'shrink',
+      height: 1,
+      content: ' ⏸ Auto-play paused ',
+      style: {
+        fg: theme.colors.background,
+        bg: theme.colors.warning ?? theme.colors.accent,
+      },
+    });
+    screen.append(autoAdvance.indicator);
+  } else if (autoAdvance.indicator) {
+    autoAdvance.indicator.destroy();
+    autoAdvance.indicator = null;
+  }
+
+  restartAutoAdvance(presenter);
+  screen.render();
+}
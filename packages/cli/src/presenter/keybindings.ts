@@ -0,0 +1,129 @@
+import {
+  DEFAULT_KEYBINDINGS,
+  type KeyAction,
+  type Keybindings,
+  type Settings,
+} from '../schemas/config.js';
+
+/**
+ * A line of the hotkey reference
+ */
+export interface Hotkey {
+  /** Keys, formatted for display (e.g. 'Space / →') */
+  keys: string;
+  description: string;
+}
+
+/**
+ * Descriptions of the presentation actions, in help order
+ */
+export const KEY_ACTIONS: Record<KeyAction, string> = {
+  next: 'Next slide',
+  prev: 'Previous slide',
+  first: 'First slide',
+  last: 'Last slide',
+  scrollUp: 'Scroll slide up',
+  scrollDown: 'Scroll slide down',
+  goto: 'Go to slide by number or title',
+  list: 'Show slide list',
+  toggleTimer: 'Pause/resume talk timer',
+  resetTimer: 'Reset talk timer',
+  toggleAutoAdvance: 'Pause/resume auto-play',
+  blackout: 'Black out the screen',
+  freeze: 'Freeze the screen',
+  help: 'Show key help',
+  quit: 'Quit',
+};
+
+// Display names of named keys
+const KEY_LABELS: Record<string, string> = {
+  space: 'Space',
+  enter: 'Enter',
+  return: 'Return',
+  escape: 'Esc',
+  backspace: 'Backspace',
+  tab: 'Tab',
+  delete: 'Del',
+  insert: 'Ins',
+  up: '↑',
+  down: '↓',
+  left: '←',
+  right: '→',
+  home: 'Home',
+  end: 'End',
+  pageup: 'PgUp',
+  pagedown: 'PgDn',
+};
+
+const MODIFIER_LABELS: Record<string, string> = {
+  'C-': 'Ctrl+',
+  'M-': 'Alt+',
+  'S-': 'Shift+',
+};
+
+/**
+ * Get the keyboard bindings of a deck
+ *
+ * @param settings - Settings of the deck (defaults when omitted)
+ * @returns The configured bindings
+ */
+export function getKeybindings(settings?: Partial<Settings>): Keybindings {
+  return settings?.keybindings ?? DEFAULT_KEYBINDINGS;
+}
+
+/**
+ * Find the action bound to a key
+ *
+ * @param keybindings - Keyboard bindings
+ * @param key - Blessed key name (e.g. 'space', 'C-c')
+ * @returns The action, or undefined if the key is not bound
+ */
+export function getKeyAction(keybindings: Keybindings, key: string): KeyAction | undefined {
+  return (Object.keys(keybindings) as KeyAction[]).find((action) => keybindings[action].includes(key));
+}
+
+/**
+ * Format a blessed key name for display
+ *
+ * @param key - Blessed key name
+ * @returns The key as shown in help
+ *
+ * @example
+ * formatKeyName('right')  // '→'
+ * formatKeyName('C-c')    // 'Ctrl+C'
+ */
+export function formatKeyName(key: string): string {
+  const match = /^((?:[CMS]-)*)(.+)$/.exec(key);
+  const modifiers = match?.[1] ?? '';
+  const name = match?.[2] ?? key;
+
+  const prefix = (modifiers.match(/[CMS]-/g) ?? []).map((modifier) => MODIFIER_LABELS[modifier]).join('');
+  const label = KEY_LABELS[name] ?? (/^f\d+$/.test(name) ? name.toUpperCase() : name);
+
+  return prefix && label.length === 1 ? `${prefix}${label.toUpperCase()}` : `${prefix}${label}`;
+}
+
+/**
+ * Get the hotkey reference for keyboard bindings
+ *
+ * Lists the actions in help order, skipping actions without keys, with
+ * the fixed 0-9 slide keys after the navigation actions.
+ *
+ * @param keybindings - Keyboard bindings
+ * @returns Hotkeys for help output
+ */
+export function getHotkeys(keybindings: Keybindings = DEFAULT_KEYBINDINGS): Hotkey[] {
+  const hotkeys: Hotkey[] = [];
+
+  for (const action of Object.keys(KEY_ACTIONS) as KeyAction[]) {
+    const keys = keybindings[action];
+    if (keys.length > 0) {
+      hotkeys.push({ keys: keys.map(formatKeyName).join(' / '), description: KEY_ACTIONS[action] });
+    }
+    if (action === 'last') {
+      hotkeys.push({ keys: '0-9', description: 'Jump to slide' });
+    }
+  }
+
+  return hotkeys;
+}
@@ -1,73 +1,373 @@
+import blessed from 'neo-blessed';
+import type { Slide } from '../schemas/slide.js';
+import { QUIT_KEY, type KeyAction, type Keybindings } from '../schemas/config.js';
 import type { Presenter } from './types.js';
-import { nextSlide, prevSlide, jumpToSlide } from './navigation.js';
+import type { NotesCommand } from './notes-protocol.js';
+import { nextSlide, prevSlide, jumpToSlide, scrollSlide, refreshNotesTimer } from './navigation.js';
+import { toggleTimer, resetTimer } from './talk-timer.js';
+import { matchSlides } from './slide-search.js';
+import { getHotkeys, getKeyAction, getKeybindings } from './keybindings.js';
+import { isScreenHeld, toggleBlackout, toggleFreeze } from './screen-modes.js';
+import { toggleAutoAdvance } from './auto-advance.js';
+
+/**
+ * Maximum number of matches shown in the go-to prompt
+ */
+const MAX_GOTO_MATCHES = 8;
+
+/**
+ * Height of the slide list overlay (including border and padding)
+ */
+const SLIDE_LIST_HEIGHT = 20;
+
+/**
+ * Actions available while the screen is blacked out or frozen
+ */
+const HELD_ACTIONS: KeyAction[] = ['blackout', 'freeze', 'toggleTimer', 'resetTimer', 'quit'];
 
 /**
  * Setup keyboard event handlers
  *
- * Registers all keyboard controls for the presentation:
- * - Next slide: Space, Enter, Right, n
- * - Previous slide: Left, Backspace, p
- * - Jump to slide: 0-9
+ * Runs the action bound to each key (see `settings.keybindings`). The
+ * defaults are:
+ * - Next slide (or fragment): Space, Enter, Right, n
+ * - Previous slide (or hide fragment): Left, Backspace, p
+ * - First/last slide: Home, End
+ * - Scroll the slide: Up/k, Down/j
+ * - Go to slide by number or title: g, :
  * - Show slide list: l
+ * - Pause/resume the talk timer: t
+ * - Reset the talk timer: r
+ * - Pause/resume auto-play: a
+ * - Black out the screen: b
+ * - Freeze the screen: f
+ * - Show key help: ?
  * - Quit: q, Ctrl+C, Escape (handled in present() function)
  *
+ * Unbound number keys 0-9 jump to that slide. Bindings are looked up on
+ * every keypress, so they follow config reloads. While the screen is
+ * blacked out or frozen, only the blackout, freeze, timer and quit keys
+ * work.
+ *
  * @param presenter - The presenter state
  */
 export function setupControls(presenter: Presenter): void {
+  presenter.renderer.screen.on('keypress', (_ch, key) => {
+    const action = getKeyAction(getKeybindings(presenter.deck.config.settings), key.full);
+
+    if (isScreenHeld(presenter) && !(action && HELD_ACTIONS.includes(action))) {
+      return;
+    }
+
+    if (action) {
+      runKeyAction(presenter, action);
+    } else if (/^[0-9]$/.test(key.full)) {
+      jumpToSlide(presenter, parseInt(key.full, 10));
+    }
+  });
+}
+
+/**
+ * Run a presentation action
+ *
+ * @param presenter - The presenter state
+ * @param action - The action bound to the pressed key
+ */
+function runKeyAction(presenter: Presenter, action: KeyAction): void {
+  switch (action) {
+    case 'next':
+      nextSlide(presenter);
+      break;
+    case 'prev':
+      prevSlide(presenter);
+      break;
+    case 'first':
+      jumpToSlide(presenter, 0);
+      break;
+    case 'last':
+      jumpToSlide(presenter, presenter.deck.slides.length - 1);
+      break;
+    case 'scrollUp':
+      scrollSlide(presenter, -1);
+      break;
+    case 'scrollDown':
+      scrollSlide(presenter, 1);
+      break;
+    case 'goto':
+      showGotoPrompt(presenter);
+      break;
+    case 'list':
+      showSlideList(presenter);
+      break;
+    case 'toggleTimer':
+      toggleTimer(presenter.talkTimer);
+      refreshNotesTimer(presenter);
+      break;
+    case 'resetTimer':
+      resetTimer(presenter.talkTimer);
+      refreshNotesTimer(presenter);
+      break;
+    case 'toggleAutoAdvance':
+      toggleAutoAdvance(presenter);
+      break;
+    case 'blackout':
+      toggleBlackout(presenter);
+      break;
+    case 'freeze':
+      toggleFreeze(presenter);
+      break;
+    case 'help':
+      showHelpOverlay(presenter);
+      break;
+    case 'quit':
+      // Handled in the present() function
+      break;
+  }
+}
+
+/**
+ * Handle a command from a notes client
+ *
+ * Notes clients navigate the presentation and control the talk timer
+ * with the same actions as the presentation keys.
+ *
+ * @param presenter - The presenter state
+ * @param command - The command from the client
+ */
+export function handleNotesCommand(presenter: Presenter, command: NotesCommand): void {
+  switch (command.type) {
+    case 'next':
+      nextSlide(presenter);
+      break;
+    case 'prev':
+      prevSlide(presenter);
+      break;
+    case 'jump':
+      jumpToSlide(presenter, command.index);
+      break;
+    case 'toggle-timer':
+      toggleTimer(presenter.talkTimer);
+      refreshNotesTimer(presenter);
+      break;
+    case 'reset-timer':
+      resetTimer(presenter.talkTimer);
+      refreshNotesTimer(presenter);
+      break;
+  }
+}
+
+/**
+ * Show an overlay that takes over the keyboard
+ *
+ * While the overlay is open, keys go to `onKey` instead of the
+ * presentation controls (so typing or Escape does not navigate or quit).
+ * Only QUIT_KEY still reaches the presentation, so it always quits.
+ *
+ * @param presenter - The presenter state
+ * @param box - The overlay box
+ * @param onKey - Called for every keypress
+ * @returns Function that closes the overlay
+ */
+function openOverlay(
+  presenter: Presenter,
+  box: blessed.Widgets.BoxElement,
+  onKey: (ch: string | undefined, key: blessed.Widgets.Events.IKeyEventArg) => void
+): () => void {
   const { screen } = presenter.renderer;
 
-  // Next slide: Space, Enter, Right, n
-  screen.key(['space', 'enter', 'right', 'n'], () => {
-    nextSlide(presenter);
+  screen.append(box);
+  box.focus();
+  screen.grabKeys = true;
+  if (!screen.ignoreLocked.includes(QUIT_KEY)) {
+    screen.ignoreLocked.push(QUIT_KEY);
+  }
+  box.on('keypress', (ch: string | undefined, key: blessed.Widgets.Events.IKeyEventArg) => {
+    if (key.full !== QUIT_KEY) onKey(ch, key);
   });
+  screen.render();
+
+  return () => {
+    screen.grabKeys = false;
+    box.destroy();
+    screen.render();
+  };
+}
+
+/**
+ * Escape blessed tags in user input
+ */
+function escapeTags(text: string): string {
+  return text.replace(/[{}]/g, (ch) => (ch === '{' ? '{open}' : '{close}'));
+}
+
+/**
+ * Format the lines of the go-to prompt
+ *
+ * Shows the query followed by the matching slides, with the selected
+ * match highlighted.
+ *
+ * @param slides - Slides of the deck
+ * @param query - The typed query
+ * @param matches - Indexes of the matching slides
+ * @param selected - Position of the selected match
+ * @returns Tagged lines for the prompt
+ */
+export function formatGotoPrompt(
+  slides: Slide[],
+  query: string,
+  matches: number[],
+  selected: number
+): string[] {
+  const lines = [`> ${escapeTags(query)}█`, ''];
 
-  // Previous slide: Left, Backspace, p
-  screen.key(['left', 'backspace', 'p'], () => {
-    prevSlide(presenter);
+  if (query.trim() && matches.length === 0) {
+    lines.push('  No matching slides');
+  }
+
+  matches.slice(0, MAX_GOTO_MATCHES).forEach((index, i) => {
+    const line = `${index}: ${slides[index].frontmatter.title}`;
+    lines.push(i === selected ? `{inverse}▶ ${line}{/inverse}` : `  ${line}`);
   });
 
-  // Jump to slide: 0-9
-  screen.key(['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'], (ch) => {
-    const index = parseInt(ch, 10);
-    jumpToSlide(presenter, index);
+  return lines;
+}
+
+/**
+ * Show the go-to prompt
+ *
+ * Type a slide number or part of a title to see the matching slides,
+ * Up/Down to pick a match, Enter to jump, Escape to cancel.
+ *
+ * @param presenter - The presenter state
+ */
+function showGotoPrompt(presenter: Presenter): void {
+  const { screen } = presenter.renderer;
+  const { slides } = presenter.deck;
+  let query = '';
+  let matches: number[] = [];
+  let selected = 0;
+
+  const promptBox = blessed.box({
+    screen,
+    top: 'center',
+    left: 'center',
+    width: 50,
+    height: MAX_GOTO_MATCHES + 6,
+    border: { type: 'line' },
+    label: ' GO TO (number or title, Enter) ',
+    style: {
+      fg: '#ffffff',
+      bg: '#0a0a0a',
+      border: { fg: '#ffcc00' },
+    },
+    padding: 1,
+    tags: true,
+    keyable: true,
   });
 
-  // Show slide list: l
-  screen.key(['l'], () => {
-    showSlideList(presenter);
+  const update = () => {
+    promptBox.setContent(formatGotoPrompt(slides, query, matches, selected).join('\n'));
+    screen.render();
+  };
+
+  const close = openOverlay(presenter, promptBox, (ch, key) => {
+    if (key.full === 'escape') {
+      close();
+    } else if (key.full === 'enter') {
+      close();
+      if (matches.length > 0) {
+        jumpToSlide(presenter, matches[selected]);
+      }
+    } else if (key.full === 'up' || key.full === 'down') {
+      const count = Math.min(matches.length, MAX_GOTO_MATCHES);
+      if (count > 0) {
+        selected = (selected + (key.full === 'up' ? count - 1 : 1)) % count;
+        update();
+      }
+    } else if (key.full === 'backspace') {
+      query = query.slice(0, -1);
+      matches = matchSlides(slides, query);
+      selected = 0;
+      update();
+    } else if (ch && ch.length === 1 && ch >= ' ' && !key.ctrl && !key.meta) {
+      query += ch;
+      matches = matchSlides(slides, query);
+      selected = 0;
+      update();
+    }
   });
 
-  // Note: quit keys (q, Ctrl+C, Escape) are handled in the present() function
+  update();
+}
+
+/**
+ * Format the lines of the slide list overlay
+ *
+ * Lists all slides with the current slide marked. Slides in sections
+ * are grouped under a section heading and indented.
+ *
+ * @param slides - Slides of the deck
+ * @param currentSlide - Index of the current slide
+ * @param selected - Index of the highlighted slide (none if omitted)
+ * @returns Tagged lines for the slide list
+ */
+export function formatSlideList(slides: Slide[], currentSlide: number, selected?: number): string[] {
+  const lines: string[] = [];
+  let section: string | undefined;
+
+  slides.forEach((slide, i) => {
+    if (slide.section && slide.section !== section) {
+      lines.push(`{bold}${slide.section}{/bold}`);
+    }
+    section = slide.section;
+
+    const indent = slide.section ? '  ' : '';
+    const marker = i === currentSlide ? '▶ ' : '  ';
+    const line = `${marker}${i}: ${slide.frontmatter.title}`;
+    lines.push(i === selected ? `${indent}{inverse}${line}{/inverse}` : `${indent}${line}`);
+  });
+
+  return lines;
+}
+
+/**
+ * Get the line of a slide in the slide list (after section headings)
+ */
+function getSlideListLine(slides: Slide[], index: number): number {
+  let headings = 0;
+  for (let i = 0; i <= index; i++) {
+    if (slides[i].section && slides[i].section !== slides[i - 1]?.section) {
+      headings++;
+    }
+  }
+  return index + headings;
 }
 
 /**
  * Show slide list overlay
  *
- * Displays an overlay showing all slides in the deck with the current slide marked.
- * User can press Escape, l, or q to close, or press a number key to jump to that slide.
+ * Displays an overlay showing all slides in the deck with the current slide marked,
+ * grouped by section. Long decks scroll with the selection.
+ * User can move the selection with Up/Down (or the scroll keys, PageUp/PageDown)
+ * and press Enter to jump to it, press a number key to jump to that slide, or
+ * press Escape or the list or quit keys to close.
  *
  * @param presenter - The presenter state
  */
 function showSlideList(presenter: Presenter): void {
   const { screen } = presenter.renderer;
   const { slides } = presenter.deck;
-
-  // Build list content with current slide marker
-  const listContent = slides
-    .map((slide, i) => {
-      const marker = i === presenter.currentSlide ? '▶ ' : '  ';
-      return `${marker}${i}: ${slide.frontmatter.title}`;
-    })
-    .join('\n');
+  let selected = presenter.currentSlide;
 
   // Create overlay box centered on screen
-  const listBox = screen.box({
+  const listBox = blessed.box({
+    screen,
     top: 'center',
     left: 'center',
     width: 50,
-    height: Math.min(slides.length + 4, 20),
+    height: Math.min(formatSlideList(slides, selected).length + 4, SLIDE_LIST_HEIGHT),
     border: { type: 'line' },
-    label: ' SLIDES (press number or Esc) ',
+    label: ' SLIDES (↑↓ Enter, number or Esc) ',
     style: {
       fg: '#ffffff',
       bg: '#0a0a0a',
@@ -75,25 +375,98 @@ function showSlideList(presenter: Presenter): void {
     },
     padding: 1,
     tags: true,
-    content: listContent,
+    keyable: true,
+    scrollable: true,
   });
 
-  screen.append(listBox);
-
-  screen.render();
-
-  // Close list helper
-  const closeList = () => {
-    listBox.destroy();
+  // Highlight the selection and scroll it into view
+  const update = () => {
+    listBox.setContent(formatSlideList(slides, presenter.currentSlide, selected).join('\n'));
+    listBox.scrollTo(getSlideListLine(slides, selected));
     screen.render();
   };
 
-  // Close on Escape, l, or q
-  screen.onceKey(['escape', 'l', 'q'], closeList);
+  const select = (index: number) => {
+    selected = Math.max(0, Math.min(index, slides.length - 1));
+    update();
+  };
+
+  const pageSize = SLIDE_LIST_HEIGHT - 4;
+
+  const close = openOverlay(presenter, listBox, (ch, key) => {
+    const action = getKeyAction(getKeybindings(presenter.deck.config.settings), key.full);
+
+    if (key.full === 'escape' || action === 'list' || action === 'quit') {
+      close();
+    } else if (key.full === 'enter') {
+      close();
+      jumpToSlide(presenter, selected);
+    } else if (key.full === 'up' || action === 'scrollUp') {
+      select(selected - 1);
+    } else if (key.full === 'down' || action === 'scrollDown') {
+      select(selected + 1);
+    } else if (key.full === 'pageup') {
+      select(selected - pageSize);
+    } else if (key.full === 'pagedown') {
+      select(selected + pageSize);
+    } else if (ch && /^[0-9]$/.test(ch)) {
+      // Number keys jump to slide and close
+      close();
+      jumpToSlide(presenter, parseInt(ch, 10));
+    }
+  });
+
+  update();
+}
+
+/**
+ * Format the lines of the help overlay
+ *
+ * Lists the keys of every action, as configured for the deck.
+ *
+ * @param keybindings - Keyboard bindings
+ * @returns Tagged lines for the help overlay
+ */
+export function formatHelpOverlay(keybindings: Keybindings): string[] {
+  const hotkeys = getHotkeys(keybindings);
+  const width = Math.max(...hotkeys.map((hotkey) => hotkey.keys.length)) + 3;
+
+  return hotkeys.map(({ keys, description }) => `{bold}${escapeTags(keys.padEnd(width))}{/bold}${description}`);
+}
+
+/**
+ * Show help overlay
+ *
+ * Displays the keys of the presentation, following the deck's
+ * keybindings. Any key closes it.
+ *
+ * @param presenter - The presenter state
+ */
+function showHelpOverlay(presenter: Presenter): void {
+  const { screen } = presenter.renderer;
+  const lines = formatHelpOverlay(getKeybindings(presenter.deck.config.settings));
+
+  const helpBox = blessed.box({
+    screen,
+    top: 'center',
+    left: 'center',
+    width: 60,
+    height: Math.min(lines.length + 4, (screen.height as number) || 24),
+    border: { type: 'line' },
+    label: ' KEYS (any key to close) ',
+    style: {
+      fg: '#ffffff',
+      bg: '#0a0a0a',
+      border: { fg: '#ffcc00' },
+    },
+    padding: 1,
+    tags: true,
+    keyable: true,
+    content: lines.join('\n'),
+  });
 
-  // Number keys jump to slide and close
-  screen.onceKey(['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'], (ch) => {
-    closeList();
-    jumpToSlide(presenter, parseInt(ch ?? '0', 10));
+  // Enter arrives as 'return' followed by 'enter', close on the latter
+  const close = openOverlay(presenter, helpBox, (_ch, key) => {
+    if (key.full !== 'return') close();
   });
 }
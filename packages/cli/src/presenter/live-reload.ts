@@ -0,0 +1,332 @@
+import { statSync, watch, type FSWatcher } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import blessed from 'neo-blessed';
+import fg from 'fast-glob';
+import { loadDeck } from '../core/deck-loader.js';
+import { countFragments } from '../core/fragments.js';
+import { SlideParseError, formatSlideError } from '../core/slide.js';
+import { ValidationError } from '../schemas/validation.js';
+import type { Slide } from '../schemas/slide.js';
+import { clearWindows, renderSlideStack } from '../renderer/screen.js';
+import { updateUIComponents } from './navigation.js';
+import { isScreenHeld } from './screen-modes.js';
+import { updateSizeWarning } from './resize.js';
+import type { DeckWatcher, Presenter } from './types.js';
+
+/**
+ * Delay before reloading after the last file change (ms).
+ * Editors often write a file in several steps, so changes are batched.
+ */
+const RELOAD_DEBOUNCE_MS = 100;
+
+/**
+ * Check whether a changed file should trigger a reload
+ *
+ * Only slide markdown files, the deck config and the slide order
+ * manifest are watched. For a single-file deck, only the deck file
+ * itself and the deck config are.
+ *
+ * @param filename - Name of the changed file (relative to the watched directory)
+ * @param deckFile - Name of the deck file, for single-file decks
+ * @returns true if the file is part of the deck
+ */
+function isDeckFile(filename: string, deckFile?: string): boolean {
+  if (/^deck\.config\.(js|ts)$/.test(filename)) return true;
+  if (!deckFile && filename === 'deck.order') return true;
+  return deckFile ? filename === deckFile : filename.endsWith('.md');
+}
+
+/**
+ * Check whether a deck path points to a single deck file
+ *
+ * @param deckPath - Slides directory or deck file path
+ * @returns true if the path is an existing file
+ */
+function isSingleFileDeck(deckPath: string): boolean {
+  try {
+    return statSync(deckPath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Watch a directory and its subdirectories for changes
+ *
+ * Uses a recursive watch where the platform supports it. Linux only
+ * supports recursive watches from Node 19.1, so older versions watch
+ * the directory and each subdirectory found at startup instead
+ * (subdirectories added later are not watched).
+ *
+ * @param dir - Directory to watch
+ * @param onChange - Called with the changed file, relative to the directory
+ * @returns The file system watchers
+ */
+export function watchDirectory(
+  dir: string,
+  onChange: (filename: string | null) => void
+): FSWatcher[] {
+  try {
+    return [watch(dir, { recursive: true }, (_event, filename) => onChange(filename?.toString() ?? null))];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') throw error;
+  }
+
+  const subdirs = fg.sync('**', {
+    cwd: dir,
+    onlyDirectories: true,
+    ignore: ['**/node_modules/**', '**/.git/**'],
+  });
+
+  return ['', ...subdirs].map((subdir) =>
+    watch(join(dir, subdir), (_event, filename) =>
+      onChange(filename ? join(subdir, filename.toString()) : null)
+    )
+  );
+}
+
+/**
+ * Start watching a deck directory for changes
+ *
+ * Changes to slide files or deck.config trigger a debounced reload of
+ * the deck. For a single-file deck, the directory containing the file
+ * is watched, since editors often replace the file on save. Reload
+ * errors are shown as an overlay instead of ending the presentation.
+ * Deck directories are watched with their subdirectories to include
+ * sections (see watchDirectory).
+ *
+ * @param presenter - The presenter state
+ * @param slidesDir - Directory containing the slides, or a deck file
+ * @returns The deck watcher state
+ */
+export function watchDeck(presenter: Presenter, slidesDir: string): DeckWatcher {
+  const deckFile = isSingleFileDeck(slidesDir) ? basename(slidesDir) : undefined;
+
+  const onChange = (filename: string | null) => {
+    if (filename && !isDeckFile(filename, deckFile)) return;
+    scheduleReload(presenter, deckWatcher);
+  };
+
+  const watchers = deckFile
+    ? [watch(dirname(slidesDir), (_event, filename) => onChange(filename?.toString() ?? null))]
+    : watchDirectory(slidesDir, onChange);
+
+  const deckWatcher: DeckWatcher = {
+    slidesDir,
+    watchers,
+    debounceTimer: null,
+    errorOverlay: null,
+  };
+
+  // Watch errors (e.g. directory removed) should not crash the session
+  for (const watcher of watchers) {
+    watcher.on('error', (error) => {
+      showErrorOverlay(presenter, deckWatcher, error);
+    });
+  }
+
+  return deckWatcher;
+}
+
+/**
+ * Stop watching the deck directory
+ *
+ * Cancels any pending reload and closes the file system watcher.
+ *
+ * @param deckWatcher - The deck watcher to stop
+ */
+export function stopWatchingDeck(deckWatcher: DeckWatcher): void {
+  if (deckWatcher.debounceTimer) {
+    clearTimeout(deckWatcher.debounceTimer);
+    deckWatcher.debounceTimer = null;
+  }
+  for (const watcher of deckWatcher.watchers) {
+    watcher.close();
+  }
+}
+
+/**
+ * Schedule a debounced reload
+ *
+ * If a transition is running or the screen is blacked out or frozen when
+ * the timer fires, the reload is postponed until it has finished.
+ *
+ * @param presenter - The presenter state
+ * @param deckWatcher - The deck watcher state
+ */
+function scheduleReload(presenter: Presenter, deckWatcher: DeckWatcher): void {
+  if (deckWatcher.debounceTimer) {
+    clearTimeout(deckWatcher.debounceTimer);
+  }
+
+  deckWatcher.debounceTimer = setTimeout(() => {
+    deckWatcher.debounceTimer = null;
+
+    if (presenter.isAnimating || isScreenHeld(presenter)) {
+      scheduleReload(presenter, deckWatcher);
+      return;
+    }
+
+    void reloadDeck(presenter, deckWatcher);
+  }, RELOAD_DEBOUNCE_MS);
+}
+
+/**
+ * Reload the deck from disk and re-render the current window stack
+ *
+ * Keeps the presenter on the same slide (matched by source path when
+ * possible) and fragment, applies the reloaded theme, and re-renders all windows up
+ * to the current slide without transitions. On failure, the previous
+ * deck stays active and the error is shown as an overlay.
+ *
+ * @param presenter - The presenter state
+ * @param deckWatcher - The deck watcher state
+ */
+export async function reloadDeck(
+  presenter: Presenter,
+  deckWatcher: DeckWatcher
+): Promise<void> {
+  presenter.isAnimating = true;
+
+  try {
+    const deck = await loadDeck(deckWatcher.slidesDir, { bustCache: true });
+
+    if (deck.slides.length === 0) {
+      throw new Error(`No slides found in ${deckWatcher.slidesDir}`);
+    }
+
+    const previousSlide = presenter.deck.slides[presenter.currentSlide];
+    const index = findReloadedSlideIndex(previousSlide, deck.slides, presenter.currentSlide);
+
+    hideErrorOverlay(deckWatcher);
+
+    presenter.deck = deck;
+    presenter.currentSlide = index;
+    presenter.currentFragment = Math.min(
+      presenter.currentFragment,
+      countFragments(deck.slides[index].body, deck.slides[index].frontmatter.fragments) - 1
+    );
+    presenter.renderer.theme = deck.config.theme;
+    presenter.renderer.matrixRain.theme = deck.config.theme;
+    presenter.renderer.autoFit = deck.config.settings?.autoFit ?? false;
+    presenter.renderer.layout = deck.config.settings?.layout ?? 'random';
+    presenter.renderer.layoutSeed = deck.config.settings?.layoutSeed ?? 0;
+    presenter.renderer.maxStackDepth = deck.config.settings?.maxStackDepth ?? 0;
+    presenter.renderer.stackTrim = deck.config.settings?.stackTrim ?? 'destroy';
+
+    // Re-render the stack instantly, the content is already familiar
+    clearWindows(presenter.renderer);
+    await renderSlideStack(presenter.renderer, deck.slides, index, presenter.currentFragment, false);
+
+    // The designed size may have changed with the export settings
+    updateSizeWarning(presenter);
+    updateUIComponents(presenter, index);
+    presenter.renderer.screen.render();
+  } catch (error) {
+    showErrorOverlay(presenter, deckWatcher, error);
+  } finally {
+    presenter.isAnimating = false;
+  }
+}
+
+/**
+ * Find the index of the current slide in a reloaded deck
+ *
+ * Matches the previously shown slide by its source path so the presenter
+ * stays on the same slide when slides are added or removed before it.
+ * Source paths shared by several slides (single-file decks) cannot be
+ * matched, so the previous index is used, clamped to the new deck length.
+ *
+ * @param previousSlide - The slide shown before the reload
+ * @param slides - Slides of the reloaded deck
+ * @param fallbackIndex - Index to use if no slide matches
+ * @returns Slide index in the reloaded deck
+ */
+export function findReloadedSlideIndex(
+  previousSlide: Slide | undefined,
+  slides: Slide[],
+  fallbackIndex: number
+): number {
+  if (previousSlide) {
+    const matches = slides.filter((slide) => slide.sourcePath === previousSlide.sourcePath);
+    if (matches.length === 1) return slides.indexOf(matches[0]);
+  }
+
+  return Math.max(0, Math.min(fallbackIndex, slides.length - 1));
+}
+
+/**
+ * Format a reload error for the error overlay
+ *
+ * @param error - The error thrown while reloading
+ * @returns Plain text error message
+ */
+export function formatReloadError(error: unknown): string {
+  if (error instanceof SlideParseError) {
+    return formatSlideError(error).trimEnd();
+  }
+
+  if (error instanceof ValidationError || error instanceof Error) {
+    return error.message;
+  }
+
+  return String(error);
+}
+
+/**
+ * Show an error overlay on top of the current slide
+ *
+ * Replaces any existing overlay. The overlay stays visible until the
+ * next successful reload.
+ *
+ * @param presenter - The presenter state
+ * @param deckWatcher - The deck watcher state
+ * @param error - The error to display
+ */
+function showErrorOverlay(
+  presenter: Presenter,
+  deckWatcher: DeckWatcher,
+  error: unknown
+): void {
+  const { screen, theme } = presenter.renderer;
+  const errorColor = theme.colors.error ?? '#ff3333';
+
+  hideErrorOverlay(deckWatcher);
+
+  const message = formatReloadError(error);
+  const lines = message.split('\n');
+
+  const overlay = blessed.box({
+    top: 'center',
+    left: 'center',
+    width: '80%',
+    height: Math.min(lines.length + 6, (screen.height as number) || 24),
+    border: { type: 'line' },
+    label: ' RELOAD FAILED ',
+    style: {
+      fg: theme.colors.text,
+      bg: theme.colors.background,
+      border: { fg: errorColor },
+      label: { fg: errorColor, bold: true },
+    },
+    padding: { top: 0, bottom: 0, left: 1, right: 1 },
+    tags: false,
+    content: `${message}\n\nFix the file and save to reload.`,
+  });
+
+  screen.append(overlay);
+  deckWatcher.errorOverlay = overlay;
+  screen.render();
+}
+
+/**
+ * Remove the error overlay if one is shown
+ *
+ * @param deckWatcher - The deck watcher state
+ */
+function hideErrorOverlay(deckWatcher: DeckWatcher): void {
+  if (deckWatcher.errorOverlay) {
+    deckWatcher.errorOverlay.destroy();
+    deckWatcher.errorOverlay = null;
+  }
+}
@@ -1,9 +1,40 @@
 import blessed from 'neo-blessed';
+import { createInterface } from 'node:readline/promises';
 import { loadDeck } from '../core/deck-loader.js';
 import { createRenderer, destroyRenderer } from '../renderer/screen.js';
+import { createStatusBar, getStatusBarItems } from '../renderer/status-bar.js';
 import { createNotesWindow, destroyNotesWindow } from './notes-window.js';
-import { setupControls } from './keyboard-controls.js';
-import { showSlide, nextSlide, updateProgress } from './navigation.js';
+import { setupControls, handleNotesCommand } from './keyboard-controls.js';
+import { startNotesServer, stopNotesServer } from './notes-server.js';
+import { parseNotesAddress } from './notes-protocol.js';
+import {
+  startRemoteServer,
+  stopRemoteServer,
+  createRemoteToken,
+  getRemoteUrls,
+} from './remote-server.js';
+import { watchDeck, stopWatchingDeck } from './live-reload.js';
+import {
+  showSlide,
+  nextSlide,
+  updateProgress,
+  refreshNotesTimer,
+  refreshStatusBar,
+  getPresenterNotesState,
+  getRemoteState,
+  jumpToSlide,
+  prevSlide,
+} from './navigation.js';
+import { createTalkTimer } from './talk-timer.js';
+import { getKeyAction, getKeybindings } from './keybindings.js';
+import { isScreenHeld } from './screen-modes.js';
+import { watchResize, stopResize, updateSizeWarning } from './resize.js';
+import {
+  createAutoAdvance,
+  getAutoAdvanceInterval,
+  restartAutoAdvance,
+  stopAutoAdvance,
+} from './auto-advance.js';
 import type { Presenter, PresentOptions } from './types.js';
 
 export type { Presenter, PresentOptions };
@@ -17,8 +48,9 @@ export { jumpToSlide, prevSlide } from './navigation.js';
  * Loads the deck, creates the renderer, sets up keyboard controls,
  * and enters the main presentation loop.
  *
- * @param slidesDir - Directory containing markdown slides and deck.config.ts
- * @param options - Presentation options (startSlide, showNotes, notesTty, loop)
+ * @param slidesDir - Directory containing markdown slides and deck.config.ts, or a deck file
+ * @param options - Presentation options (startSlide, showNotes, notesTty, notesServer,
+ *   remotePort, remoteToken, loop, autoAdvance, watch)
  * @returns Promise that resolves when the presentation ends (user quits)
  *
  * @example
@@ -37,18 +69,37 @@ export async function present(
     throw new Error(`No slides found in ${slidesDir}`);
   }
 
+  // Show the remote control address before the presentation takes over the terminal
+  const remoteToken = options.remoteToken ?? createRemoteToken();
+  if (options.remotePort !== undefined) {
+    await announceRemote(options.remotePort, remoteToken);
+  }
+
   // Create renderer
-  const renderer = createRenderer(deck.config.theme);
+  const renderer = createRenderer(deck.config.theme, deck.config.settings);
 
   // Create presenter state
   const presenter: Presenter = {
     deck,
+    options,
     renderer,
     currentSlide: options.startSlide ?? deck.config.settings?.startSlide ?? 0,
+    currentFragment: 0,
     isAnimating: false,
+    blackout: null,
+    frozen: false,
     notesWindow: null,
-    autoAdvanceTimer: null,
+    notesServer: null,
+    remoteServer: null,
+    talkTimer: createTalkTimer(),
+    notesTicker: null,
+    autoAdvance: null,
     progressBar: null,
+    statusBar: null,
+    statusTicker: null,
+    deckWatcher: null,
+    resizeTimer: null,
+    sizeWarning: null,
   };
 
   // Setup notes window if requested
@@ -62,11 +113,48 @@ export async function present(
     }
   }
 
+  // Serve notes to `term-deck notes` clients if requested
+  if (options.notesServer) {
+    try {
+      const address = parseNotesAddress(options.notesServer === true ? undefined : options.notesServer);
+      presenter.notesServer = await startNotesServer(address, {
+        getState: () => getPresenterNotesState(presenter, presenter.currentSlide),
+        onCommand: (command) => handleNotesCommand(presenter, command),
+      });
+    } catch (error) {
+      cleanup(presenter);
+      throw error;
+    }
+  }
+
+  // Start remote control server if requested
+  if (options.remotePort !== undefined) {
+    try {
+      presenter.remoteServer = await startRemoteServer(options.remotePort, {
+        getState: () => getRemoteState(presenter, presenter.currentSlide),
+        onCommand: async (command) => {
+          if (command.type === 'next') await nextSlide(presenter);
+          else if (command.type === 'prev') await prevSlide(presenter);
+          else await jumpToSlide(presenter, command.index);
+        },
+      }, { token: remoteToken });
+    } catch (error) {
+      cleanup(presenter);
+      throw error;
+    }
+  }
+
   // Setup progress bar if enabled
   if (deck.config.settings?.showProgress) {
     presenter.progressBar = createProgressBar(presenter);
   }
 
+  // Setup status bar if configured (above the progress bar)
+  const statusItems = getStatusBarItems(deck.config.settings);
+  if (statusItems.length > 0) {
+    presenter.statusBar = createStatusBar(renderer.screen, renderer.theme, presenter.progressBar ? 1 : 0);
+  }
+
   // Setup keyboard controls
   setupControls(presenter);
 
@@ -75,17 +163,48 @@ export async function present(
 
   // Update progress bar
   if (presenter.progressBar) {
-    updateProgress(presenter.progressBar, presenter.currentSlide, deck.slides.length);
+    updateProgress(
+      presenter.progressBar,
+      presenter.currentSlide,
+      deck.slides.length,
+      deck.slides[presenter.currentSlide]?.section
+    );
+  }
+
+  // Refresh the talk timer in the notes window and clients every second
+  if (presenter.notesWindow || presenter.notesServer) {
+    presenter.notesTicker = setInterval(() => refreshNotesTimer(presenter), 1000);
+  }
+
+  // Keep the status bar clock current (unless the screen is held)
+  if (presenter.statusBar && statusItems.includes('clock')) {
+    presenter.statusTicker = setInterval(() => {
+      if (!isScreenHeld(presenter)) refreshStatusBar(presenter);
+    }, 1000);
+  }
+
+  // Start auto-play if configured (each slide restarts the timer)
+  if (getAutoAdvanceInterval(presenter) > 0) {
+    presenter.autoAdvance = createAutoAdvance(() => nextSlide(presenter));
+    restartAutoAdvance(presenter);
   }
 
-  // Start auto-advance if configured
-  presenter.autoAdvanceTimer = startAutoAdvance(presenter);
+  // Lay out the slides again when the terminal is resized
+  updateSizeWarning(presenter);
+  watchResize(presenter);
+
+  // Reload slides on file changes if requested
+  if (options.watch) {
+    presenter.deckWatcher = watchDeck(presenter, slidesDir);
+  }
 
   // Keep process alive until quit
   await new Promise<void>((resolve) => {
-    renderer.screen.key(['q', 'C-c', 'escape'], () => {
-      cleanup(presenter);
-      resolve();
+    renderer.screen.on('keypress', (_ch, key) => {
+      if (getKeyAction(getKeybindings(presenter.deck.config.settings), key.full) === 'quit') {
+        cleanup(presenter);
+        resolve();
+      }
     });
   });
 }
@@ -93,56 +212,58 @@ export async function present(
 /**
  * Cleanup resources
  *
- * Destroys the notes window (if present), stops auto-advance timer,
+ * Destroys the notes window, notes server and remote server (if present), stops the notes
+ * and status tickers, auto-advance timer, pending re-layout and deck watcher,
  * and destroys the main renderer, freeing all resources and restoring the terminal.
  *
  * @param presenter - The presenter state to clean up
  */
 function cleanup(presenter: Presenter): void {
-  stopAutoAdvance(presenter.autoAdvanceTimer);
+  if (presenter.autoAdvance) {
+    stopAutoAdvance(presenter.autoAdvance);
+  }
+  if (presenter.notesTicker) {
+    clearInterval(presenter.notesTicker);
+  }
+  if (presenter.statusTicker) {
+    clearInterval(presenter.statusTicker);
+  }
+  stopResize(presenter);
+  if (presenter.deckWatcher) {
+    stopWatchingDeck(presenter.deckWatcher);
+  }
   if (presenter.notesWindow) {
     destroyNotesWindow(presenter.notesWindow);
   }
+  if (presenter.notesServer) {
+    void stopNotesServer(presenter.notesServer);
+  }
+  if (presenter.remoteServer) {
+    void stopRemoteServer(presenter.remoteServer);
+  }
   destroyRenderer(presenter.renderer);
 }
 
 /**
- * Start auto-advance timer
+ * Print the remote control address and token
  *
- * Automatically advances to the next slide at a specified interval.
- * Respects the isAnimating flag to avoid advancing during animations.
- * Returns null if auto-advance is disabled (interval <= 0).
+ * Waits for Enter when run in a terminal, so the address can be copied
+ * (or opened on a phone) before the presentation clears the screen.
  *
- * @param presenter - The presenter state
- * @returns Timer object if auto-advance is enabled, null otherwise
+ * @param port - Port of the remote control server
+ * @param token - Shared-secret token
  */
-function startAutoAdvance(presenter: Presenter): ReturnType<typeof setInterval> | null {
-  const interval = presenter.deck.config.settings?.autoAdvance;
-
-  // Auto-advance disabled if interval is undefined, 0, or negative
-  if (!interval || interval <= 0) {
-    return null;
+async function announceRemote(port: number, token: string): Promise<void> {
+  console.log('Remote control:');
+  for (const url of getRemoteUrls(port, token)) {
+    console.log(`  ${url}`);
   }
+  console.log(`Token: ${token}`);
 
-  // Start interval timer
-  return setInterval(() => {
-    // Only advance if not currently animating
-    if (!presenter.isAnimating) {
-      nextSlide(presenter);
-    }
-  }, interval);
-}
-
-/**
- * Stop auto-advance timer
- *
- * Clears the auto-advance interval timer if it exists.
- *
- * @param timer - The timer to stop (can be null)
- */
-function stopAutoAdvance(timer: ReturnType<typeof setInterval> | null): void {
-  if (timer) {
-    clearInterval(timer);
+  if (process.stdin.isTTY) {
+    const prompt = createInterface({ input: process.stdin, output: process.stdout });
+    await prompt.question('\nPress Enter to start the presentation...');
+    prompt.close();
   }
 }
 
@@ -1,54 +1,129 @@
 import blessed from 'neo-blessed';
 import type { Presenter } from './types.js';
-import { renderSlide, clearWindows } from '../renderer/screen.js';
-import { updateNotesWindow } from './notes-window.js';
+import type { Slide } from '../schemas/slide.js';
+import {
+  renderSlide,
+  renderSlideStack,
+  showFragment as showSlideFragment,
+  scrollSlide as scrollSlideWindow,
+} from '../renderer/screen.js';
+import { countFragments } from '../core/fragments.js';
+import { getNotesState, renderNotes, updateNotesTimer, buildSlidePreview } from './notes-window.js';
+import { resolveSlideTheme } from '../core/theme-resolver.js';
+import { broadcastNotes } from './notes-server.js';
+import { broadcastRemoteState, type RemoteState } from './remote-server.js';
+import type { NotesState } from './notes-protocol.js';
+import { parseDuration } from '../core/duration.js';
+import { getTimerStatus, type TimerStatus } from './talk-timer.js';
+import { isScreenHeld } from './screen-modes.js';
+import { isLooping, restartAutoAdvance } from './auto-advance.js';
+import { getStatusBarInfo, getStatusBarItems, updateStatusBar } from '../renderer/status-bar.js';
+
+// Next slide previews for the notes, per slide
+const slidePreviews = new WeakMap<Slide, Promise<string[] | undefined>>();
+
+/**
+ * Count the fragments of a slide
+ *
+ * @param slide - The slide to count fragments for
+ * @returns Number of fragments (1 for a slide without fragments)
+ */
+function getFragmentCount(slide: Slide): number {
+  return countFragments(slide.body, slide.frontmatter.fragments);
+}
 
 /**
  * Show a specific slide
  *
- * Renders the specified slide index and updates notes/progress.
- * Respects the isAnimating flag to prevent concurrent transitions.
+ * Renders the specified slide index with its first fragment, updates
+ * notes/progress and restarts auto-play. Respects the isAnimating flag to prevent concurrent
+ * transitions, and holds still while the screen is blacked out or frozen.
  *
  * @param presenter - The presenter state
  * @param index - The slide index to show (0-based)
  */
 export async function showSlide(presenter: Presenter, index: number): Promise<void> {
-  if (presenter.isAnimating) return;
+  if (presenter.isAnimating || isScreenHeld(presenter)) return;
   if (index < 0 || index >= presenter.deck.slides.length) return;
 
   presenter.isAnimating = true;
   presenter.currentSlide = index;
+  presenter.currentFragment = 0;
 
   const slide = presenter.deck.slides[index];
 
-  // Render slide
-  await renderSlide(presenter.renderer, slide);
-  presenter.renderer.screen.render();
+  try {
+    // Render slide
+    await renderSlide(presenter.renderer, slide, 0);
+    presenter.renderer.screen.render();
 
-  // Update notes window
-  if (presenter.notesWindow) {
-    const nextSlide = presenter.deck.slides[index + 1];
-    updateNotesWindow(
-      presenter.notesWindow,
-      slide,
-      nextSlide,
-      index,
-      presenter.deck.slides.length
-    );
+    // Update notes window, notes clients and remote controls
+    void updateNotes(presenter, index);
+    updateRemote(presenter, index);
+
+    // Update progress and status bars
+    if (presenter.progressBar) {
+      updateProgress(presenter.progressBar, presenter.currentSlide, presenter.deck.slides.length, slide.section);
+    }
+    refreshStatusBar(presenter);
+  } finally {
+    presenter.isAnimating = false;
   }
 
-  // Update progress bar
-  if (presenter.progressBar) {
-    updateProgress(presenter.progressBar, presenter.currentSlide, presenter.deck.slides.length);
+  restartAutoAdvance(presenter);
+}
+
+/**
+ * Show a fragment of the current slide
+ *
+ * Reveals fragments up to the given index in the current window. Moving
+ * forward animates the new fragment with the slide's transition; moving
+ * back hides fragments instantly.
+ *
+ * @param presenter - The presenter state
+ * @param fragment - The fragment index to show (0-based)
+ */
+export async function showFragment(presenter: Presenter, fragment: number): Promise<void> {
+  if (presenter.isAnimating || isScreenHeld(presenter)) return;
+
+  const slide = presenter.deck.slides[presenter.currentSlide];
+  if (!slide || fragment < 0 || fragment >= getFragmentCount(slide)) return;
+
+  const animate = fragment > presenter.currentFragment;
+
+  presenter.isAnimating = true;
+  presenter.currentFragment = fragment;
+
+  try {
+    await showSlideFragment(presenter.renderer, slide, fragment, animate);
+    presenter.renderer.screen.render();
+  } finally {
+    presenter.isAnimating = false;
   }
 
-  presenter.isAnimating = false;
+  restartAutoAdvance(presenter);
+}
+
+/**
+ * Scroll the current slide
+ *
+ * Scrolls the content of the current slide window when it is taller
+ * than the window. Ignored while a slide is animating or the screen is held.
+ *
+ * @param presenter - The presenter state
+ * @param offset - Rows to scroll (negative scrolls up)
+ */
+export function scrollSlide(presenter: Presenter, offset: number): void {
+  if (presenter.isAnimating || isScreenHeld(presenter)) return;
+
+  scrollSlideWindow(presenter.renderer, offset);
 }
 
 /**
  * Go to next slide
  *
- * Advances to the next slide in the deck. If at the last slide:
+ * Reveals the next fragment of the current slide if it has any left.
+ * Otherwise advances to the next slide in the deck. If at the last slide:
  * - If loop is enabled, wraps to first slide
  * - If loop is disabled, stays on last slide
  *
@@ -57,7 +132,13 @@ export async function showSlide(presenter: Presenter, index: number): Promise<vo
 export async function nextSlide(presenter: Presenter): Promise<void> {
   const nextIndex = presenter.currentSlide + 1;
   const { slides } = presenter.deck;
-  const loop = presenter.deck.config.settings?.loop ?? false;
+  const loop = isLooping(presenter);
+
+  const current = slides[presenter.currentSlide];
+  if (current && presenter.currentFragment < getFragmentCount(current) - 1) {
+    await showFragment(presenter, presenter.currentFragment + 1);
+    return;
+  }
 
   if (nextIndex >= slides.length) {
     if (loop) {
@@ -72,56 +153,48 @@ export async function nextSlide(presenter: Presenter): Promise<void> {
 /**
  * Go to previous slide
  *
- * Goes back to the previous slide in the deck. If at the first slide:
+ * Hides the last revealed fragment of the current slide if any are shown.
+ * Otherwise goes back to the previous slide in the deck, with all of its
+ * fragments revealed. If at the first slide:
  * - If loop is enabled, wraps to last slide
  * - If loop is disabled, stays on first slide
  *
- * To maintain the stacked window effect, this function clears all windows
- * and re-renders all slides from 0 up to the target slide.
+ * The windows of the slides before the target stay as they are (see
+ * renderSlideStack), so only the target slide animates. Does nothing
+ * while a slide is animating or the screen is blacked out or frozen.
  *
  * @param presenter - The presenter state
  */
 export async function prevSlide(presenter: Presenter): Promise<void> {
-  const prevIndex = presenter.currentSlide - 1;
+  if (presenter.isAnimating || isScreenHeld(presenter)) return;
+
   const { slides } = presenter.deck;
-  const loop = presenter.deck.config.settings?.loop ?? false;
 
-  if (prevIndex < 0) {
-    if (loop) {
-      // Clear and re-render all slides up to the last one
-      clearWindows(presenter.renderer);
-      for (let i = 0; i < slides.length; i++) {
-        await renderSlide(presenter.renderer, slides[i]);
-      }
-      presenter.currentSlide = slides.length - 1;
-
-      updateUIComponents(presenter, slides.length - 1);
-      presenter.renderer.screen.render();
-    }
-    // If not looping, stay at current slide (index 0)
+  if (presenter.currentFragment > 0) {
+    await showFragment(presenter, presenter.currentFragment - 1);
     return;
   }
 
-  // Clear windows and re-render from start up to prevIndex
-  clearWindows(presenter.renderer);
-  for (let i = 0; i <= prevIndex; i++) {
-    await renderSlide(presenter.renderer, slides[i]);
+  let prevIndex = presenter.currentSlide - 1;
+  if (prevIndex < 0) {
+    // If not looping, stay at current slide (index 0)
+    if (!isLooping(presenter)) return;
+    prevIndex = slides.length - 1;
   }
 
-  presenter.currentSlide = prevIndex;
-
-  updateUIComponents(presenter, prevIndex);
-  presenter.renderer.screen.render();
+  await showSlideStack(presenter, prevIndex, getFragmentCount(slides[prevIndex]) - 1);
 }
 
 /**
  * Jump to a specific slide by index
  *
- * Jumps directly to the specified slide index. To maintain the stacked window
- * effect, this function clears all windows and re-renders all slides from 0
- * up to the target slide.
+ * Jumps directly to the specified slide index. The stacked windows of the
+ * slides before it are kept or restored instantly (see renderSlideStack),
+ * so only the target slide animates. The target slide starts at its first
+ * fragment.
  *
- * Invalid indices (negative or beyond deck length) are ignored.
+ * Invalid indices (negative or beyond deck length) are ignored, as are jumps
+ * while a slide is animating or the screen is blacked out or frozen.
  *
  * @param presenter - The presenter state
  * @param index - The slide index to jump to (0-based)
@@ -129,16 +202,32 @@ export async function prevSlide(presenter: Presenter): Promise<void> {
 export async function jumpToSlide(presenter: Presenter, index: number): Promise<void> {
   // Check bounds - ignore invalid indices
   if (index < 0 || index >= presenter.deck.slides.length) return;
+  if (presenter.isAnimating || isScreenHeld(presenter)) return;
 
-  // Clear all windows to prepare for re-rendering
-  clearWindows(presenter.renderer);
+  await showSlideStack(presenter, index, 0);
+}
 
-  // Re-render slides 0 through target index to preserve stacking
-  for (let i = 0; i <= index; i++) {
-    await renderSlide(presenter.renderer, presenter.deck.slides[i]);
+/**
+ * Show a slide on top of the stacked windows of the slides before it
+ *
+ * Holds off other navigation while the stack is rendered, then updates
+ * the UI components for the slide.
+ *
+ * @param presenter - The presenter state
+ * @param index - The slide index to show (0-based)
+ * @param fragment - The fragment index to show (0-based)
+ */
+async function showSlideStack(presenter: Presenter, index: number, fragment: number): Promise<void> {
+  presenter.isAnimating = true;
+
+  try {
+    await renderSlideStack(presenter.renderer, presenter.deck.slides, index, fragment);
+  } finally {
+    presenter.isAnimating = false;
   }
 
   presenter.currentSlide = index;
+  presenter.currentFragment = fragment;
 
   updateUIComponents(presenter, index);
   presenter.renderer.screen.render();
@@ -148,46 +237,202 @@ export async function jumpToSlide(presenter: Presenter, index: number): Promise<
  * Update progress bar
  *
  * Updates the progress bar to reflect the current slide position.
- * Progress is calculated as (current + 1) / total * 100.
+ * Progress is calculated as (current + 1) / total * 100. The section
+ * name of the current slide, if any, is shown on the bar.
  *
  * @param progressBar - The progress bar element to update
  * @param current - Current slide index (0-based)
  * @param total - Total number of slides
+ * @param section - Section name of the current slide
  */
 export function updateProgress(
   progressBar: blessed.Widgets.ProgressBarElement,
   current: number,
-  total: number
+  total: number,
+  section?: string
 ): void {
   const progress = ((current + 1) / total) * 100;
+  progressBar.setContent(section ? ` ${section} ` : '');
   progressBar.setProgress(progress);
 }
 
+/**
+ * Refresh the status bar
+ *
+ * Shows the current slide, deck metadata and clock, as configured by
+ * settings.statusBar, and renders the screen. Does nothing without a
+ * status bar.
+ *
+ * @param presenter - The presenter state
+ */
+export function refreshStatusBar(presenter: Presenter): void {
+  if (!presenter.statusBar) return;
+
+  updateStatusBar(
+    presenter.statusBar,
+    getStatusBarItems(presenter.deck.config.settings),
+    getStatusBarInfo(presenter.deck, presenter.currentSlide),
+    presenter.renderer.theme
+  );
+  presenter.renderer.screen.render();
+}
+
+/**
+ * Get the timer status of the talk at a slide
+ *
+ * @param presenter - The presenter state
+ * @param index - Slide index (0-based)
+ * @returns Elapsed time, target and pacing against settings.duration
+ */
+function getNotesTimerStatus(presenter: Presenter, index: number): TimerStatus {
+  const duration = parseDuration(presenter.deck.config.settings?.duration ?? 0) ?? 0;
+  return getTimerStatus(presenter.talkTimer, presenter.deck.slides, index, duration);
+}
+
+/**
+ * Get the notes preview of a slide
+ *
+ * Previews are cached per slide. Slides that fail to render (e.g. with
+ * a broken theme) have no preview.
+ *
+ * @param presenter - The presenter state
+ * @param slide - The slide to preview
+ * @returns Preview lines, or undefined if the slide cannot be rendered
+ */
+function getSlidePreview(presenter: Presenter, slide: Slide): Promise<string[] | undefined> {
+  let preview = slidePreviews.get(slide);
+
+  if (!preview) {
+    preview = resolveSlideTheme(slide, presenter.deck.config.theme)
+      .then((theme) => buildSlidePreview(slide, theme))
+      .catch(() => undefined);
+    slidePreviews.set(slide, preview);
+  }
+
+  return preview;
+}
+
+/**
+ * Get the notes of a slide for notes clients
+ *
+ * @param presenter - The presenter state
+ * @param index - Slide index (0-based)
+ * @returns Notes state with the timer status and the next slide preview
+ */
+export async function getPresenterNotesState(presenter: Presenter, index: number): Promise<NotesState> {
+  const { slides } = presenter.deck;
+  const nextSlide = slides[index + 1];
+
+  return getNotesState(
+    slides[index],
+    nextSlide,
+    index,
+    slides.length,
+    getNotesTimerStatus(presenter, index),
+    nextSlide ? await getSlidePreview(presenter, nextSlide) : undefined
+  );
+}
+
+/**
+ * Show the notes of a slide
+ *
+ * Updates the notes window (if open) and sends the notes to all
+ * connected notes clients. Notes are skipped if another slide is shown
+ * by the time the next slide preview is ready.
+ *
+ * @param presenter - The presenter state
+ * @param index - Slide index (0-based)
+ */
+async function updateNotes(presenter: Presenter, index: number): Promise<void> {
+  if (!presenter.notesWindow && !presenter.notesServer) return;
+
+  const state = await getPresenterNotesState(presenter, index);
+  if (presenter.currentSlide !== index) return;
+
+  if (presenter.notesWindow) {
+    renderNotes(presenter.notesWindow.output, state);
+  }
+  if (presenter.notesServer) {
+    broadcastNotes(presenter.notesServer, { type: 'slide', state });
+  }
+}
+
+/**
+ * Get the state of a slide for remote controls
+ *
+ * @param presenter - The presenter state
+ * @param index - Slide index (0-based)
+ * @returns Title, notes and position of the slide
+ */
+export function getRemoteState(presenter: Presenter, index: number): RemoteState {
+  const { slides } = presenter.deck;
+  const slide = slides[index];
+
+  return {
+    index,
+    totalSlides: slides.length,
+    title: slide.frontmatter.title,
+    section: slide.section,
+    notes: slide.notes ?? '',
+    nextTitle: slides[index + 1]?.frontmatter.title,
+  };
+}
+
+/**
+ * Send a slide to connected remote controls
+ *
+ * @param presenter - The presenter state
+ * @param index - Slide index (0-based)
+ */
+function updateRemote(presenter: Presenter, index: number): void {
+  if (presenter.remoteServer) {
+    broadcastRemoteState(presenter.remoteServer, getRemoteState(presenter, index));
+  }
+}
+
+/**
+ * Refresh the timer of the notes window and notes clients
+ *
+ * Called every second while presenting with notes, and after the timer
+ * is paused or reset.
+ *
+ * @param presenter - The presenter state
+ */
+export function refreshNotesTimer(presenter: Presenter): void {
+  if (!presenter.notesWindow && !presenter.notesServer) return;
+
+  const timer = getNotesTimerStatus(presenter, presenter.currentSlide);
+
+  if (presenter.notesWindow) {
+    updateNotesTimer(presenter.notesWindow, timer);
+  }
+  if (presenter.notesServer) {
+    broadcastNotes(presenter.notesServer, { type: 'timer', timer });
+  }
+}
+
 /**
  * Update UI components after slide change
  *
- * Updates the notes window and progress bar to reflect the current slide.
+ * Updates the notes window, notes clients, remote controls, progress bar
+ * and status bar to reflect the current slide, restarts auto-play
+ * for it, and keeps the terminal size warning in front of the slides.
  * This centralizes the UI update logic used by navigation functions.
  *
  * @param presenter - The presenter state
  * @param currentIndex - Current slide index (0-based)
  */
-function updateUIComponents(presenter: Presenter, currentIndex: number): void {
+export function updateUIComponents(presenter: Presenter, currentIndex: number): void {
   const { slides } = presenter.deck;
   const currentSlide = slides[currentIndex];
-  const nextSlide = slides[currentIndex + 1];
 
-  if (presenter.notesWindow) {
-    updateNotesWindow(
-      presenter.notesWindow,
-      currentSlide,
-      nextSlide,
-      currentIndex,
-      slides.length
-    );
-  }
+  void updateNotes(presenter, currentIndex);
+  updateRemote(presenter, currentIndex);
 
   if (presenter.progressBar) {
-    updateProgress(presenter.progressBar, currentIndex, slides.length);
+    updateProgress(presenter.progressBar, currentIndex, slides.length, currentSlide.section);
   }
+  refreshStatusBar(presenter);
+  restartAutoAdvance(presenter);
+  presenter.sizeWarning?.setFront();
 }
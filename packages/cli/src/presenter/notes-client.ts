@@ -0,0 +1,162 @@
+import { connect, type Socket } from 'node:net';
+import {
+  createMessageReader,
+  encodeMessage,
+  formatNotesAddress,
+  type NotesAddress,
+  type NotesCommand,
+  type NotesState,
+} from './notes-protocol.js';
+import { renderNotes, renderNotesMessage, renderNotesTimer } from './notes-window.js';
+
+/**
+ * Terminal streams of the notes client
+ */
+export interface NotesClientOptions {
+  input?: NodeJS.ReadStream;
+  output?: NodeJS.WriteStream;
+}
+
+// Raw key sequences sent by terminals
+const KEYS: Record<string, NotesCommand | 'quit'> = {
+  ' ': { type: 'next' },
+  '\r': { type: 'next' },
+  'n': { type: 'next' },
+  '\x1b[C': { type: 'next' },
+  'p': { type: 'prev' },
+  '\x7f': { type: 'prev' },
+  '\b': { type: 'prev' },
+  '\x1b[D': { type: 'prev' },
+  't': { type: 'toggle-timer' },
+  'r': { type: 'reset-timer' },
+  'q': 'quit',
+  '\x1b': 'quit',
+  '\x03': 'quit',
+};
+
+/**
+ * Get the command for a key pressed in the notes terminal
+ *
+ * Navigation keys match the presentation: Space/Enter/Right/n for next,
+ * Left/Backspace/p for previous, 0-9 to jump, t/r for the talk timer.
+ *
+ * @param key - Raw key sequence
+ * @returns The command, 'quit', or undefined for unbound keys
+ */
+export function getNotesKeyCommand(key: string): NotesCommand | 'quit' | undefined {
+  if (/^\d$/.test(key)) {
+    return { type: 'jump', index: parseInt(key, 10) };
+  }
+  return KEYS[key];
+}
+
+/**
+ * Connect to a running presentation
+ *
+ * @param address - Address of the presentation's notes server
+ * @returns Promise resolving to the connected socket
+ * @throws Error if no presentation is listening on the address
+ */
+export function connectToPresentation(address: NotesAddress): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = 'path' in address
+      ? connect(address.path)
+      : connect(address.port, address.host);
+
+    const onError = () => {
+      reject(new Error(
+        `No presentation found at ${formatNotesAddress(address)}\n\n` +
+        'Start presenting with a notes server first:\n' +
+        '  term-deck present . --notes-server' +
+        ('path' in address ? '' : ` ${address.port}`)
+      ));
+    };
+
+    socket.once('connect', () => {
+      socket.off('error', onError);
+      resolve(socket);
+    });
+    socket.once('error', onError);
+  });
+}
+
+/**
+ * Run the notes view for a running presentation
+ *
+ * Connects to the presentation's notes server and renders the notes of
+ * the current slide, redrawing them when the slide changes or the
+ * terminal is resized. Keys pressed in the notes terminal navigate the
+ * presentation.
+ *
+ * @param address - Address of the presentation's notes server
+ * @param options - Terminal streams (default: stdin and stdout)
+ * @returns Promise resolving when the user quits or the presentation ends
+ * @throws Error if no presentation is listening on the address
+ */
+export async function runNotesClient(
+  address: NotesAddress,
+  options: NotesClientOptions = {}
+): Promise<void> {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+  const socket = await connectToPresentation(address);
+  let state: NotesState | null = null;
+  let done = false;
+
+  const render = () => {
+    if (state) {
+      renderNotes(output, state, Math.max(20, output.columns || 80));
+    } else {
+      renderNotesMessage(output, 'Waiting for presentation...');
+    }
+  };
+
+  render();
+
+  await new Promise<void>((resolve) => {
+    const onResize = () => render();
+
+    const onKey = (data: Buffer) => {
+      const command = getNotesKeyCommand(data.toString());
+      if (command === 'quit') {
+        finish();
+      } else if (command) {
+        socket.write(encodeMessage(command));
+      }
+    };
+
+    const finish = () => {
+      done = true;
+      output.off('resize', onResize);
+      input.off('data', onKey);
+      if (input.isTTY) input.setRawMode(false);
+      input.pause();
+      socket.destroy();
+      resolve();
+    };
+
+    socket.on('data', createMessageReader((message) => {
+      const { type } = message as { type?: string };
+      if (type === 'slide') {
+        state = (message as { state: NotesState }).state;
+        render();
+      } else if (type === 'timer' && state) {
+        state.timer = (message as { timer: NotesState['timer'] }).timer;
+        if (state.timer) renderNotesTimer(output, state.timer);
+      }
+    }));
+
+    socket.on('close', () => {
+      // Closed by the presentation, not by quitting
+      if (done) return;
+      renderNotesMessage(output, 'Presentation ended.');
+      finish();
+    });
+    socket.on('error', () => socket.destroy());
+
+    output.on('resize', onResize);
+    if (input.isTTY) input.setRawMode(true);
+    input.on('data', onKey);
+    input.resume();
+  });
+}
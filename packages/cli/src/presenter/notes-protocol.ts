@@ -0,0 +1,149 @@
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import type { TimerStatus } from './talk-timer.js';
+
+/**
+ * Notes protocol
+ *
+ * A running presentation serves its notes to `term-deck notes` clients
+ * over a Unix domain socket or a localhost TCP port. Messages are JSON
+ * objects, one per line. The presentation sends the notes of the current
+ * slide whenever it changes and the timer every second; clients send
+ * navigation commands back.
+ */
+
+/**
+ * Where the notes server listens: a Unix domain socket or a TCP port
+ */
+export type NotesAddress = { path: string } | { host: string; port: number };
+
+/**
+ * Default notes socket, used when no address is given
+ */
+export const DEFAULT_NOTES_SOCKET = join(tmpdir(), 'term-deck-notes.sock');
+
+const PORT_PATTERN = /^(?:([\w.-]+|\[[\d:a-fA-F]+\]):)?(\d{1,5})$/;
+const LOOPBACK_PATTERN = /^(?:localhost|127(?:\.\d{1,3}){3}|::1)$/i;
+
+/**
+ * Notes of the current slide, as shown in the notes view
+ */
+export interface NotesState {
+  /** Current slide index (0-based) */
+  index: number;
+  totalSlides: number;
+  title: string;
+  section?: string;
+  notes: string;
+  /** Title of the next slide, undefined on the last slide */
+  nextTitle?: string;
+  /** Preview of the next slide, lines with ANSI styling */
+  nextPreview?: string[];
+  timer?: TimerStatus;
+}
+
+/**
+ * Message from the presentation to notes clients
+ */
+export type NotesMessage =
+  | { type: 'slide'; state: NotesState }
+  | { type: 'timer'; timer: TimerStatus };
+
+/**
+ * Schema for commands from notes clients.
+ * Clients can navigate the presentation and control the talk timer.
+ */
+export const NotesCommandSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('next') }),
+  z.object({ type: z.literal('prev') }),
+  z.object({ type: z.literal('jump'), index: z.number().int().min(0) }),
+  z.object({ type: z.literal('toggle-timer') }),
+  z.object({ type: z.literal('reset-timer') }),
+]);
+
+export type NotesCommand = z.infer<typeof NotesCommandSchema>;
+
+/**
+ * Parse a notes server address
+ *
+ * A port number (or host:port) is a TCP address on localhost, anything
+ * else is a socket path. Notes clients can navigate the presentation
+ * without a token, so hosts other than loopback addresses are rejected.
+ *
+ * @param value - The address, or undefined for the default socket
+ * @returns The parsed address
+ * @throws Error if the port is out of range or the host is not loopback
+ *
+ * @example
+ * parseNotesAddress('4000')      // { host: '127.0.0.1', port: 4000 }
+ * parseNotesAddress('./notes.sock') // { path: './notes.sock' }
+ */
+export function parseNotesAddress(value?: string): NotesAddress {
+  if (!value) return { path: DEFAULT_NOTES_SOCKET };
+
+  const match = PORT_PATTERN.exec(value);
+  if (!match) return { path: value };
+
+  const port = parseInt(match[2], 10);
+  if (port > 65535) {
+    throw new Error(`Invalid notes port: ${port} (expected 0-65535)`);
+  }
+
+  const host = match[1]?.replace(/^\[|\]$/g, '') ?? '127.0.0.1';
+  if (!LOOPBACK_PATTERN.test(host)) {
+    throw new Error(`Invalid notes host: ${host} (expected localhost, 127.0.0.1 or ::1)`);
+  }
+
+  return { host, port };
+}
+
+/**
+ * Format a notes server address for messages
+ *
+ * @param address - The address
+ * @returns Socket path or host:port
+ */
+export function formatNotesAddress(address: NotesAddress): string {
+  return 'path' in address ? address.path : `${address.host}:${address.port}`;
+}
+
+/**
+ * Encode a message as a protocol line
+ *
+ * @param message - The message
+ * @returns JSON line, terminated by a newline
+ */
+export function encodeMessage(message: NotesMessage | NotesCommand): string {
+  return `${JSON.stringify(message)}\n`;
+}
+
+/**
+ * Create a reader that splits incoming data into messages
+ *
+ * Buffers partial lines between chunks. Lines that are not valid JSON
+ * are skipped.
+ *
+ * @param onMessage - Called with every decoded message
+ * @returns Function to feed incoming data to
+ */
+export function createMessageReader(
+  onMessage: (message: unknown) => void
+): (chunk: Buffer | string) => void {
+  let buffer = '';
+
+  return (chunk) => {
+    buffer += chunk.toString();
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        onMessage(JSON.parse(line));
+      } catch {
+        // Ignore malformed lines
+      }
+    }
+  };
+}
@@ -0,0 +1,162 @@
+import { createServer, connect, type Server, type Socket } from 'node:net';
+import { unlink } from 'node:fs/promises';
+import {
+  NotesCommandSchema,
+  createMessageReader,
+  encodeMessage,
+  formatNotesAddress,
+  type NotesAddress,
+  type NotesCommand,
+  type NotesMessage,
+  type NotesState,
+} from './notes-protocol.js';
+
+/**
+ * Notes server state
+ *
+ * Serves the notes of a running presentation to connected
+ * `term-deck notes` clients.
+ */
+export interface NotesServer {
+  server: Server;
+  clients: Set<Socket>;
+  /** Address the server listens on (with the actual port for port 0) */
+  address: NotesAddress;
+}
+
+/**
+ * Callbacks connecting the notes server to the presentation
+ */
+export interface NotesServerHandlers {
+  /** Current notes, sent to clients when they connect */
+  getState: () => NotesState | Promise<NotesState>;
+  /** Called for every valid command from a client */
+  onCommand: (command: NotesCommand) => void;
+}
+
+/**
+ * Check whether a presentation is listening on a socket path
+ */
+function isSocketInUse(path: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = connect(path);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('error', () => resolve(false));
+  });
+}
+
+/**
+ * Listen on an address
+ */
+function listen(server: Server, address: NotesAddress): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    const onListening = () => {
+      server.off('error', reject);
+      resolve();
+    };
+    if ('path' in address) {
+      server.listen(address.path, onListening);
+    } else {
+      server.listen(address.port, address.host, onListening);
+    }
+  });
+}
+
+/**
+ * Start the notes server
+ *
+ * Sends the current notes to every client that connects and passes
+ * client commands to the presentation. A socket file left behind by a
+ * presentation that did not exit cleanly is replaced.
+ *
+ * @param address - Socket path or TCP port to listen on
+ * @param handlers - Callbacks connecting the server to the presentation
+ * @returns Promise resolving to the listening server
+ * @throws Error if another presentation is already using the address
+ */
+export async function startNotesServer(
+  address: NotesAddress,
+  handlers: NotesServerHandlers
+): Promise<NotesServer> {
+  const clients = new Set<Socket>();
+
+  const server = createServer((socket) => {
+    clients.add(socket);
+    socket.on('close', () => clients.delete(socket));
+    // Clients that disconnect abruptly are simply dropped
+    socket.on('error', () => socket.destroy());
+
+    socket.on('data', createMessageReader((message) => {
+      const result = NotesCommandSchema.safeParse(message);
+      if (result.success) {
+        handlers.onCommand(result.data);
+      }
+    }));
+
+    void Promise.resolve(handlers.getState()).then((state) => {
+      if (!socket.destroyed) {
+        socket.write(encodeMessage({ type: 'slide', state }));
+      }
+    });
+  });
+
+  try {
+    await listen(server, address);
+  } catch (error) {
+    const inUse = (error as NodeJS.ErrnoException).code === 'EADDRINUSE';
+    if (!inUse || !('path' in address) || await isSocketInUse(address.path)) {
+      throw new Error(
+        `Cannot start notes server on ${formatNotesAddress(address)}: ` +
+        (inUse ? 'address already in use (is another presentation running?)' : (error as Error).message)
+      );
+    }
+    // Stale socket file from a previous presentation
+    await unlink(address.path);
+    await listen(server, address);
+  }
+
+  const bound = server.address();
+  return {
+    server,
+    clients,
+    address: typeof bound === 'object' && bound && 'port' in address
+      ? { host: address.host, port: bound.port }
+      : address,
+  };
+}
+
+/**
+ * Send a message to all connected notes clients
+ *
+ * @param notesServer - The notes server
+ * @param message - The message to send
+ */
+export function broadcastNotes(notesServer: NotesServer, message: NotesMessage): void {
+  const line = encodeMessage(message);
+  for (const client of notesServer.clients) {
+    client.write(line);
+  }
+}
+
+/**
+ * Stop the notes server
+ *
+ * Disconnects all clients and stops listening. The socket file is
+ * removed when the server closes.
+ *
+ * @param notesServer - The notes server to stop
+ * @returns Promise resolving when the server is closed
+ */
+export function stopNotesServer(notesServer: NotesServer): Promise<void> {
+  for (const client of notesServer.clients) {
+    client.destroy();
+  }
+
+  return new Promise((resolve) => {
+    notesServer.server.close(() => resolve());
+  });
+}
@@ -1,12 +1,17 @@
 import { access } from 'fs/promises';
 import { createWriteStream, type WriteStream } from 'node:fs';
 import type { Slide } from '../schemas/slide.js';
+import type { Theme } from '../schemas/theme.js';
+import { buildSlideFragments } from '../renderer/slide-renderer.js';
+import { blessedTagsToAnsi } from '../core/theme-colors.js';
+import { formatDuration, type TimerStatus } from './talk-timer.js';
+import type { NotesState } from './notes-protocol.js';
 
 /**
  * Notes window state (separate terminal)
  *
  * Uses direct TTY output instead of blessed for reliability.
- * Shows current slide notes, slide number, and preview of next slide.
+ * Shows the talk timer, current slide notes, slide number, and preview of next slide.
  */
 export interface NotesWindow {
   output: WriteStream;
@@ -22,11 +27,25 @@ const ANSI = {
   GREEN: '\x1b[32m',
   CYAN: '\x1b[36m',
   YELLOW: '\x1b[33m',
+  RED: '\x1b[31m',
   WHITE: '\x1b[37m',
   GRAY: '\x1b[90m',
   BG_DARK: '\x1b[48;5;234m',
+  SAVE_CURSOR: '\x1b7',
+  RESTORE_CURSOR: '\x1b8',
+  CLEAR_LINE: '\x1b[2K',
 };
 
+// Row of the timer line, below the header
+const TIMER_ROW = 2;
+
+/**
+ * Size of the next slide preview in the notes view
+ */
+export const PREVIEW_SIZE = { width: 60, height: 12 };
+
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+
 /**
  * Get error message for missing TTY
  */
@@ -74,9 +93,7 @@ export async function createNotesWindow(ttyPath?: string): Promise<NotesWindow>
   });
 
   // Clear the notes terminal and show initial message
-  output.write(ANSI.CLEAR);
-  output.write(`${ANSI.BG_DARK}${ANSI.GREEN}${ANSI.BOLD}term-deck notes${ANSI.RESET}\n\n`);
-  output.write(`${ANSI.GRAY}Waiting for presentation to start...${ANSI.RESET}\n`);
+  renderNotesMessage(output, 'Waiting for presentation to start...');
 
   return {
     output,
@@ -85,58 +102,289 @@ export async function createNotesWindow(ttyPath?: string): Promise<NotesWindow>
 }
 
 /**
- * Update notes window content for current slide
+ * Render a status message in place of the notes view
  *
- * Updates the notes window to display:
- * - Current slide number and title
- * - Presenter notes (or "No notes" if none exist)
- * - Preview of next slide title (or "Last slide" if at end)
+ * Clears the terminal and shows the message below the header.
+ *
+ * @param output - Terminal output stream
+ * @param message - The message (e.g. 'Waiting for presentation to start...')
+ */
+export function renderNotesMessage(output: NodeJS.WritableStream, message: string): void {
+  output.write(ANSI.CLEAR);
+  output.write(`${ANSI.BG_DARK}${ANSI.GREEN}${ANSI.BOLD}term-deck notes${ANSI.RESET}\n\n`);
+  output.write(`${ANSI.GRAY}${message}${ANSI.RESET}\n`);
+}
+
+/**
+ * Get the notes state of a slide
  *
- * @param notesWindow - The notes window to update
  * @param currentSlide - The current slide being displayed
  * @param nextSlide - The next slide (if any)
  * @param currentIndex - Current slide index (0-based)
  * @param totalSlides - Total number of slides in the deck
+ * @param timer - Timer status of the talk
+ * @param nextPreview - Preview of the next slide (see buildSlidePreview)
+ * @returns Notes state for the notes view
  */
-export function updateNotesWindow(
-  notesWindow: NotesWindow,
+export function getNotesState(
   currentSlide: Slide,
   nextSlide: Slide | undefined,
   currentIndex: number,
-  totalSlides: number
-): void {
-  const { output } = notesWindow;
-  const divider = '─'.repeat(50);
+  totalSlides: number,
+  timer?: TimerStatus,
+  nextPreview?: string[]
+): NotesState {
+  return {
+    index: currentIndex,
+    totalSlides,
+    title: currentSlide.frontmatter.title,
+    section: currentSlide.section,
+    notes: currentSlide.notes ?? '',
+    nextTitle: nextSlide?.frontmatter.title,
+    nextPreview,
+    timer,
+  };
+}
 
-  // Clear screen and move cursor to top
-  output.write(ANSI.CLEAR);
+/**
+ * Build a preview of a slide for the notes view
+ *
+ * Renders the bigText and body of the slide (all fragments) at the
+ * preview width, with colors converted to ANSI. Trailing blank lines are
+ * dropped and the preview is cut off at the preview height.
+ *
+ * @param slide - The slide to preview
+ * @param theme - Theme the slide is rendered with
+ * @param size - Width and height of the preview
+ * @returns Preview lines (with ANSI styling)
+ */
+export async function buildSlidePreview(
+  slide: Slide,
+  theme: Theme,
+  size: { width: number; height: number } = PREVIEW_SIZE
+): Promise<string[]> {
+  const fragments = await buildSlideFragments(size.width, theme, slide);
+  const lines = blessedTagsToAnsi(fragments.join('\n')).split('\n');
+
+  while (lines.length > 0 && !lines[lines.length - 1].replace(ANSI_PATTERN, '').trim()) {
+    lines.pop();
+  }
+
+  if (lines.length > size.height) {
+    const hidden = lines.length - size.height + 1;
+    return [...lines.slice(0, size.height - 1), `${ANSI.GRAY}… ${hidden} more lines${ANSI.RESET}`];
+  }
+
+  return lines;
+}
+
+/**
+ * Cut a line with ANSI styling to a width
+ */
+function truncateAnsi(line: string, width: number): string {
+  let result = '';
+  let visible = 0;
+
+  for (const [, code, char] of line.matchAll(/(\x1b\[[0-9;]*m)|([\s\S])/g)) {
+    if (code) {
+      result += code;
+    } else if (visible < width) {
+      result += char;
+      visible++;
+    }
+  }
+
+  return result + ANSI.RESET;
+}
+
+/**
+ * Wrap text to a width, breaking at spaces where possible
+ */
+function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      if (line && line.length + 1 + word.length > width) {
+        lines.push(line);
+        line = '';
+      }
+      line = line ? `${line} ${word}` : word;
+      while (line.length > width) {
+        lines.push(line.slice(0, width));
+        line = line.slice(width);
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+/**
+ * Format the notes view
+ *
+ * The view shows:
+ * - Talk timer, clock and pacing (if the state has a timer status)
+ * - Current slide number and title
+ * - Presenter notes (or "No notes" if none exist), wrapped to the width
+ * - Title and preview of the next slide (or "Last slide" if at end),
+ *   cut off at the width
+ *
+ * The timer is on the second line, so it can be updated on its own
+ * (see renderNotesTimer).
+ *
+ * @param state - Notes of the current slide
+ * @param width - Width of the view in columns
+ * @returns The notes view (with ANSI styling)
+ */
+export function formatNotesView(state: NotesState, width: number = 50): string {
+  const divider = `${ANSI.GRAY}${'─'.repeat(width)}${ANSI.RESET}\n`;
+  let view = '';
 
   // Header
-  output.write(`${ANSI.GREEN}${ANSI.BOLD}term-deck notes${ANSI.RESET}\n\n`);
-  output.write(`${ANSI.CYAN}${ANSI.BOLD}Slide ${currentIndex + 1} of ${totalSlides}${ANSI.RESET}\n`);
-  output.write(`${ANSI.GRAY}${currentSlide.frontmatter.title}${ANSI.RESET}\n`);
-  output.write('\n');
-  output.write(`${ANSI.GRAY}${divider}${ANSI.RESET}\n`);
-  output.write('\n');
+  view += `${ANSI.GREEN}${ANSI.BOLD}term-deck notes${ANSI.RESET}\n`;
+  view += `${state.timer ? formatTimerLine(state.timer, new Date()) : ''}\n\n`;
+  view += `${ANSI.CYAN}${ANSI.BOLD}Slide ${state.index + 1} of ${state.totalSlides}${ANSI.RESET}`;
+  if (state.section) {
+    view += ` ${ANSI.GRAY}· ${state.section}${ANSI.RESET}`;
+  }
+  view += '\n';
+  view += `${ANSI.GRAY}${state.title}${ANSI.RESET}\n`;
+  view += '\n';
+  view += divider;
+  view += '\n';
 
   // Notes
-  if (currentSlide.notes) {
-    output.write(`${ANSI.YELLOW}${ANSI.BOLD}PRESENTER NOTES:${ANSI.RESET}\n\n`);
-    output.write(`${ANSI.WHITE}${currentSlide.notes}${ANSI.RESET}\n`);
+  if (state.notes) {
+    view += `${ANSI.YELLOW}${ANSI.BOLD}PRESENTER NOTES:${ANSI.RESET}\n\n`;
+    view += `${ANSI.WHITE}${wrapText(state.notes, width).join('\n')}${ANSI.RESET}\n`;
   } else {
-    output.write(`${ANSI.GRAY}No notes for this slide${ANSI.RESET}\n`);
+    view += `${ANSI.GRAY}No notes for this slide${ANSI.RESET}\n`;
   }
 
-  output.write('\n');
-  output.write(`${ANSI.GRAY}${divider}${ANSI.RESET}\n`);
-  output.write('\n');
+  view += '\n';
+  view += divider;
+  view += '\n';
 
   // Next slide preview
-  if (nextSlide) {
-    output.write(`${ANSI.CYAN}${ANSI.BOLD}NEXT:${ANSI.RESET} ${ANSI.WHITE}"${nextSlide.frontmatter.title}"${ANSI.RESET}\n`);
+  if (state.nextTitle !== undefined) {
+    view += `${ANSI.CYAN}${ANSI.BOLD}NEXT:${ANSI.RESET} ${ANSI.WHITE}"${state.nextTitle}"${ANSI.RESET}\n`;
+    if (state.nextPreview?.length) {
+      view += '\n';
+      for (const line of state.nextPreview) {
+        view += `${ANSI.GRAY}│${ANSI.RESET} ${truncateAnsi(line, width - 2)}\n`;
+      }
+    }
   } else {
-    output.write(`${ANSI.GRAY}Last slide${ANSI.RESET}\n`);
+    view += `${ANSI.GRAY}Last slide${ANSI.RESET}\n`;
+  }
+
+  return view;
+}
+
+/**
+ * Render the notes view to a terminal
+ *
+ * Clears the terminal and writes the notes view.
+ *
+ * @param output - Terminal output stream
+ * @param state - Notes of the current slide
+ * @param width - Width of the view in columns
+ */
+export function renderNotes(output: NodeJS.WritableStream, state: NotesState, width?: number): void {
+  output.write(ANSI.CLEAR + formatNotesView(state, width));
+}
+
+/**
+ * Update notes window content for current slide
+ *
+ * Renders the notes view for the slide (see formatNotesView).
+ *
+ * @param notesWindow - The notes window to update
+ * @param currentSlide - The current slide being displayed
+ * @param nextSlide - The next slide (if any)
+ * @param currentIndex - Current slide index (0-based)
+ * @param totalSlides - Total number of slides in the deck
+ * @param timer - Timer status of the talk
+ */
+export function updateNotesWindow(
+  notesWindow: NotesWindow,
+  currentSlide: Slide,
+  nextSlide: Slide | undefined,
+  currentIndex: number,
+  totalSlides: number,
+  timer?: TimerStatus
+): void {
+  renderNotes(notesWindow.output, getNotesState(currentSlide, nextSlide, currentIndex, totalSlides, timer));
+}
+
+/**
+ * Format the timer line of the notes window
+ *
+ * Shows the elapsed time (and the planned duration), the wall clock,
+ * and how far ahead or behind the slide budgets the talk is.
+ *
+ * @param timer - Timer status of the talk
+ * @param clock - Current wall clock time
+ * @returns The timer line (with ANSI styling)
+ *
+ * @example
+ * formatTimerLine(status, new Date())
+ * // '⏱ 12:34 / 30:00  ·  14:05  ·  2:10 ahead' (styled)
+ */
+export function formatTimerLine(timer: TimerStatus, clock: Date): string {
+  const hours = String(clock.getHours()).padStart(2, '0');
+  const minutes = String(clock.getMinutes()).padStart(2, '0');
+  const separator = `${ANSI.GRAY}  ·  ${ANSI.RESET}`;
+
+  let line = `${ANSI.WHITE}${ANSI.BOLD}⏱ ${formatDuration(timer.elapsed)}${ANSI.RESET}`;
+  if (timer.target > 0) {
+    line += `${ANSI.GRAY} / ${formatDuration(timer.target)}${ANSI.RESET}`;
   }
+  if (timer.paused) {
+    line += ` ${ANSI.YELLOW}(paused)${ANSI.RESET}`;
+  }
+
+  line += `${separator}${ANSI.GRAY}${hours}:${minutes}${ANSI.RESET}`;
+
+  const { pacing } = timer;
+  if (pacing?.status === 'ahead') {
+    line += `${separator}${ANSI.GREEN}${formatDuration(pacing.difference)} ahead${ANSI.RESET}`;
+  } else if (pacing?.status === 'behind') {
+    line += `${separator}${ANSI.RED}${ANSI.BOLD}${formatDuration(pacing.difference)} behind${ANSI.RESET}`;
+  } else if (pacing) {
+    line += `${separator}${ANSI.CYAN}on time${ANSI.RESET}`;
+  }
+
+  return line;
+}
+
+/**
+ * Render the timer line of the notes view
+ *
+ * Rewrites only the timer line, so it can be refreshed every second
+ * without redrawing the notes.
+ *
+ * @param output - Terminal output stream showing the notes view
+ * @param timer - Timer status of the talk
+ */
+export function renderNotesTimer(output: NodeJS.WritableStream, timer: TimerStatus): void {
+  output.write(
+    `${ANSI.SAVE_CURSOR}\x1b[${TIMER_ROW};1H${ANSI.CLEAR_LINE}` +
+    `${formatTimerLine(timer, new Date())}${ANSI.RESET}${ANSI.RESTORE_CURSOR}`
+  );
+}
+
+/**
+ * Update the timer line of the notes window
+ *
+ * @param notesWindow - The notes window to update
+ * @param timer - Timer status of the talk
+ */
+export function updateNotesTimer(notesWindow: NotesWindow, timer: TimerStatus): void {
+  renderNotesTimer(notesWindow.output, timer);
 }
 
 /**
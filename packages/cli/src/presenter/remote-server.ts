@@ -0,0 +1,358 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { networkInterfaces } from 'node:os';
+import type { Duplex } from 'node:stream';
+import { z } from 'zod';
+import {
+  OPCODES,
+  acceptWebSocket,
+  CLOSE_CODES,
+  createFrameReader,
+  encodeCloseFrame,
+  encodeFrame,
+} from './websocket.js';
+
+/**
+ * Remote control server
+ *
+ * Lets a phone or clicker app drive a running presentation over a small
+ * HTTP API and a WebSocket. Every request needs the shared-secret token,
+ * as `Authorization: Bearer <token>` or a `?token=` query parameter:
+ *
+ * - GET  /state        Current slide (title, notes, index)
+ * - POST /next         Next slide (or fragment)
+ * - POST /prev         Previous slide (or fragment)
+ * - POST /goto/<index> Jump to a slide (0-based)
+ * - GET  /ws           WebSocket: pushes the state on every slide change,
+ *                      accepts {"type": "next" | "prev"} and
+ *                      {"type": "goto", "index": n}
+ * - GET  /             Minimal control page for phones
+ */
+
+/**
+ * Current slide, as reported to remote clients
+ */
+export interface RemoteState {
+  /** Current slide index (0-based) */
+  index: number;
+  totalSlides: number;
+  title: string;
+  section?: string;
+  notes: string;
+  /** Title of the next slide, undefined on the last slide */
+  nextTitle?: string;
+}
+
+/**
+ * Schema for remote control commands (WebSocket messages).
+ */
+export const RemoteCommandSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('next') }),
+  z.object({ type: z.literal('prev') }),
+  z.object({ type: z.literal('goto'), index: z.number().int().min(0) }),
+]);
+
+export type RemoteCommand = z.infer<typeof RemoteCommandSchema>;
+
+/**
+ * Remote control server state
+ */
+export interface RemoteServer {
+  server: Server;
+  /** Connected WebSocket clients */
+  clients: Set<Duplex>;
+  port: number;
+  token: string;
+}
+
+/**
+ * Callbacks connecting the remote control server to the presentation
+ */
+export interface RemoteServerHandlers {
+  /** Current slide state */
+  getState: () => RemoteState;
+  /** Run a command, resolving once navigation is done */
+  onCommand: (command: RemoteCommand) => Promise<void>;
+}
+
+/**
+ * Options for the remote control server
+ */
+export interface RemoteServerOptions {
+  /** Shared-secret token (generated when omitted) */
+  token?: string;
+  /** Interface to listen on (defaults to all, so phones can connect) */
+  host?: string;
+}
+
+const GOTO_PATTERN = /^\/goto\/(\d+)$/;
+
+const CONTROL_PAGE = `<!doctype html>
+<html>
+<head>
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>term-deck remote</title>
+<style>
+body { margin: 0; font-family: monospace; background: #0a0a0a; color: #00cc66; text-align: center; }
+h1 { font-size: 1.1em; margin: 1em; }
+#notes { color: #ccc; white-space: pre-wrap; text-align: left; margin: 1em; min-height: 4em; }
+button { width: 45%; height: 30vh; margin: 1%; font-size: 2em; background: #111; color: #00cc66; border: 2px solid #00cc66; }
+</style>
+</head>
+<body>
+<h1 id="title">term-deck</h1>
+<button id="prev">&larr;</button><button id="next">&rarr;</button>
+<div id="notes"></div>
+<script>
+const token = new URLSearchParams(location.search).get('token');
+const ws = new WebSocket('ws://' + location.host + '/ws?token=' + encodeURIComponent(token));
+ws.onmessage = (event) => {
+  const { state } = JSON.parse(event.data);
+  document.getElementById('title').textContent = (state.index + 1) + '/' + state.totalSlides + ' ' + state.title;
+  document.getElementById('notes').textContent = state.notes;
+};
+for (const type of ['prev', 'next']) {
+  document.getElementById(type).onclick = () => ws.send(JSON.stringify({ type }));
+}
+</script>
+</body>
+</html>
+`;
+
+/**
+ * Generate a random shared-secret token
+ *
+ * @returns A 32 character hex token
+ */
+export function createRemoteToken(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Check the token of a request
+ */
+function isAuthorized(request: IncomingMessage, url: URL, token: string): boolean {
+  const header = request.headers.authorization;
+  const given = header?.startsWith('Bearer ') ? header.slice(7) : url.searchParams.get('token');
+  if (!given) return false;
+
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(given);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Send a JSON response
+ */
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Get the command of an API route
+ */
+function getRouteCommand(pathname: string): RemoteCommand | undefined {
+  if (pathname === '/next') return { type: 'next' };
+  if (pathname === '/prev') return { type: 'prev' };
+
+  const goto = GOTO_PATTERN.exec(pathname);
+  return goto ? { type: 'goto', index: parseInt(goto[1], 10) } : undefined;
+}
+
+/**
+ * Handle an HTTP API request
+ */
+async function handleRequest(
+  request: IncomingMessage,
+  response: ServerResponse,
+  token: string,
+  handlers: RemoteServerHandlers
+): Promise<void> {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+
+  // CORS preflight for clicker apps sending the Authorization header
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST',
+      'Access-Control-Allow-Headers': 'Authorization',
+    });
+    response.end();
+    return;
+  }
+
+  if (!isAuthorized(request, url, token)) {
+    sendJson(response, 401, { error: 'Invalid or missing token' });
+    return;
+  }
+
+  if (url.pathname === '/' && request.method === 'GET') {
+    response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    response.end(CONTROL_PAGE);
+    return;
+  }
+
+  if (url.pathname === '/state') {
+    if (request.method !== 'GET') {
+      sendJson(response, 405, { error: 'Use GET' });
+      return;
+    }
+    sendJson(response, 200, handlers.getState());
+    return;
+  }
+
+  const command = getRouteCommand(url.pathname);
+  if (!command) {
+    sendJson(response, 404, { error: `Unknown route: ${url.pathname}` });
+    return;
+  }
+  if (request.method !== 'POST') {
+    sendJson(response, 405, { error: 'Use POST' });
+    return;
+  }
+
+  await handlers.onCommand(command);
+  sendJson(response, 200, handlers.getState());
+}
+
+/**
+ * Handle a WebSocket connection
+ */
+function handleWebSocket(socket: Duplex, clients: Set<Duplex>, handlers: RemoteServerHandlers): void {
+  clients.add(socket);
+  socket.on('close', () => clients.delete(socket));
+  socket.on('error', () => socket.destroy());
+
+  socket.on('data', createFrameReader(({ opcode, payload }) => {
+    if (opcode === OPCODES.CLOSE) {
+      socket.end(encodeFrame(OPCODES.CLOSE));
+    } else if (opcode === OPCODES.PING) {
+      socket.write(encodeFrame(OPCODES.PONG, payload));
+    } else if (opcode === OPCODES.TEXT) {
+      let message: unknown;
+      try {
+        message = JSON.parse(payload.toString());
+      } catch {
+        return;
+      }
+      const result = RemoteCommandSchema.safeParse(message);
+      if (result.success) {
+        void handlers.onCommand(result.data);
+      }
+    }
+  }, {
+    onTooLarge: () => socket.end(encodeCloseFrame(CLOSE_CODES.MESSAGE_TOO_BIG)),
+  }));
+
+  socket.write(encodeFrame(OPCODES.TEXT, JSON.stringify({ type: 'state', state: handlers.getState() })));
+}
+
+/**
+ * Start the remote control server
+ *
+ * @param port - Port to listen on (0 for a random port)
+ * @param handlers - Callbacks connecting the server to the presentation
+ * @param options - Token and interface to listen on
+ * @returns Promise resolving to the listening server
+ * @throws Error if the port cannot be used
+ */
+export async function startRemoteServer(
+  port: number,
+  handlers: RemoteServerHandlers,
+  options: RemoteServerOptions = {}
+): Promise<RemoteServer> {
+  const token = options.token ?? createRemoteToken();
+  const clients = new Set<Duplex>();
+
+  const server = createServer((request, response) => {
+    handleRequest(request, response, token, handlers).catch((error: Error) => {
+      sendJson(response, 500, { error: error.message });
+    });
+  });
+
+  server.on('upgrade', (request: IncomingMessage, socket: Duplex) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    if (url.pathname !== '/ws' || !isAuthorized(request, url, token)) {
+      socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+      return;
+    }
+
+    if (acceptWebSocket(request, socket)) {
+      handleWebSocket(socket, clients, handlers);
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', (error: NodeJS.ErrnoException) => {
+      reject(new Error(
+        `Cannot start remote control on port ${port}: ` +
+        (error.code === 'EADDRINUSE' ? 'port already in use' : error.message)
+      ));
+    });
+    server.listen(port, options.host, () => resolve());
+  });
+
+  const address = server.address();
+  return {
+    server,
+    clients,
+    port: typeof address === 'object' && address ? address.port : port,
+    token,
+  };
+}
+
+/**
+ * Send the current slide to all WebSocket clients
+ *
+ * @param remoteServer - The remote control server
+ * @param state - The current slide
+ */
+export function broadcastRemoteState(remoteServer: RemoteServer, state: RemoteState): void {
+  const frame = encodeFrame(OPCODES.TEXT, JSON.stringify({ type: 'state', state }));
+  for (const client of remoteServer.clients) {
+    client.write(frame);
+  }
+}
+
+/**
+ * Get the URLs of the remote control page
+ *
+ * Lists a URL for every external IPv4 interface (for phones on the same
+ * network), followed by localhost.
+ *
+ * @param port - Port of the remote control server
+ * @param token - Shared-secret token
+ * @returns Control page URLs, including the token
+ */
+export function getRemoteUrls(port: number, token: string): string[] {
+  const hosts = Object.values(networkInterfaces())
+    .flat()
+    .filter((info) => info && info.family === 'IPv4' && !info.internal)
+    .map((info) => info!.address);
+
+  return [...hosts, '127.0.0.1'].map((host) => `http://${host}:${port}/?token=${token}`);
+}
+
+/**
+ * Stop the remote control server
+ *
+ * Disconnects all WebSocket clients and stops listening.
+ *
+ * @param remoteServer - The remote control server to stop
+ * @returns Promise resolving when the server is closed
+ */
+export function stopRemoteServer(remoteServer: RemoteServer): Promise<void> {
+  for (const client of remoteServer.clients) {
+    client.destroy();
+  }
+  remoteServer.server.closeAllConnections();
+
+  return new Promise((resolve) => {
+    remoteServer.server.close(() => resolve());
+  });
+}
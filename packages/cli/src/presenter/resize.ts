@@ -0,0 +1,178 @@
+import blessed from 'neo-blessed';
+import type { Deck } from '../core/deck-loader.js';
+import type { WindowSize } from '../renderer/window-manager.js';
+import { resizeRenderer } from '../renderer/screen.js';
+import { refreshStatusBar, updateProgress } from './navigation.js';
+import { isScreenHeld } from './screen-modes.js';
+import type { Presenter } from './types.js';
+
+/**
+ * Delay before laying out the presentation after the last resize (ms).
+ * Dragging a terminal edge resizes it many times in a row.
+ */
+const RESIZE_DEBOUNCE_MS = 100;
+
+/**
+ * Get the screen size a deck is designed for
+ *
+ * Decks are designed for their export size (deck.config.export), the
+ * size videos and recordings are made at. Decks without export
+ * settings have no designed size.
+ *
+ * @param deck - The deck
+ * @returns Designed size in characters, or null
+ */
+export function getDesignedSize(deck: Deck): WindowSize | null {
+  const exportSettings = deck.config.export;
+  if (!exportSettings) return null;
+
+  return { width: exportSettings.width, height: exportSettings.height };
+}
+
+/**
+ * Format the minimum size warning
+ *
+ * @param size - Current terminal size
+ * @param designed - Size the deck is designed for
+ * @returns Warning message
+ *
+ * @example
+ * formatSizeWarning({ width: 100, height: 30 }, { width: 120, height: 40 })
+ * // 'Terminal is 100x30, this deck is designed for 120x40.\n...'
+ */
+export function formatSizeWarning(size: WindowSize, designed: WindowSize): string {
+  return [
+    `Terminal is ${size.width}x${size.height}, this deck is designed for ${designed.width}x${designed.height}.`,
+    'Enlarge the terminal or reduce its font size.',
+  ].join('\n');
+}
+
+/**
+ * Show or hide the minimum size warning
+ *
+ * The warning is shown in front of the slides while the terminal is
+ * narrower or shorter than the deck's designed size (see getDesignedSize).
+ *
+ * @param presenter - The presenter state
+ */
+export function updateSizeWarning(presenter: Presenter): void {
+  const { screen, theme } = presenter.renderer;
+  const designed = getDesignedSize(presenter.deck);
+  const size = { width: screen.width as number, height: screen.height as number };
+
+  if (!designed || (size.width >= designed.width && size.height >= designed.height)) {
+    if (presenter.sizeWarning) {
+      presenter.sizeWarning.destroy();
+      presenter.sizeWarning = null;
+    }
+    return;
+  }
+
+  if (!presenter.sizeWarning) {
+    const warningColor = theme.colors.warning ?? theme.colors.accent;
+
+    presenter.sizeWarning = blessed.box({
+      screen,
+      top: 'center',
+      left: 'center',
+      width: 'shrink',
+      height: 'shrink',
+      border: { type: 'line' },
+      label: ' TERMINAL TOO SMALL ',
+      style: {
+        fg: theme.colors.text,
+        bg: theme.colors.background,
+        border: { fg: warningColor },
+        label: { fg: warningColor, bold: true },
+      },
+      padding: { top: 0, bottom: 0, left: 1, right: 1 },
+    });
+    screen.append(presenter.sizeWarning);
+  }
+
+  presenter.sizeWarning.setContent(formatSizeWarning(size, designed));
+  presenter.sizeWarning.setFront();
+}
+
+/**
+ * Start following terminal resizes
+ *
+ * Each resize schedules a debounced re-layout (see resizePresenter).
+ *
+ * @param presenter - The presenter state
+ */
+export function watchResize(presenter: Presenter): void {
+  presenter.renderer.screen.on('resize', () => scheduleResize(presenter));
+}
+
+/**
+ * Stop a pending re-layout
+ *
+ * @param presenter - The presenter state
+ */
+export function stopResize(presenter: Presenter): void {
+  if (presenter.resizeTimer) {
+    clearTimeout(presenter.resizeTimer);
+    presenter.resizeTimer = null;
+  }
+}
+
+/**
+ * Schedule a debounced re-layout
+ *
+ * If a transition is running, the screen is blacked out or frozen, or an
+ * overlay (go-to prompt, slide list, help) is open when the timer fires,
+ * the re-layout is postponed until it has finished. The re-layout would
+ * otherwise put the new slide windows in front of the overlay.
+ *
+ * @param presenter - The presenter state
+ */
+function scheduleResize(presenter: Presenter): void {
+  stopResize(presenter);
+
+  presenter.resizeTimer = setTimeout(() => {
+    presenter.resizeTimer = null;
+
+    // Overlays grab the keyboard while they are open
+    const overlayOpen = presenter.renderer.screen.grabKeys;
+
+    if (presenter.isAnimating || isScreenHeld(presenter) || overlayOpen) {
+      scheduleResize(presenter);
+      return;
+    }
+
+    void resizePresenter(presenter);
+  }, RESIZE_DEBOUNCE_MS);
+}
+
+/**
+ * Lay out the presentation for the current terminal size
+ *
+ * Renders the window stack again for the new size without transitions
+ * (see resizeRenderer), keeps the progress and status bars in front,
+ * with the status line fitted to the new width, and shows or hides the
+ * minimum size warning.
+ *
+ * @param presenter - The presenter state
+ */
+export async function resizePresenter(presenter: Presenter): Promise<void> {
+  const { slides } = presenter.deck;
+  const index = presenter.currentSlide;
+
+  presenter.isAnimating = true;
+
+  try {
+    await resizeRenderer(presenter.renderer, slides, index, presenter.currentFragment);
+  } finally {
+    presenter.isAnimating = false;
+  }
+
+  if (presenter.progressBar) {
+    updateProgress(presenter.progressBar, index, slides.length, slides[index]?.section);
+    presenter.progressBar.setFront();
+  }
+  refreshStatusBar(presenter);
+  presenter.autoAdvance?.indicator?.setFront();
+  updateSizeWarning(presenter);
+  presenter.renderer.screen.render();
+}
@@ -0,0 +1,80 @@
+import blessed from 'neo-blessed';
+import { setMatrixRainPaused } from '../renderer/screen.js';
+import type { Presenter } from './types.js';
+import { restartAutoAdvance, stopAutoAdvance } from './auto-advance.js';
+
+/**
+ * Check whether the deck is holding still
+ *
+ * While the screen is blacked out or frozen, navigation, auto-advance
+ * and live reload wait so the audience doesn't miss anything.
+ *
+ * @param presenter - The presenter state
+ * @returns Whether the screen is blacked out or frozen
+ */
+export function isScreenHeld(presenter: Presenter): boolean {
+  return presenter.blackout !== null || presenter.frozen;
+}
+
+/**
+ * Pause the matrix rain and auto-play while the screen is held
+ *
+ * Auto-play gives the current slide its full time again once released.
+ */
+function updateHeldEffects(presenter: Presenter): void {
+  const held = isScreenHeld(presenter);
+  setMatrixRainPaused(presenter.renderer, held);
+
+  if (!held) {
+    restartAutoAdvance(presenter);
+  } else if (presenter.autoAdvance) {
+    stopAutoAdvance(presenter.autoAdvance);
+  }
+}
+
+/**
+ * Black out the screen, or bring it back
+ *
+ * Covers the screen with the theme background and pauses the matrix
+ * rain and auto-play. Ignored while a slide is animating.
+ *
+ * @param presenter - The presenter state
+ */
+export function toggleBlackout(presenter: Presenter): void {
+  if (presenter.isAnimating) return;
+
+  const { screen, theme } = presenter.renderer;
+
+  if (presenter.blackout) {
+    presenter.blackout.destroy();
+    presenter.blackout = null;
+  } else {
+    presenter.blackout = blessed.box({
+      screen,
+      top: 0,
+      left: 0,
+      width: '100%',
+      height: '100%',
+      style: { bg: theme.colors.background },
+    });
+    screen.append(presenter.blackout);
+  }
+
+  updateHeldEffects(presenter);
+  screen.render();
+}
+
+/**
+ * Freeze the current frame, or unfreeze it
+ *
+ * The slides, the matrix rain and auto-play stand still until unfrozen.
+ * Ignored while a slide is animating.
+ *
+ * @param presenter - The presenter state
+ */
+export function toggleFreeze(presenter: Presenter): void {
+  if (presenter.isAnimating) return;
+
+  presenter.frozen = !presenter.frozen;
+  updateHeldEffects(presenter);
+}
@@ -0,0 +1,65 @@
+import type { Slide } from '../schemas/slide.js';
+
+/**
+ * Score how well a title matches a query
+ *
+ * Lower is better: a prefix match beats a substring match, which beats
+ * the query's characters appearing in order with gaps (fewer gaps first).
+ *
+ * @returns The score, or undefined if the title does not match
+ */
+function scoreTitle(title: string, query: string): number | undefined {
+  const text = title.toLowerCase();
+  const position = text.indexOf(query);
+  if (position !== -1) {
+    return position === 0 ? 0 : 1;
+  }
+
+  let from = 0;
+  let gaps = 0;
+  for (const ch of query) {
+    const found = text.indexOf(ch, from);
+    if (found === -1) return undefined;
+    gaps += found - from;
+    from = found + 1;
+  }
+
+  return 2 + gaps;
+}
+
+/**
+ * Find the slides matching a go-to query
+ *
+ * A number matches the slide with that index. Titles are matched
+ * fuzzily (case-insensitive, characters in order), best matches first.
+ *
+ * @param slides - Slides of the deck
+ * @param query - Slide number or title query
+ * @returns Indexes of the matching slides
+ *
+ * @example
+ * matchSlides(slides, '12')    // [12]
+ * matchSlides(slides, 'arch')  // slides with "arch" in their title first
+ */
+export function matchSlides(slides: Slide[], query: string): number[] {
+  const search = query.trim().toLowerCase();
+  if (!search) return [];
+
+  const matches: number[] = [];
+
+  if (/^\d+$/.test(search)) {
+    const index = parseInt(search, 10);
+    if (index < slides.length) {
+      matches.push(index);
+    }
+  }
+
+  const scored = slides
+    .map((slide, index) => ({ index, score: scoreTitle(slide.frontmatter.title, search) }))
+    .filter((match): match is { index: number; score: number } =>
+      match.score !== undefined && !matches.includes(match.index)
+    )
+    .sort((a, b) => a.score - b.score || a.index - b.index);
+
+  return [...matches, ...scored.map((match) => match.index)];
+}
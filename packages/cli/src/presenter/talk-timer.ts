@@ -0,0 +1,183 @@
+import type { Slide } from '../schemas/slide.js';
+import { parseDuration } from '../core/duration.js';
+
+/**
+ * Talk timer state
+ *
+ * Tracks the elapsed presentation time. The timer is running while
+ * startedAt is set; pausing moves the time since startedAt into
+ * accumulated.
+ */
+export interface TalkTimer {
+  startedAt: number | null;
+  accumulated: number;
+}
+
+/**
+ * Pacing of the talk against the planned slide budgets
+ *
+ * - ahead: the current slide was reached before its planned start
+ * - behind: the current slide's budget is used up
+ * - on-time: within the current slide's budget
+ */
+export interface Pacing {
+  status: 'ahead' | 'behind' | 'on-time';
+  /** How far ahead or behind (ms, 0 when on time) */
+  difference: number;
+}
+
+/**
+ * Timer state shown in the notes window
+ */
+export interface TimerStatus {
+  /** Elapsed presentation time (ms) */
+  elapsed: number;
+  paused: boolean;
+  /** Planned talk duration (ms, 0 = no target) */
+  target: number;
+  /** Pacing against the slide budgets, null without a target */
+  pacing: Pacing | null;
+}
+
+/**
+ * Create a running talk timer
+ *
+ * @param now - Start time (ms since epoch)
+ * @returns The timer
+ */
+export function createTalkTimer(now: number = Date.now()): TalkTimer {
+  return { startedAt: now, accumulated: 0 };
+}
+
+/**
+ * Get the elapsed time of a talk timer
+ *
+ * @param timer - The timer
+ * @param now - Current time (ms since epoch)
+ * @returns Elapsed time (ms)
+ */
+export function getElapsed(timer: TalkTimer, now: number = Date.now()): number {
+  return timer.accumulated + (timer.startedAt === null ? 0 : now - timer.startedAt);
+}
+
+/**
+ * Pause a running talk timer, or resume a paused one
+ *
+ * @param timer - The timer
+ * @param now - Current time (ms since epoch)
+ */
+export function toggleTimer(timer: TalkTimer, now: number = Date.now()): void {
+  if (timer.startedAt === null) {
+    timer.startedAt = now;
+  } else {
+    timer.accumulated += now - timer.startedAt;
+    timer.startedAt = null;
+  }
+}
+
+/**
+ * Reset a talk timer to zero
+ *
+ * A running timer keeps running from zero, a paused timer stays paused.
+ *
+ * @param timer - The timer
+ * @param now - Current time (ms since epoch)
+ */
+export function resetTimer(timer: TalkTimer, now: number = Date.now()): void {
+  timer.accumulated = 0;
+  if (timer.startedAt !== null) {
+    timer.startedAt = now;
+  }
+}
+
+/**
+ * Get the time budget of every slide
+ *
+ * Slides use their `meta.duration` budget. The rest of the talk duration
+ * is split evenly between slides without a budget.
+ *
+ * @param slides - Slides of the deck
+ * @param duration - Planned talk duration (ms, 0 = only slide budgets)
+ * @returns Budget of each slide (ms)
+ */
+export function getSlideBudgets(slides: Slide[], duration: number = 0): number[] {
+  const budgets = slides.map((slide) => parseDuration(slide.frontmatter.meta?.duration));
+  const planned = budgets.reduce<number>((sum, budget) => sum + (budget ?? 0), 0);
+  const unplanned = budgets.filter((budget) => budget === undefined).length;
+  const share = unplanned > 0 ? Math.max(0, duration - planned) / unplanned : 0;
+
+  return budgets.map((budget) => budget ?? share);
+}
+
+/**
+ * Get the pacing at a slide
+ *
+ * @param budgets - Budget of each slide (ms)
+ * @param index - Current slide index (0-based)
+ * @param elapsed - Elapsed talk time (ms)
+ * @returns Pacing, or null if no slide has a budget
+ *
+ * @example
+ * // Third slide of 2 minute slides reached after 3 minutes
+ * getPacing([120000, 120000, 120000], 2, 180000)
+ * // { status: 'ahead', difference: 60000 }
+ */
+export function getPacing(budgets: number[], index: number, elapsed: number): Pacing | null {
+  if (!budgets.some((budget) => budget > 0)) return null;
+
+  const start = budgets.slice(0, index).reduce((sum, budget) => sum + budget, 0);
+  const end = start + (budgets[index] ?? 0);
+
+  if (elapsed < start) return { status: 'ahead', difference: start - elapsed };
+  if (elapsed > end) return { status: 'behind', difference: elapsed - end };
+  return { status: 'on-time', difference: 0 };
+}
+
+/**
+ * Get the timer status of a talk at a slide
+ *
+ * @param timer - The talk timer
+ * @param slides - Slides of the deck
+ * @param index - Current slide index (0-based)
+ * @param duration - Planned talk duration (ms, 0 = only slide budgets)
+ * @param now - Current time (ms since epoch)
+ * @returns Elapsed time, target and pacing
+ */
+export function getTimerStatus(
+  timer: TalkTimer,
+  slides: Slide[],
+  index: number,
+  duration: number = 0,
+  now: number = Date.now()
+): TimerStatus {
+  const elapsed = getElapsed(timer, now);
+  const budgets = getSlideBudgets(slides, duration);
+
+  return {
+    elapsed,
+    paused: timer.startedAt === null,
+    target: budgets.reduce((sum, budget) => sum + budget, 0),
+    pacing: getPacing(budgets, index, elapsed),
+  };
+}
+
+/**
+ * Format a duration as m:ss, or h:mm:ss from one hour
+ *
+ * @param ms - Duration (ms)
+ * @returns Formatted duration
+ *
+ * @example
+ * formatDuration(90000)   // '1:30'
+ * formatDuration(3723000) // '1:02:03'
+ */
+export function formatDuration(ms: number): string {
+  const total = Math.floor(Math.max(0, ms) / 1000);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
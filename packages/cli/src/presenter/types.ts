@@ -1,7 +1,12 @@
 import blessed from 'neo-blessed';
+import type { FSWatcher } from 'node:fs';
 import type { Deck } from '../core/deck-loader.js';
 import type { Renderer } from '../renderer/screen.js';
 import type { NotesWindow } from './notes-window.js';
+import type { NotesServer } from './notes-server.js';
+import type { RemoteServer } from './remote-server.js';
+import type { TalkTimer } from './talk-timer.js';
+import type { AutoAdvance } from './auto-advance.js';
 
 /**
  * Presenter state
@@ -9,20 +14,55 @@ import type { NotesWindow } from './notes-window.js';
  * Manages the state of the active presentation including:
  * - The loaded deck with slides and configuration
  * - The renderer instance for displaying slides
- * - Current slide index
+ * - Current slide index and revealed fragment
  * - Animation state to prevent concurrent navigation
+ * - Blackout overlay and freeze state (the deck holds still while set)
  * - Optional notes window for presenter mode
- * - Optional auto-advance timer
+ * - Optional notes server for `term-deck notes` clients
+ * - Optional remote control server
+ * - Talk timer, and the ticker refreshing it in the notes window
+ * - Presentation options (overriding deck settings)
+ * - Optional auto-advance (auto-play) state
  * - Optional progress bar
+ * - Optional status bar, and the ticker refreshing its clock
+ * - Optional deck watcher for live reload
+ * - Pending re-layout after a terminal resize, and the warning shown
+ *   while the terminal is smaller than the deck is designed for
  */
 export interface Presenter {
   deck: Deck;
+  options: PresentOptions;
   renderer: Renderer;
   currentSlide: number;
+  currentFragment: number;
   isAnimating: boolean;
+  blackout: blessed.Widgets.BoxElement | null;
+  frozen: boolean;
   notesWindow: NotesWindow | null;
-  autoAdvanceTimer: ReturnType<typeof setInterval> | null;
+  notesServer: NotesServer | null;
+  remoteServer: RemoteServer | null;
+  talkTimer: TalkTimer;
+  notesTicker: ReturnType<typeof setInterval> | null;
+  autoAdvance: AutoAdvance | null;
   progressBar: blessed.Widgets.ProgressBarElement | null;
+  statusBar: blessed.Widgets.BoxElement | null;
+  statusTicker: ReturnType<typeof setInterval> | null;
+  deckWatcher: DeckWatcher | null;
+  resizeTimer: ReturnType<typeof setTimeout> | null;
+  sizeWarning: blessed.Widgets.BoxElement | null;
+}
+
+/**
+ * Deck watcher state (live reload)
+ *
+ * Tracks the file system watchers for the slides directory, the pending
+ * debounced reload, and the error overlay shown when a reload fails.
+ */
+export interface DeckWatcher {
+  slidesDir: string;
+  watchers: FSWatcher[];
+  debounceTimer: ReturnType<typeof setTimeout> | null;
+  errorOverlay: blessed.Widgets.BoxElement | null;
 }
 
 /**
@@ -32,11 +72,22 @@ export interface Presenter {
  * - startSlide: Index of slide to start from (defaults to 0)
  * - showNotes: Whether to open a notes window on separate TTY
  * - notesTty: Specific TTY device path for notes (optional, will auto-detect if not provided)
- * - loop: Whether to loop back to first slide after reaching the end
+ * - notesServer: Serve notes to `term-deck notes` clients on a socket path or
+ *   port (true for the default socket)
+ * - remotePort: Port of the remote control server (HTTP and WebSocket)
+ * - remoteToken: Shared-secret token for the remote control (generated if not provided)
+ * - loop: Whether to loop back to first slide after reaching the end (overrides settings.loop)
+ * - autoAdvance: Auto-advance interval in ms, 0 to disable (overrides settings.autoAdvance)
+ * - watch: Whether to reload the deck when slide or config files change
  */
 export interface PresentOptions {
   startSlide?: number;
   showNotes?: boolean;
   notesTty?: string;
+  notesServer?: string | boolean;
+  remotePort?: number;
+  remoteToken?: string;
   loop?: boolean;
+  autoAdvance?: number;
+  watch?: boolean;
 }
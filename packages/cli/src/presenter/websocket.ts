@@ -0,0 +1,190 @@
+import { createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+/**
+ * Minimal WebSocket support (RFC 6455) for the remote control server
+ *
+ * Only what the remote control needs: the opening handshake and
+ * unfragmented text, close, ping and pong frames without extensions.
+ */
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/**
+ * Largest payload a frame reader accepts by default (bytes). Remote
+ * commands are tiny JSON objects.
+ */
+export const MAX_PAYLOAD_LENGTH = 64 * 1024;
+
+/**
+ * Close frame status codes
+ */
+export const CLOSE_CODES = {
+  MESSAGE_TOO_BIG: 1009,
+} as const;
+
+/**
+ * WebSocket frame opcodes
+ */
+export const OPCODES = {
+  TEXT: 0x1,
+  CLOSE: 0x8,
+  PING: 0x9,
+  PONG: 0xa,
+} as const;
+
+/**
+ * A decoded WebSocket frame
+ */
+export interface WebSocketFrame {
+  opcode: number;
+  payload: Buffer;
+}
+
+/**
+ * Options for a frame reader
+ */
+export interface FrameReaderOptions {
+  /** Largest accepted payload in bytes (default: MAX_PAYLOAD_LENGTH) */
+  maxPayloadLength?: number;
+  /** Called when a frame is larger; the reader ignores all further data */
+  onTooLarge?: () => void;
+}
+
+/**
+ * Compute the Sec-WebSocket-Accept value for a handshake key
+ *
+ * @param key - The client's Sec-WebSocket-Key header
+ * @returns The accept value for the response
+ */
+export function getAcceptKey(key: string): string {
+  return createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+}
+
+/**
+ * Complete the opening handshake of a WebSocket upgrade request
+ *
+ * @param request - The HTTP upgrade request
+ * @param socket - The request's socket
+ * @returns Whether the handshake succeeded (the socket is closed otherwise)
+ */
+export function acceptWebSocket(request: IncomingMessage, socket: Duplex): boolean {
+  const key = request.headers['sec-websocket-key'];
+
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+    return false;
+  }
+
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${getAcceptKey(key)}\r\n\r\n`
+  );
+  return true;
+}
+
+/**
+ * Encode a server frame (unmasked, final)
+ *
+ * @param opcode - Frame opcode (see OPCODES)
+ * @param payload - Frame payload
+ * @returns The encoded frame
+ */
+export function encodeFrame(opcode: number, payload: Buffer | string = Buffer.alloc(0)): Buffer {
+  const data = typeof payload === 'string' ? Buffer.from(payload) : payload;
+  let header: Buffer;
+
+  if (data.length < 126) {
+    header = Buffer.from([0x80 | opcode, data.length]);
+  } else if (data.length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(data.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(data.length), 2);
+  }
+
+  return Buffer.concat([header, data]);
+}
+
+/**
+ * Encode a close frame with a status code
+ *
+ * @param code - Status code (see CLOSE_CODES)
+ * @returns The encoded frame
+ */
+export function encodeCloseFrame(code: number): Buffer {
+  const payload = Buffer.alloc(2);
+  payload.writeUInt16BE(code, 0);
+  return encodeFrame(OPCODES.CLOSE, payload);
+}
+
+/**
+ * Create a reader that decodes incoming frames
+ *
+ * Buffers partial frames between chunks and unmasks client payloads.
+ * Frames declaring a payload over the limit are rejected as soon as
+ * their header arrives, so they are never buffered.
+ *
+ * @param onFrame - Called with every decoded frame
+ * @param options - Payload limit and what to do when it is exceeded
+ * @returns Function to feed incoming data to
+ */
+export function createFrameReader(
+  onFrame: (frame: WebSocketFrame) => void,
+  options: FrameReaderOptions = {}
+): (chunk: Buffer) => void {
+  const { maxPayloadLength = MAX_PAYLOAD_LENGTH, onTooLarge } = options;
+  let buffer = Buffer.alloc(0);
+  let rejected = false;
+
+  return (chunk) => {
+    if (rejected) return;
+    buffer = Buffer.concat([buffer, chunk]);
+
+    while (buffer.length >= 2) {
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      if (length > maxPayloadLength) {
+        rejected = true;
+        buffer = Buffer.alloc(0);
+        onTooLarge?.();
+        return;
+      }
+
+      const mask = masked ? buffer.subarray(offset, offset + 4) : null;
+      if (mask) offset += 4;
+      if (buffer.length < offset + length) return;
+
+      const payload = Buffer.from(buffer.subarray(offset, offset + length));
+      if (mask) {
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= mask[i % 4];
+        }
+      }
+
+      buffer = buffer.subarray(offset + length);
+      onFrame({ opcode, payload });
+    }
+  };
+}
@@ -5,10 +5,14 @@ import {
   clearWindows,
   applyTransition,
   renderSlide,
+  renderSlideStack,
   createRenderer,
   destroyRenderer,
+  scrollSlide,
+  setMatrixRainPaused,
 } from '../screen'
 import { renderMatrixRain, initMatrixRain } from '../effects/matrix-rain'
+import { getContentWidth, countContentRows, formatScrollIndicator, getWindowBounds } from '../window-manager'
 import { DEFAULT_THEME } from '../../schemas/theme'
 import type { Slide } from '../../schemas/slide'
 
@@ -136,6 +140,19 @@ describe('createWindow', () => {
     }
   })
 
+  skipIfNoTTY('reports the content width inside border and padding', () => {
+    const renderer = createRenderer(DEFAULT_THEME)
+
+    try {
+      const window = createWindow(renderer, { title: 'Sized', width: 60 })
+
+      // 2 border columns + default padding of 2 on each side
+      expect(getContentWidth(window)).toBe(54)
+    } finally {
+      destroyRenderer(renderer)
+    }
+  })
+
   skipIfNoTTY('uses custom color when provided', () => {
     const renderer = createRenderer(DEFAULT_THEME)
     const customColor = '#ff00ff'
@@ -431,6 +448,20 @@ describe('initMatrixRain', () => {
     destroyRenderer(renderer)
   })
 
+  it('pauses and resumes with the same drops', () => {
+    const renderer = createRenderer(DEFAULT_THEME)
+    const drops = renderer.matrixRain.matrixDrops
+
+    setMatrixRainPaused(renderer, true)
+    expect(renderer.matrixRain.matrixInterval).toBeNull()
+
+    setMatrixRainPaused(renderer, false)
+    expect(renderer.matrixRain.matrixInterval).not.toBeNull()
+    expect(renderer.matrixRain.matrixDrops).toBe(drops)
+
+    destroyRenderer(renderer)
+  })
+
   it('creates drops with random positions', () => {
     const renderer = createRenderer(DEFAULT_THEME)
 
@@ -873,4 +904,422 @@ describe('renderSlide', () => {
 
     destroyRenderer(renderer)
   })
+
+  it('uses the slide theme override for window and content colors', async () => {
+    const renderer = createRenderer(DEFAULT_THEME)
+
+    const slide: Slide = {
+      frontmatter: {
+        title: 'Neon Slide',
+        theme: 'neon',
+        transition: 'instant',
+      },
+      body: '{PRIMARY}Neon{/}',
+      notes: '',
+      sourcePath: 'neon.md',
+      index: 0,
+    }
+
+    const window = await renderSlide(renderer, slide)
+
+    // neon primary color, not the matrix default
+    expect((window.style as any).border.fg).toBe('#ff0099')
+    expect(window.getContent()).toContain('Neon')
+    expect(renderer.theme).toBe(DEFAULT_THEME)
+
+    destroyRenderer(renderer)
+  })
+})
+
+describe('renderSlideStack', () => {
+  const slides: Slide[] = Array.from({ length: 4 }, (_, i) => ({
+    frontmatter: { title: `Slide ${i}`, transition: 'typewriter' },
+    body: `Content ${i}`,
+    notes: '',
+    sourcePath: `${i}.md`,
+    index: i,
+  }))
+
+  it('keeps the windows of the slides before the target', async () => {
+    const renderer = createRenderer(DEFAULT_THEME)
+    const instant = slides.map((slide) => ({ ...slide, frontmatter: { ...slide.frontmatter, transition: 'instant' as const } }))
+    for (const slide of instant) {
+      await renderSlide(renderer, slide)
+    }
+    const [first, second] = renderer.windowStack
+
+    await renderSlideStack(renderer, instant, 2)
+
+    expect(renderer.windowStack).toHaveLength(3)
+    expect(renderer.windowStack[0]).toBe(first)
+    expect(renderer.windowStack[1]).toBe(second)
+    expect(renderer.windowStack[2].getContent()).toContain('Content 2')
+
+    destroyRenderer(renderer)
+  })
+
+  it('restores missing windows without their transition', async () => {
+    const renderer = createRenderer(DEFAULT_THEME)
+    const target = { ...slides[3], frontmatter: { ...slides[3].frontmatter, transition: 'instant' as const } }
+
+    const started = Date.now()
+    await renderSlideStack(renderer, [...slides.slice(0, 3), target], 3)
+
+    expect(Date.now() - started).toBeLessThan(500)
+    expect(renderer.windowStack.map((window) => window.getContent())).toEqual(
+      ['Content 0', 'Content 1', 'Content 2', 'Content 3'].map((content) => expect.stringContaining(content))
+    )
+
+    destroyRenderer(renderer)
+  })
+
+  it('replaces windows showing other slides', async () => {
+    const renderer = createRenderer(DEFAULT_THEME)
+    const other = { ...slides[0], body: 'Other', frontmatter: { title: 'Other', transition: 'instant' as const } }
+    await renderSlide(renderer, other)
+    const window = renderer.windowStack[0]
+
+    await renderSlideStack(renderer, [slides[0], other], 1)
+
+    expect(renderer.windowStack).toHaveLength(2)
+    expect(renderer.windowStack.includes(window)).toBe(false)
+    expect(renderer.windowStack[0].getContent()).toContain('Content 0')
+
+    destroyRenderer(renderer)
+  })
+
+  it('restores windows with fragments still hidden in full', async () => {
+    const renderer = createRenderer(DEFAULT_THEME)
+    const fragmented = {
+      ...slides[0],
+      body: 'Always\n<!-- pause -->\nLater',
+      frontmatter: { title: 'Fragments', transition: 'instant' as const },
+    }
+    const target = { ...slides[1], frontmatter: { ...slides[1].frontmatter, transition: 'instant' as const } }
+    await renderSlide(renderer, fragmented, 0)
+    const partial = renderer.windowStack[0]
+
+    await renderSlideStack(renderer, [fragmented, target], 1)
+
+    expect(renderer.windowStack).toHaveLength(2)
+    expect(renderer.windowStack.includes(partial)).toBe(false)
+    expect(renderer.windowStack[0].getContent()).toContain('Later')
+
+    destroyRenderer(renderer)
+  })
+})
+
+describe('window stack depth', () => {
+  const slides: Slide[] = Array.from({ length: 6 }, (_, i) => ({
+    frontmatter: { title: `Slide ${i}`, transition: 'instant' },
+    body: `Content ${i}`,
+    notes: '',
+    sourcePath: `${i}.md`,
+    index: i,
+  }))
+
+  it('removes the oldest windows beyond the stack depth', async () => {
+    const renderer = createRenderer(DEFAULT_THEME, { maxStackDepth: 2 })
+    for (const slide of slides.slice(0, 4)) {
+      await renderSlide(renderer, slide)
+    }
+
+    expect(renderer.windowStack.map((window) => window.getContent())).toEqual(
+      [expect.stringContaining('Content 2'), expect.stringContaining('Content 3')]
+    )
+    expect(renderer.stackBase).toBe(2)
+
+    destroyRenderer(renderer)
+  })
+
+  it('keeps the place and color of the remaining windows', async () => {
+    const describeWindows = async (maxStackDepth: number) => {
+      const renderer = createRenderer(DEFAULT_THEME, { maxStackDepth })
+      renderer.screen.program.cols = 120
+      renderer.screen.program.rows = 40
+      for (const slide of slides.slice(0, 4)) {
+        await renderSlide(renderer, slide)
+      }
+      const windows = renderer.windowStack.map((window) => [window.top, window.left, (window.style as any).border.fg])
+      destroyRenderer(renderer)
+      return windows
+    }
+
+    const all = await describeWindows(0)
+
+    expect(await describeWindows(2)).toEqual(all.slice(2))
+  })
+
+  it('fades windows beyond the stack depth toward the muted color', async () => {
+    const renderer = createRenderer(DEFAULT_THEME, { maxStackDepth: 2, stackTrim: 'fade' })
+    for (const slide of slides) {
+      await renderSlide(renderer, slide)
+    }
+
+    // Two windows at full color, three fading, the oldest removed
+    expect(renderer.windowStack).toHaveLength(5)
+    expect(renderer.windowStack[0].getContent()).toContain('Content 1')
+    expect((renderer.windowStack[0].style as any).border.fg).toBe(DEFAULT_THEME.colors.muted)
+    expect(renderer.windowStack[0].style.fg).toBe(DEFAULT_THEME.colors.muted)
+    expect((renderer.windowStack[2].style as any).border.fg).not.toBe(DEFAULT_THEME.colors.muted)
+    expect((renderer.windowStack[4].style as any).border.fg).toBe(getWindowColor(5, DEFAULT_THEME))
+
+    destroyRenderer(renderer)
+  })
+
+  it('restores faded windows when going back', async () => {
+    const renderer = createRenderer(DEFAULT_THEME, { maxStackDepth: 2, stackTrim: 'fade' })
+    for (const slide of slides.slice(0, 4)) {
+      await renderSlide(renderer, slide)
+    }
+    const [first, second] = renderer.windowStack
+    expect((second.style as any).border.fg).not.toBe(getWindowColor(1, DEFAULT_THEME))
+
+    await renderSlideStack(renderer, slides, 2)
+
+    expect(renderer.windowStack[0] === first).toBe(true)
+    expect(renderer.windowStack[1] === second).toBe(true)
+    expect((second.style as any).border.fg).toBe(getWindowColor(1, DEFAULT_THEME))
+
+    destroyRenderer(renderer)
+  })
+
+  it('only restores the slides that stay on the screen', async () => {
+    const renderer = createRenderer(DEFAULT_THEME, { maxStackDepth: 2 })
+
+    await renderSlideStack(renderer, slides, 5)
+
+    expect(renderer.windowStack.map((window) => window.getContent())).toEqual(
+      [expect.stringContaining('Content 4'), expect.stringContaining('Content 5')]
+    )
+    expect(renderer.stackBase).toBe(4)
+
+    await renderSlideStack(renderer, slides, 1)
+
+    expect(renderer.windowStack.map((window) => window.getContent())).toEqual(
+      [expect.stringContaining('Content 0'), expect.stringContaining('Content 1')]
+    )
+    expect(renderer.stackBase).toBe(0)
+
+    destroyRenderer(renderer)
+  })
+})
+
+describe('slide-in transitions', () => {
+  it('moves the window in from outside the screen', async () => {
+    const renderer = createRenderer(DEFAULT_THEME)
+    renderer.screen.program.cols = 120
+    renderer.screen.program.rows = 40
+    const slide: Slide = {
+      frontmatter: { title: 'Down', transition: 'slide-down', layout: 'center' },
+      body: 'Arrives from the top',
+      notes: '',
+      sourcePath: 'down.md',
+      index: 0,
+    }
+
+    const window = await renderSlide(renderer, slide)
+
+    expect(window.top).toBe(6)
+    expect(window.left).toBe(15)
+    expect(window.getContent()).toContain('Arrives from the top')
+
+    destroyRenderer(renderer)
+  })
+})
+
+describe('countContentRows', () => {
+  it('counts wrapped lines', () => {
+    expect(countContentRows('short\n' + 'x'.repeat(25), 10)).toBe(4)
+  })
+
+  it('ignores blessed tags and ANSI colors', () => {
+    expect(countContentRows('{bold}abc{/bold} \x1b[31mdef\x1b[39m', 7)).toBe(1)
+  })
+})
+
+describe('formatScrollIndicator', () => {
+  it('is empty when the content fits', () => {
+    expect(formatScrollIndicator(0, 20, 20)).toBe('')
+  })
+
+  it('shows the visible rows and scroll directions', () => {
+    expect(formatScrollIndicator(0, 20, 45)).toBe('↓ 1-20/45')
+    expect(formatScrollIndicator(10, 20, 45)).toBe('↑↓ 11-30/45')
+    expect(formatScrollIndicator(25, 20, 45)).toBe('↑ 26-45/45')
+  })
+})
+
+describe('scrolling slide windows', () => {
+  const longSlide: Slide = {
+    frontmatter: { title: 'Long', transition: 'instant' },
+    body: Array.from({ length: 60 }, (_, i) => `Line ${i + 1}`).join('\n'),
+    notes: '',
+    sourcePath: 'long.md',
+    index: 0,
+  }
+
+  function createSizedRenderer(autoFit: boolean = false) {
+    const renderer = createRenderer(DEFAULT_THEME, { autoFit })
+    // The screen reads its size from the program (1x1 without a terminal)
+    renderer.screen.program.cols = 120
+    renderer.screen.program.rows = 40
+    return renderer
+  }
+
+  it('scrolls content taller than the window', async () => {
+    const renderer = createSizedRenderer()
+
+    try {
+      const window = await renderSlide(renderer, longSlide)
+
+      expect(scrollSlide(renderer, -1)).toBe(false)
+      expect(scrollSlide(renderer, 3)).toBe(true)
+      expect(window.childBase).toBe(3)
+      expect(window._label.getContent()).toMatch(/Long ─ ↑↓ 4-/)
+    } finally {
+      destroyRenderer(renderer)
+    }
+  })
+
+  it('stops at the end of the content', async () => {
+    const renderer = createSizedRenderer()
+
+    try {
+      const window = await renderSlide(renderer, longSlide)
+
+      scrollSlide(renderer, 1000)
+
+      expect(window._label.getContent()).toBe(' Long ─ ↑ 37-60/60 ')
+      expect(scrollSlide(renderer, 1)).toBe(false)
+    } finally {
+      destroyRenderer(renderer)
+    }
+  })
+
+  it('does not scroll content that fits', async () => {
+    const renderer = createSizedRenderer()
+
+    try {
+      await renderSlide(renderer, { ...longSlide, body: 'Short' })
+
+      expect(scrollSlide(renderer, 1)).toBe(false)
+    } finally {
+      destroyRenderer(renderer)
+    }
+  })
+
+  it('grows windows to fit their content with autoFit', async () => {
+    const renderer = createSizedRenderer(true)
+
+    try {
+      const window = await renderSlide(renderer, { ...longSlide, body: longSlide.body.split('\n').slice(0, 30).join('\n') })
+
+      expect(window.height).toBe(30 + window.iheight)
+      expect((window.top as number) + (window.height as number)).toBeLessThanOrEqual(40)
+      expect(scrollSlide(renderer, 1)).toBe(false)
+    } finally {
+      destroyRenderer(renderer)
+    }
+  })
+})
+
+describe('getWindowBounds', () => {
+  it('centers default-sized windows', () => {
+    expect(getWindowBounds('center', 0, 120, 40)).toEqual({ top: 6, left: 15, width: 90, height: 28 })
+    expect(getWindowBounds('center', 3, 120, 40)).toEqual(getWindowBounds('center', 0, 120, 40))
+  })
+
+  it('fills the screen in fullscreen', () => {
+    expect(getWindowBounds('fullscreen', 2, 120, 40)).toEqual({ top: 0, left: 0, width: 120, height: 40 })
+  })
+
+  it('fills the cells of a 2x2 grid in turn', () => {
+    const cells = [0, 1, 2, 3, 4].map((i) => getWindowBounds('grid', i, 120, 40))
+
+    expect(cells.map(({ top, left }) => [top, left])).toEqual([[0, 0], [0, 60], [20, 0], [20, 60], [0, 0]])
+    expect(cells[0]).toMatchObject({ width: 60, height: 20 })
+  })
+
+  it('offsets cascading windows diagonally and starts over', () => {
+    const windows = Array.from({ length: 8 }, (_, i) => getWindowBounds('cascade', i, 120, 40))
+
+    expect(windows.slice(0, 3).map(({ top, left }) => [top, left])).toEqual([[0, 0], [2, 4], [4, 8]])
+    expect(windows[6]).toEqual(windows[0])
+    for (const { top, height } of windows) {
+      expect(top + height).toBeLessThanOrEqual(40)
+    }
+  })
+
+  it('places random windows reproducibly for a seed', () => {
+    const place = (seed: number) =>
+      Array.from({ length: 5 }, (_, i) => getWindowBounds('random', i, 120, 40, seed))
+
+    expect(place(7)).toEqual(place(7))
+    expect(place(7)).not.toEqual(place(8))
+    for (const { top, left } of place(7)) {
+      expect(top).toBeGreaterThanOrEqual(0)
+      expect(top).toBeLessThan(10)
+      expect(left).toBeGreaterThanOrEqual(0)
+      expect(left).toBeLessThan(28)
+    }
+  })
+})
+
+describe('window layouts', () => {
+  const slide: Slide = {
+    frontmatter: { title: 'Placed', transition: 'instant' },
+    body: 'Content',
+    notes: '',
+    sourcePath: 'placed.md',
+    index: 0,
+  }
+
+  function createSizedRenderer(options: Parameters<typeof createRenderer>[1] = {}) {
+    const renderer = createRenderer(DEFAULT_THEME, options)
+    renderer.screen.program.cols = 120
+    renderer.screen.program.rows = 40
+    return renderer
+  }
+
+  it('renders the same positions for the same seed', async () => {
+    const positions = async () => {
+      const renderer = createSizedRenderer({ layoutSeed: 3 })
+      try {
+        const windows = [await renderSlide(renderer, slide), await renderSlide(renderer, slide)]
+        return windows.map((window) => [window.top, window.left])
+      } finally {
+        destroyRenderer(renderer)
+      }
+    }
+
+    expect(await positions()).toEqual(await positions())
+  })
+
+  it('uses the layout from the renderer options', async () => {
+    const renderer = createSizedRenderer({ layout: 'center' })
+
+    try {
+      const window = await renderSlide(renderer, slide)
+
+      expect([window.top, window.left]).toEqual([6, 15])
+    } finally {
+      destroyRenderer(renderer)
+    }
+  })
+
+  it('lets a slide override the layout', async () => {
+    const renderer = createSizedRenderer({ layout: 'center' })
+
+    try {
+      const window = await renderSlide(renderer, {
+        ...slide,
+        frontmatter: { ...slide.frontmatter, layout: 'fullscreen' },
+      })
+
+      expect([window.top, window.left, window.width, window.height]).toEqual([0, 0, 120, 40])
+    } finally {
+      destroyRenderer(renderer)
+    }
+  })
 })
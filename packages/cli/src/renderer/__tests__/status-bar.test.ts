@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatClock,
+  formatStatusBar,
+  getStatusBarItems,
+  createStatusBar,
+  updateStatusBar,
+} from '../status-bar'
+import { createScreen } from '../screen'
+import { DEFAULT_THEME } from '../../schemas/theme'
+
+// Strip blessed tags
+function plain(line: string): string {
+  return line.replace(/\{[^}]*\}/g, '')
+}
+
+const INFO = {
+  index: 2,
+  total: 10,
+  title: 'Terminal Talk',
+  author: 'Ada',
+  section: 'Intro',
+  now: new Date(2024, 0, 15, 9, 5),
+}
+
+describe('getStatusBarItems', () => {
+  it('has no items by default', () => {
+    expect(getStatusBarItems()).toEqual([])
+    expect(getStatusBarItems({ statusBar: [] })).toEqual([])
+  })
+
+  it('adds the slide number for showSlideNumbers', () => {
+    expect(getStatusBarItems({ showSlideNumbers: true })).toEqual(['slide'])
+    expect(getStatusBarItems({ showSlideNumbers: true, statusBar: ['title'] })).toEqual(['title', 'slide'])
+  })
+
+  it('does not add the slide number twice', () => {
+    expect(getStatusBarItems({ showSlideNumbers: true, statusBar: ['slide', 'clock'] })).toEqual(['slide', 'clock'])
+  })
+})
+
+describe('formatClock', () => {
+  it('formats 24-hour time', () => {
+    expect(formatClock(new Date(2024, 0, 15, 9, 5))).toBe('09:05')
+    expect(formatClock(new Date(2024, 0, 15, 23, 59))).toBe('23:59')
+  })
+})
+
+describe('formatStatusBar', () => {
+  it('puts metadata on the left and the slide number on the right', () => {
+    const line = plain(formatStatusBar(['title', 'author', 'clock', 'slide'], INFO, DEFAULT_THEME, 50))
+
+    expect(line).toHaveLength(50)
+    expect(line.startsWith(' Terminal Talk · Ada ')).toBe(true)
+    expect(line.endsWith(' 09:05 · 3/10 ')).toBe(true)
+  })
+
+  it('skips items without a value', () => {
+    const line = plain(formatStatusBar(['title', 'section', 'slide'], { index: 0, total: 3 }, DEFAULT_THEME, 20))
+
+    expect(line).toBe(`${' '.repeat(16)}1/3 `)
+  })
+
+  it('colors items from the theme', () => {
+    const line = formatStatusBar(['section', 'slide'], INFO, DEFAULT_THEME, 40)
+
+    expect(line).toContain(`{${DEFAULT_THEME.colors.accent}-fg}Intro{/}`)
+    expect(line).toContain(`{${DEFAULT_THEME.colors.primary}-fg}3/10{/}`)
+  })
+
+  it('shortens the left side when narrow', () => {
+    const line = plain(formatStatusBar(['title', 'author', 'slide'], INFO, DEFAULT_THEME, 18))
+
+    expect(line).toBe(' Terminal T… 3/10 ')
+  })
+
+  it('escapes tags in titles', () => {
+    const line = formatStatusBar(['title'], { ...INFO, title: '{bold}' }, DEFAULT_THEME, 20)
+
+    expect(line).toContain('{open}bold{close}')
+  })
+})
+
+describe('updateStatusBar', () => {
+  it('shows the status line in the bar', () => {
+    const screen = createScreen()
+    const statusBar = createStatusBar(screen, DEFAULT_THEME, 1)
+
+    updateStatusBar(statusBar, ['slide'], INFO, DEFAULT_THEME)
+
+    expect(statusBar.getContent()).toContain('3/10')
+    expect(statusBar.style.bg).toBe(DEFAULT_THEME.colors.background)
+    screen.destroy()
+  })
+})
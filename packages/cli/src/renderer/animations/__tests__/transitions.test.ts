@@ -165,6 +165,26 @@ describe('Animation Utils', () => {
       expect(box.content).toBe(content)
     })
   })
+
+  describe('splitMarkup', () => {
+    it('keeps blessed tags and ANSI codes whole', async () => {
+      const { splitMarkup } = await import('../helpers/animation-utils')
+
+      expect(splitMarkup('{bold}Hi\x1b[31m!')).toEqual([
+        { text: '{bold}', markup: true },
+        { text: 'H', markup: false },
+        { text: 'i', markup: false },
+        { text: '\x1b[31m', markup: true },
+        { text: '!', markup: false },
+      ])
+    })
+
+    it('counts visible characters only', async () => {
+      const { countVisible } = await import('../helpers/animation-utils')
+
+      expect(countVisible('{#ff0066-fg}Hello{/}')).toBe(5)
+    })
+  })
 })
 
 describe('Instant Transition', () => {
@@ -478,3 +498,170 @@ describe('Typewriter Transition', () => {
     })
   })
 })
+
+describe('Slide Transition', () => {
+  function createMovableBox() {
+    return { ...createMockBox(), top: 5, left: 10, width: 90, height: 28 }
+  }
+
+  describe('getSlideOffset', () => {
+    const bounds = { top: 5, left: 10, width: 90, height: 28 }
+
+    it('starts outside the edge the window enters from', async () => {
+      const { getSlideOffset } = await import('../transitions/slide-transition')
+
+      expect(getSlideOffset('left', bounds, 120, 40)).toEqual({ top: 0, left: 110 })
+      expect(getSlideOffset('right', bounds, 120, 40)).toEqual({ top: 0, left: -100 })
+      expect(getSlideOffset('up', bounds, 120, 40)).toEqual({ top: 35, left: 0 })
+      expect(getSlideOffset('down', bounds, 120, 40)).toEqual({ top: -33, left: 0 })
+    })
+  })
+
+  describe('slideInReveal', () => {
+    it('moves the window into place with its content', async () => {
+      const { slideInReveal } = await import('../transitions/slide-transition')
+      const box = createMovableBox()
+      const screen = { ...createMockScreen(), width: 120, height: 40 }
+      const lefts: number[] = []
+      screen.render.mockImplementation(() => lefts.push(box.left))
+      const theme = { animations: { lineDelay: 10 } } as any
+
+      await slideInReveal(box as any, screen as any, 'Hello', 'left', theme)
+
+      expect(box.content).toBe('Hello')
+      expect(lefts[0]).toBe(120)
+      expect(lefts).toEqual([...lefts].sort((a, b) => b - a))
+      expect(box.left).toBe(10)
+      expect(box.top).toBe(5)
+    })
+
+    it('shows fragments in place', async () => {
+      const { slideInReveal } = await import('../transitions/slide-transition')
+      const box = createMovableBox()
+      const screen = createMockScreen()
+      const theme = { animations: { lineDelay: 10 } } as any
+
+      await slideInReveal(box as any, screen as any, 'More', 'down', theme, 'First')
+
+      expect(box.content).toBe('First\nMore')
+      expect(box.top).toBe(5)
+      expect(screen.render.mock.calls.length).toBe(1)
+    })
+  })
+})
+
+describe('Wipe Transition', () => {
+  describe('wipeFrame', () => {
+    it('shows the first columns of each line', async () => {
+      const { wipeFrame } = await import('../transitions/wipe-transition')
+
+      expect(wipeFrame('Hello\nWorld', 2)).toBe('He\nWo')
+    })
+
+    it('keeps markup intact', async () => {
+      const { wipeFrame } = await import('../transitions/wipe-transition')
+
+      expect(wipeFrame('{bold}Hello{/bold}', 3)).toBe('{bold}Hel{/bold}')
+    })
+  })
+
+  describe('wipeReveal', () => {
+    it('reveals complete content at end', async () => {
+      const { wipeReveal } = await import('../transitions/wipe-transition')
+      const box = createMockBox()
+      const screen = createMockScreen()
+      const theme = { animations: { lineDelay: 10 } } as any
+
+      await wipeReveal(box as any, screen as any, 'Hello\nWorld', theme, 'Above')
+
+      expect(box.content).toBe('Above\nHello\nWorld')
+      // One frame per column (at most 20), the last one is the content
+      expect(screen.render.mock.calls.length).toBe(5)
+    })
+
+    it('handles empty content', async () => {
+      const { wipeReveal } = await import('../transitions/wipe-transition')
+      const box = createMockBox()
+      const screen = createMockScreen()
+      const theme = { animations: { lineDelay: 10 } } as any
+
+      await wipeReveal(box as any, screen as any, '', theme)
+
+      expect(box.content).toBe('')
+    })
+  })
+})
+
+describe('Scanline Transition', () => {
+  describe('scanlineFrame', () => {
+    it('shows the lines above the beam', async () => {
+      const { scanlineFrame } = await import('../transitions/scanline-transition')
+
+      expect(scanlineFrame(['A', 'B', 'C'], 1, '─')).toBe('A\n─')
+    })
+  })
+
+  describe('scanlineReveal', () => {
+    it('sweeps the beam down one line at a time', async () => {
+      const { scanlineReveal } = await import('../transitions/scanline-transition')
+      const box = createMockBox()
+      const screen = createMockScreen()
+      const frames: string[] = []
+      screen.render.mockImplementation(() => frames.push(box.content))
+      const theme = { colors: { primary: '#00cc66' }, animations: { lineDelay: 10 } } as any
+
+      await scanlineReveal(box as any, screen as any, 'AB\nC', theme)
+
+      expect(frames).toEqual([
+        '{bold}{#00cc66-fg}━━{/}',
+        'AB\n{bold}{#00cc66-fg}━━{/}',
+        'AB\nC',
+      ])
+    })
+  })
+})
+
+describe('Decrypt Transition', () => {
+  describe('decryptFrame', () => {
+    it('scrambles all characters at full ratio', async () => {
+      const { decryptFrame } = await import('../transitions/decrypt-transition')
+
+      const frame = decryptFrame('abc', 1)
+
+      expect(frame).toHaveLength(3)
+      for (const char of frame) {
+        expect(GLITCH_CHARS).toContain(char)
+      }
+    })
+
+    it('keeps markup and protected characters', async () => {
+      const { decryptFrame } = await import('../transitions/decrypt-transition')
+
+      expect(decryptFrame('{bold}a b{/bold}', 1)).toMatch(/^\{bold\}. .\{\/bold\}$/)
+    })
+
+    it('shows the content at ratio 0', async () => {
+      const { decryptFrame } = await import('../transitions/decrypt-transition')
+
+      expect(decryptFrame('Hello\nWorld', 0)).toBe('Hello\nWorld')
+    })
+  })
+
+  describe('decryptReveal', () => {
+    it('scrambles the whole content, then settles', async () => {
+      const { decryptReveal } = await import('../transitions/decrypt-transition')
+      const box = createMockBox()
+      const screen = createMockScreen()
+      const frames: string[] = []
+      screen.render.mockImplementation(() => frames.push(box.content))
+      const theme = { animations: { glitchIterations: 2 } } as any
+
+      await decryptReveal(box as any, screen as any, 'AB\nCD', theme)
+
+      // Every line is scrambled from the first frame
+      expect(frames[0].split('\n').every((line) => line !== 'AB' && line !== 'CD')).toBe(true)
+      expect(frames).toHaveLength(5)
+      expect(box.content).toBe('AB\nCD')
+    })
+  })
+})
@@ -1,5 +1,10 @@
 import type blessed from 'neo-blessed'
 
+/**
+ * Blessed tags and ANSI color codes, which take up no columns.
+ */
+const MARKUP_PATTERN = /\{[^{}\n]*\}|\x1b\[[0-9;]*m/g
+
 /**
  * Sleep helper for async animations.
  * Returns a promise that resolves after the specified delay.
@@ -11,6 +16,18 @@ export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms))
 }
 
+/**
+ * Prefix for content revealed below already visible content.
+ * Returns the visible content followed by a line break, or an empty
+ * string if nothing is visible yet.
+ *
+ * @param revealed - Content already shown in the box
+ * @returns Prefix to prepend to the content being revealed
+ */
+export function revealedPrefix(revealed: string): string {
+  return revealed ? revealed + '\n' : ''
+}
+
 /**
  * Renders content to a blessed box and updates the screen.
  * Utility function to reduce code duplication across transitions.
@@ -27,3 +44,45 @@ export function renderContent(
   box.setContent(content)
   screen.render()
 }
+
+/**
+ * Split a line into markup and visible characters.
+ * Blessed tags and ANSI color codes are kept whole, so transitions that
+ * hide or scramble characters never break them.
+ *
+ * @param line - Line of processed content
+ * @returns Parts in order, each markup or a single character
+ *
+ * @example
+ * splitMarkup('{bold}Hi{/bold}')
+ * // [{ text: '{bold}', markup: true }, { text: 'H', markup: false },
+ * //  { text: 'i', markup: false }, { text: '{/bold}', markup: true }]
+ */
+export function splitMarkup(line: string): Array<{ text: string; markup: boolean }> {
+  const parts: Array<{ text: string; markup: boolean }> = []
+  let index = 0
+
+  for (const match of line.matchAll(MARKUP_PATTERN)) {
+    for (const char of line.slice(index, match.index)) {
+      parts.push({ text: char, markup: false })
+    }
+    parts.push({ text: match[0], markup: true })
+    index = match.index + match[0].length
+  }
+
+  for (const char of line.slice(index)) {
+    parts.push({ text: char, markup: false })
+  }
+
+  return parts
+}
+
+/**
+ * Count the visible characters of a line (markup excluded).
+ *
+ * @param line - Line of processed content
+ * @returns Number of visible characters
+ */
+export function countVisible(line: string): number {
+  return splitMarkup(line).filter((part) => !part.markup).length
+}
@@ -10,5 +10,9 @@ export {
   lineByLineReveal,
   fadeInReveal,
   typewriterReveal,
+  slideInReveal,
+  wipeReveal,
+  scanlineReveal,
+  decryptReveal,
   applyTransition,
 } from './transitions.js'
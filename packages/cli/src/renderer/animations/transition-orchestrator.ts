@@ -4,12 +4,27 @@ import { lineByLineReveal } from './transitions/glitch-transition.js'
 import { fadeInReveal } from './transitions/fade-transition.js'
 import { typewriterReveal } from './transitions/typewriter-transition.js'
 import { instantReveal } from './transitions/instant-transition.js'
+import { slideInReveal, type SlideDirection } from './transitions/slide-transition.js'
+import { wipeReveal } from './transitions/wipe-transition.js'
+import { scanlineReveal } from './transitions/scanline-transition.js'
+import { decryptReveal } from './transitions/decrypt-transition.js'
 
 /**
  * Transition type for slide animations.
  * Defines the available transition effects for revealing slide content.
  */
-export type TransitionType = 'glitch' | 'fade' | 'instant' | 'typewriter'
+export type TransitionType =
+  | 'glitch'
+  | 'fade'
+  | 'instant'
+  | 'typewriter'
+  | 'slide-left'
+  | 'slide-right'
+  | 'slide-up'
+  | 'slide-down'
+  | 'wipe'
+  | 'scanline'
+  | 'decrypt'
 
 /**
  * Apply transition effect to reveal content.
@@ -21,32 +36,53 @@ export type TransitionType = 'glitch' | 'fade' | 'instant' | 'typewriter'
  * @param content - The complete content string to reveal
  * @param transition - The type of transition effect to apply
  * @param theme - Theme configuration for animation timing
+ * @param revealed - Content already shown above the new content (e.g. earlier fragments)
  */
 export async function applyTransition(
   box: blessed.Widgets.BoxElement,
   screen: blessed.Widgets.Screen,
   content: string,
   transition: TransitionType,
-  theme: Theme
+  theme: Theme,
+  revealed: string = ''
 ): Promise<void> {
   switch (transition) {
     case 'glitch':
-      await lineByLineReveal(box, screen, content, theme)
+      await lineByLineReveal(box, screen, content, theme, revealed)
       break
 
     case 'fade':
-      await fadeInReveal(box, screen, content, theme)
+      await fadeInReveal(box, screen, content, theme, revealed)
       break
 
     case 'instant':
-      instantReveal(box, screen, content)
+      instantReveal(box, screen, content, revealed)
       break
 
     case 'typewriter':
-      await typewriterReveal(box, screen, content, theme)
+      await typewriterReveal(box, screen, content, theme, revealed)
+      break
+
+    case 'slide-left':
+    case 'slide-right':
+    case 'slide-up':
+    case 'slide-down':
+      await slideInReveal(box, screen, content, transition.slice('slide-'.length) as SlideDirection, theme, revealed)
+      break
+
+    case 'wipe':
+      await wipeReveal(box, screen, content, theme, revealed)
+      break
+
+    case 'scanline':
+      await scanlineReveal(box, screen, content, theme, revealed)
+      break
+
+    case 'decrypt':
+      await decryptReveal(box, screen, content, theme, revealed)
       break
 
     default:
-      instantReveal(box, screen, content)
+      instantReveal(box, screen, content, revealed)
   }
 }
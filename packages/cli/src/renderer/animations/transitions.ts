@@ -8,6 +8,10 @@
  * - transitions/fade-transition.ts: Fade effect implementation
  * - transitions/typewriter-transition.ts: Typewriter effect implementation
  * - transitions/instant-transition.ts: Instant (no animation) implementation
+ * - transitions/slide-transition.ts: Slide-in (window moves into place) implementation
+ * - transitions/wipe-transition.ts: Wipe (column by column) implementation
+ * - transitions/scanline-transition.ts: Scanline (CRT line sweep) implementation
+ * - transitions/decrypt-transition.ts: Decrypt (scramble, then settle) implementation
  * - helpers/animation-utils.ts: Shared animation utilities
  */
 
@@ -19,3 +23,7 @@ export { glitchLine, lineByLineReveal } from './transitions/glitch-transition.js
 export { fadeInReveal } from './transitions/fade-transition.js'
 export { typewriterReveal } from './transitions/typewriter-transition.js'
 export { instantReveal } from './transitions/instant-transition.js'
+export { slideInReveal, type SlideDirection } from './transitions/slide-transition.js'
+export { wipeReveal } from './transitions/wipe-transition.js'
+export { scanlineReveal } from './transitions/scanline-transition.js'
+export { decryptReveal } from './transitions/decrypt-transition.js'
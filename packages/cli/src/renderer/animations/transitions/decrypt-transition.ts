@@ -0,0 +1,62 @@
+import type blessed from 'neo-blessed'
+import type { Theme } from '../../../schemas/theme.js'
+import { GLITCH_CHARS, PROTECTED_CHARS } from '../constants.js'
+import { sleep, renderContent, revealedPrefix, splitMarkup } from '../helpers/animation-utils.js'
+
+/**
+ * Delay between decrypt frames (ms).
+ */
+const DECRYPT_DELAY = 30
+
+/**
+ * Get a frame of the decrypt reveal.
+ * Scrambles characters across the whole content. Markup and protected
+ * characters (spaces, punctuation, box drawing) are never scrambled.
+ *
+ * @param content - The complete content string
+ * @param scrambleRatio - Share of characters to scramble (0-1)
+ * @returns Scrambled content
+ */
+export function decryptFrame(content: string, scrambleRatio: number): string {
+  return content
+    .split('\n')
+    .map((line) =>
+      splitMarkup(line)
+        .map(({ text, markup }) =>
+          markup || PROTECTED_CHARS.has(text) || Math.random() >= scrambleRatio
+            ? text
+            : GLITCH_CHARS[Math.floor(Math.random() * GLITCH_CHARS.length)]
+        )
+        .join('')
+    )
+    .join('\n')
+}
+
+/**
+ * Decrypt reveal (everything scrambles, then settles).
+ * Unlike the glitch reveal, which goes line by line, the whole content
+ * appears scrambled at once and settles into place together.
+ *
+ * @param box - The blessed box element to render into
+ * @param screen - The blessed screen for rendering
+ * @param content - The complete content string to reveal
+ * @param theme - Theme configuration for the number of frames
+ * @param revealed - Content already shown above the new content
+ */
+export async function decryptReveal(
+  box: blessed.Widgets.BoxElement,
+  screen: blessed.Widgets.Screen,
+  content: string,
+  theme: Theme,
+  revealed: string = ''
+): Promise<void> {
+  const prefix = revealedPrefix(revealed)
+  const steps = theme.animations.glitchIterations * 2
+
+  for (let step = steps; step > 0; step--) {
+    renderContent(box, screen, prefix + decryptFrame(content, step / steps))
+    await sleep(DECRYPT_DELAY)
+  }
+
+  renderContent(box, screen, prefix + content)
+}
@@ -1,7 +1,7 @@
 import type blessed from 'neo-blessed'
 import type { Theme } from '../../../schemas/theme.js'
 import { PROTECTED_CHARS } from '../constants.js'
-import { sleep, renderContent } from '../helpers/animation-utils.js'
+import { sleep, renderContent, revealedPrefix } from '../helpers/animation-utils.js'
 
 /**
  * Fade-in reveal (character by character, all at once).
@@ -13,31 +13,34 @@ import { sleep, renderContent } from '../helpers/animation-utils.js'
  * @param screen - The blessed screen for rendering
  * @param content - The complete content string to reveal
  * @param theme - Theme configuration for animation timing
+ * @param revealed - Content already shown above the new content
  */
 export async function fadeInReveal(
   box: blessed.Widgets.BoxElement,
   screen: blessed.Widgets.Screen,
   content: string,
-  theme: Theme
+  theme: Theme,
+  revealed: string = ''
 ): Promise<void> {
+  const prefix = revealedPrefix(revealed)
   const steps = 10
   const delay = (theme.animations.lineDelay * 2) / steps
 
   for (let step = 0; step < steps; step++) {
     const revealRatio = step / steps
-    let revealed = ''
+    let faded = ''
 
     for (const char of content) {
       if (char === '\n' || PROTECTED_CHARS.has(char) || Math.random() < revealRatio) {
-        revealed += char
+        faded += char
       } else {
-        revealed += ' '
+        faded += ' '
       }
     }
 
-    renderContent(box, screen, revealed)
+    renderContent(box, screen, prefix + faded)
     await sleep(delay)
   }
 
-  renderContent(box, screen, content)
+  renderContent(box, screen, prefix + content)
 }
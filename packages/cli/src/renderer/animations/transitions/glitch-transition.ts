@@ -51,15 +51,17 @@ export async function glitchLine(
  * @param screen - The blessed screen for rendering
  * @param content - The complete content string (with newlines)
  * @param theme - Theme configuration for animation timing
+ * @param revealed - Content already shown above the new content
  */
 export async function lineByLineReveal(
   box: blessed.Widgets.BoxElement,
   screen: blessed.Widgets.Screen,
   content: string,
-  theme: Theme
+  theme: Theme,
+  revealed: string = ''
 ): Promise<void> {
   const lines = content.split('\n')
-  const revealedLines: string[] = []
+  const revealedLines: string[] = revealed ? revealed.split('\n') : []
   const lineDelay = theme.animations.lineDelay
   const glitchIterations = theme.animations.glitchIterations
 
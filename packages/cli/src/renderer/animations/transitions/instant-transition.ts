@@ -1,5 +1,5 @@
 import type blessed from 'neo-blessed'
-import { renderContent } from '../helpers/animation-utils.js'
+import { renderContent, revealedPrefix } from '../helpers/animation-utils.js'
 
 /**
  * Instant reveal (no animation).
@@ -8,11 +8,13 @@ import { renderContent } from '../helpers/animation-utils.js'
  * @param box - The blessed box element to render into
  * @param screen - The blessed screen for rendering
  * @param content - The complete content string to reveal
+ * @param revealed - Content already shown above the new content
  */
 export function instantReveal(
   box: blessed.Widgets.BoxElement,
   screen: blessed.Widgets.Screen,
-  content: string
+  content: string,
+  revealed: string = ''
 ): void {
-  renderContent(box, screen, content)
+  renderContent(box, screen, revealedPrefix(revealed) + content)
 }
@@ -0,0 +1,51 @@
+import type blessed from 'neo-blessed'
+import type { Theme } from '../../../schemas/theme.js'
+import { sleep, renderContent, revealedPrefix, countVisible } from '../helpers/animation-utils.js'
+
+/**
+ * Get a frame of the scanline reveal.
+ * Shows the lines above the beam, then the beam itself.
+ *
+ * @param lines - Lines of the content
+ * @param row - Row of the beam
+ * @param beam - The beam line
+ * @returns Content revealed up to the beam
+ *
+ * @example
+ * scanlineFrame(['A', 'B', 'C'], 1, '─') // 'A\n─'
+ */
+export function scanlineFrame(lines: string[], row: number, beam: string): string {
+  return [...lines.slice(0, row), beam].join('\n')
+}
+
+/**
+ * Scanline reveal (CRT-style line sweep).
+ * A bright beam in the theme's primary color sweeps down the window,
+ * leaving the content behind it.
+ *
+ * @param box - The blessed box element to render into
+ * @param screen - The blessed screen for rendering
+ * @param content - The complete content string to reveal
+ * @param theme - Theme configuration for animation timing and the beam color
+ * @param revealed - Content already shown above the new content
+ */
+export async function scanlineReveal(
+  box: blessed.Widgets.BoxElement,
+  screen: blessed.Widgets.Screen,
+  content: string,
+  theme: Theme,
+  revealed: string = ''
+): Promise<void> {
+  const prefix = revealedPrefix(revealed)
+  const lines = content.split('\n')
+  const width = Math.max(1, ...lines.map(countVisible))
+  const beam = `{bold}{${theme.colors.primary}-fg}${'━'.repeat(width)}{/}`
+  const delay = theme.animations.lineDelay / 4
+
+  for (let row = 0; row < lines.length; row++) {
+    renderContent(box, screen, prefix + scanlineFrame(lines, row, beam))
+    await sleep(delay)
+  }
+
+  renderContent(box, screen, prefix + content)
+}
@@ -0,0 +1,100 @@
+import type blessed from 'neo-blessed'
+import type { Theme } from '../../../schemas/theme.js'
+import { sleep, renderContent, revealedPrefix } from '../helpers/animation-utils.js'
+
+/**
+ * Direction a window slides in.
+ * The window moves that way into place, e.g. 'left' enters from the right.
+ */
+export type SlideDirection = 'left' | 'right' | 'up' | 'down'
+
+/**
+ * Number of frames of the slide-in.
+ */
+const SLIDE_STEPS = 10
+
+/**
+ * Get where a window starts sliding in from, relative to its place.
+ * The window starts just outside the screen edge it enters from.
+ *
+ * @param direction - Direction the window moves
+ * @param bounds - Position and size of the window in its place
+ * @param screenWidth - Screen width in columns
+ * @param screenHeight - Screen height in rows
+ * @returns Offset from the window's place, in characters
+ *
+ * @example
+ * getSlideOffset('left', { top: 5, left: 10, width: 90, height: 28 }, 120, 40)
+ * // { top: 0, left: 110 }
+ */
+export function getSlideOffset(
+  direction: SlideDirection,
+  bounds: { top: number; left: number; width: number; height: number },
+  screenWidth: number,
+  screenHeight: number
+): { top: number; left: number } {
+  switch (direction) {
+    case 'left':
+      return { top: 0, left: screenWidth - bounds.left }
+    case 'right':
+      return { top: 0, left: -(bounds.left + bounds.width) }
+    case 'up':
+      return { top: screenHeight - bounds.top, left: 0 }
+    case 'down':
+      return { top: -(bounds.top + bounds.height), left: 0 }
+  }
+}
+
+/**
+ * Slide-in reveal (the window moves into place).
+ * The window enters from a screen edge with its content shown, slowing
+ * down as it arrives. Fragments of a slide already in place appear
+ * instantly.
+ *
+ * @param box - The blessed box element to move and render into
+ * @param screen - The blessed screen for rendering
+ * @param content - The complete content string to reveal
+ * @param direction - Direction the window moves
+ * @param theme - Theme configuration for animation timing
+ * @param revealed - Content already shown above the new content
+ */
+export async function slideInReveal(
+  box: blessed.Widgets.BoxElement,
+  screen: blessed.Widgets.Screen,
+  content: string,
+  direction: SlideDirection,
+  theme: Theme,
+  revealed: string = ''
+): Promise<void> {
+  const prefix = revealedPrefix(revealed)
+
+  if (revealed) {
+    renderContent(box, screen, prefix + content)
+    return
+  }
+
+  const top = box.top as number
+  const left = box.left as number
+  const offset = getSlideOffset(
+    direction,
+    { top, left, width: box.width as number, height: box.height as number },
+    (screen.width as number) || 120,
+    (screen.height as number) || 40
+  )
+  const delay = (theme.animations.lineDelay * 2) / SLIDE_STEPS
+
+  box.setContent(content)
+
+  for (let step = 0; step < SLIDE_STEPS; step++) {
+    // Ease out: fast at first, slowing down into place
+    const remaining = (1 - step / SLIDE_STEPS) ** 2
+    box.top = top + Math.round(offset.top * remaining)
+    box.left = left + Math.round(offset.left * remaining)
+    screen.render()
+    await sleep(delay)
+  }
+
+  box.top = top
+  box.left = left
+  screen.render()
+}
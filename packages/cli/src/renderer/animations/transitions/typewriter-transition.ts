@@ -1,6 +1,6 @@
 import type blessed from 'neo-blessed'
 import type { Theme } from '../../../schemas/theme.js'
-import { sleep, renderContent } from '../helpers/animation-utils.js'
+import { sleep, renderContent, revealedPrefix } from '../helpers/animation-utils.js'
 
 /**
  * Typewriter reveal (character by character, sequentially).
@@ -11,19 +11,22 @@ import { sleep, renderContent } from '../helpers/animation-utils.js'
  * @param screen - The blessed screen for rendering
  * @param content - The complete content string to reveal
  * @param theme - Theme configuration for animation timing
+ * @param revealed - Content already shown above the new content
  */
 export async function typewriterReveal(
   box: blessed.Widgets.BoxElement,
   screen: blessed.Widgets.Screen,
   content: string,
-  theme: Theme
+  theme: Theme,
+  revealed: string = ''
 ): Promise<void> {
   const charDelay = theme.animations.lineDelay / 5
-  let revealed = ''
+  const prefix = revealedPrefix(revealed)
+  let typed = ''
 
   for (const char of content) {
-    revealed += char
-    renderContent(box, screen, revealed)
+    typed += char
+    renderContent(box, screen, prefix + typed)
 
     if (char !== ' ' && char !== '\n') {
       await sleep(charDelay)
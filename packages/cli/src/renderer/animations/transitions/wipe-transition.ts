@@ -0,0 +1,64 @@
+import type blessed from 'neo-blessed'
+import type { Theme } from '../../../schemas/theme.js'
+import { sleep, renderContent, revealedPrefix, splitMarkup, countVisible } from '../helpers/animation-utils.js'
+
+/**
+ * Most columns revealed at once.
+ */
+const WIPE_STEPS = 20
+
+/**
+ * Get a frame of the wipe reveal.
+ * Shows the first columns of every line. Markup is kept, so colors
+ * stay intact in the revealed part.
+ *
+ * @param content - The complete content string
+ * @param columns - Number of columns to show
+ * @returns Content cut off after the column
+ *
+ * @example
+ * wipeFrame('Hello\nWorld', 2) // 'He\nWo'
+ */
+export function wipeFrame(content: string, columns: number): string {
+  return content
+    .split('\n')
+    .map((line) => {
+      let visible = 0
+      return splitMarkup(line)
+        .filter((part) => part.markup || visible++ < columns)
+        .map((part) => part.text)
+        .join('')
+    })
+    .join('\n')
+}
+
+/**
+ * Wipe reveal (column by column, left to right).
+ * Reveals all lines at once, a few columns at a time, like a curtain
+ * drawn across the window.
+ *
+ * @param box - The blessed box element to render into
+ * @param screen - The blessed screen for rendering
+ * @param content - The complete content string to reveal
+ * @param theme - Theme configuration for animation timing
+ * @param revealed - Content already shown above the new content
+ */
+export async function wipeReveal(
+  box: blessed.Widgets.BoxElement,
+  screen: blessed.Widgets.Screen,
+  content: string,
+  theme: Theme,
+  revealed: string = ''
+): Promise<void> {
+  const prefix = revealedPrefix(revealed)
+  const width = Math.max(0, ...content.split('\n').map(countVisible))
+  const steps = Math.min(width, WIPE_STEPS)
+  const delay = (theme.animations.lineDelay * 2) / Math.max(steps, 1)
+
+  for (let step = 1; step < steps; step++) {
+    renderContent(box, screen, prefix + wipeFrame(content, Math.ceil((width * step) / steps)))
+    await sleep(delay)
+  }
+
+  renderContent(box, screen, prefix + content)
+}
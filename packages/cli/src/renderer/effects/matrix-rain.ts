@@ -104,13 +104,14 @@ export function renderMatrixRain(
 }
 
 /**
- * Initialize matrix rain drops.
- * Creates the initial set of drops and starts the animation loop.
+ * Seed matrix rain drops across the screen.
+ * Replaces all drops with new ones spread over the current screen size,
+ * e.g. after the terminal was resized. Does not start the animation.
  *
  * @param screen - The blessed screen instance
- * @param state - Matrix rain state to initialize
+ * @param state - Matrix rain state to seed
  */
-export function initMatrixRain(
+export function seedMatrixRain(
   screen: blessed.Widgets.Screen,
   state: MatrixRainState
 ): void {
@@ -129,12 +130,41 @@ export function initMatrixRain(
       trail: generateTrail(theme.glyphs, 5 + Math.floor(Math.random() * 10)),
     })
   }
+}
+
+/**
+ * Initialize matrix rain drops.
+ * Creates the initial set of drops and starts the animation loop.
+ *
+ * @param screen - The blessed screen instance
+ * @param state - Matrix rain state to initialize
+ */
+export function initMatrixRain(
+  screen: blessed.Widgets.Screen,
+  state: MatrixRainState
+): void {
+  seedMatrixRain(screen, state)
+  startMatrixRain(screen, state)
+}
+
+/**
+ * Start (or resume) the matrix rain animation loop.
+ * Drops continue from their current positions. Does nothing if the
+ * animation is already running.
+ *
+ * @param screen - The blessed screen instance
+ * @param state - Matrix rain state to animate
+ */
+export function startMatrixRain(
+  screen: blessed.Widgets.Screen,
+  state: MatrixRainState
+): void {
+  if (state.matrixInterval) return
 
-  // Start animation loop
   state.matrixInterval = setInterval(() => {
     renderMatrixRain(screen, state)
     screen.render()
-  }, theme.animations.matrixInterval)
+  }, state.theme.animations.matrixInterval)
 }
 
 /**
@@ -1,20 +1,37 @@
 import blessed from 'neo-blessed'
 import type { Theme } from '../schemas/theme.js'
-import type { Slide } from '../schemas/slide.js'
+import type { Slide, WindowLayout } from '../schemas/slide.js'
+import type { StackTrim } from '../schemas/config.js'
 import {
   type MatrixRainState,
   createMatrixBox,
   initMatrixRain,
+  seedMatrixRain,
+  startMatrixRain,
   stopMatrixRain,
 } from './effects/matrix-rain.js'
 import { type TransitionType } from './animations/transitions.js'
 import {
   createWindow as createWindowInternal,
   clearWindows as clearWindowsInternal,
+  fadeWindow,
+  scrollWindow,
   type WindowOptions,
 } from './window-manager.js'
-import { renderSlide as renderSlideInternal } from './slide-renderer.js'
+import {
+  renderSlide as renderSlideInternal,
+  showFragment as showFragmentInternal,
+} from './slide-renderer.js'
 import { generateBigText, generateMultiLineBigText } from './text-generator.js'
+import { resolveSlideTheme } from '../core/theme-resolver.js'
+import { countFragments } from '../core/fragments.js'
+
+// Slide shown in each window and whether all its fragments are revealed,
+// to reuse windows when going back
+const windowSlides = new WeakMap<blessed.Widgets.BoxElement, { slide: Slide; complete: boolean }>()
+
+// Slides over which windows beyond the stack depth fade out
+const FADE_STEPS = 3
 
 // Re-export for backwards compatibility
 export { type TransitionType, applyTransition } from './animations/transitions.js'
@@ -35,6 +52,35 @@ export interface Renderer {
   theme: Theme
   /** Matrix rain animation state */
   matrixRain: MatrixRainState
+  /** Grow slide windows to fit their content before scrolling */
+  autoFit: boolean
+  /** Layout of slide windows (slides can override it) */
+  layout: WindowLayout
+  /** Seed for the random layout */
+  layoutSeed: number
+  /** Slide windows kept on the screen (0 = all) */
+  maxStackDepth: number
+  /** Whether windows beyond maxStackDepth are removed or fade out first */
+  stackTrim: StackTrim
+  /** Windows removed from the bottom of the stack, so the rest keep their place */
+  stackBase: number
+}
+
+/**
+ * Renderer creation options.
+ * Matches the deck settings, so `deck.config.settings` can be passed as is.
+ */
+export interface RendererOptions {
+  /** Grow slide windows to fit their content (default: false) */
+  autoFit?: boolean
+  /** Layout of slide windows (default: 'random') */
+  layout?: WindowLayout
+  /** Seed for the random layout (default: 0) */
+  layoutSeed?: number
+  /** Slide windows kept on the screen (default: 0, all) */
+  maxStackDepth?: number
+  /** What happens to windows beyond maxStackDepth (default: 'destroy') */
+  stackTrim?: StackTrim
 }
 
 /**
@@ -67,9 +113,10 @@ export function createScreen(title: string = 'term-deck'): blessed.Widgets.Scree
  * empty window stack, and starts the matrix rain animation.
  *
  * @param theme - Theme configuration for rendering
+ * @param options - Renderer options (window layout and auto-fit)
  * @returns Fully initialized Renderer instance
  */
-export function createRenderer(theme: Theme): Renderer {
+export function createRenderer(theme: Theme, options: RendererOptions = {}): Renderer {
   const screen = createScreen()
 
   // Create matrix background box covering full screen
@@ -87,6 +134,12 @@ export function createRenderer(theme: Theme): Renderer {
     windowStack: [],
     theme,
     matrixRain,
+    autoFit: options.autoFit ?? false,
+    layout: options.layout ?? 'random',
+    layoutSeed: options.layoutSeed ?? 0,
+    maxStackDepth: options.maxStackDepth ?? 0,
+    stackTrim: options.stackTrim ?? 'destroy',
+    stackBase: 0,
   }
 
   // Initialize matrix rain
@@ -113,6 +166,21 @@ export function destroyRenderer(renderer: Renderer): void {
   renderer.screen.destroy()
 }
 
+/**
+ * Pause or resume the matrix rain background.
+ * A paused rain keeps its drops, so it continues where it stopped.
+ *
+ * @param renderer - The renderer instance
+ * @param paused - Whether the rain should be paused
+ */
+export function setMatrixRainPaused(renderer: Renderer, paused: boolean): void {
+  if (paused) {
+    stopMatrixRain(renderer.matrixRain)
+  } else {
+    startMatrixRain(renderer.screen, renderer.matrixRain)
+  }
+}
+
 /**
  * Create a slide window with stacking effect.
  * Creates a bordered box element with theme-based styling,
@@ -138,6 +206,48 @@ export function createWindow(
  */
 export function clearWindows(renderer: Renderer): void {
   clearWindowsInternal(renderer.windowStack)
+  renderer.stackBase = 0
+}
+
+/**
+ * Get how many slide windows a renderer keeps on the screen.
+ * With fading, windows beyond the stack depth stay while they fade out.
+ *
+ * @param renderer - The renderer instance
+ * @returns Number of windows, Infinity without a stack depth
+ */
+function getStackCapacity(renderer: Renderer): number {
+  if (renderer.maxStackDepth <= 0) return Infinity
+
+  return renderer.maxStackDepth + (renderer.stackTrim === 'fade' ? FADE_STEPS : 0)
+}
+
+/**
+ * Keep the window stack within the renderer's stack depth.
+ * Removes the oldest windows beyond it and, when fading, dims windows
+ * below the stack depth toward the muted color a step per slide.
+ * Windows back within the stack depth get their own colors again.
+ *
+ * @param renderer - The renderer instance
+ */
+function trimWindowStack(renderer: Renderer): void {
+  const { windowStack, theme } = renderer
+  const excess = windowStack.length - getStackCapacity(renderer)
+
+  if (excess > 0) {
+    for (const window of windowStack.splice(0, excess)) {
+      window.destroy()
+    }
+    renderer.stackBase += excess
+  }
+
+  if (renderer.maxStackDepth <= 0 || renderer.stackTrim !== 'fade') return
+
+  windowStack.forEach((window, position) => {
+    const age = windowStack.length - 1 - position
+    const step = Math.max(0, age - renderer.maxStackDepth + 1)
+    fadeWindow(window, theme.colors.muted, step / FADE_STEPS)
+  })
 }
 
 /**
@@ -145,13 +255,168 @@ export function clearWindows(renderer: Renderer): void {
  * Creates a window, generates bigText if present, processes the body content,
  * and applies the specified transition effect to reveal the slide.
  *
+ * If the slide sets a `theme` in its frontmatter, that theme is used for
+ * the window, content and transition instead of the renderer-wide theme.
+ * Windows are placed by the renderer's layout (or the slide's own) and,
+ * with the renderer's `autoFit`, grow to fit their content.
+ *
  * @param renderer - The renderer instance
  * @param slide - The slide to render
+ * @param fragment - Index of the last fragment to show (default: all)
+ * @param animate - Reveal with the slide's transition, or instantly (default: true)
  * @returns The created window box element containing the rendered slide
  */
 export async function renderSlide(
   renderer: Renderer,
-  slide: Slide
+  slide: Slide,
+  fragment?: number,
+  animate: boolean = true
+): Promise<blessed.Widgets.BoxElement> {
+  const theme = await resolveSlideTheme(slide, renderer.theme)
+  const window = await renderSlideInternal(renderer.screen, renderer.windowStack, theme, slide, fragment, {
+    autoFit: renderer.autoFit,
+    layout: renderer.layout,
+    seed: renderer.layoutSeed,
+    animate,
+    index: renderer.stackBase + renderer.windowStack.length,
+  })
+
+  windowSlides.set(window, { slide, complete: isLastFragment(slide, fragment) })
+
+  if (renderer.maxStackDepth > 0) {
+    trimWindowStack(renderer)
+    renderer.screen.render()
+  }
+
+  return window
+}
+
+/**
+ * Check whether a fragment index reveals the whole slide.
+ *
+ * @param slide - The slide
+ * @param fragment - Index of the last fragment shown (default: all)
+ * @returns Whether every fragment is shown
+ */
+function isLastFragment(slide: Slide, fragment?: number): boolean {
+  return fragment === undefined || fragment >= countFragments(slide.body, slide.frontmatter.fragments) - 1
+}
+
+/**
+ * Render a slide on top of the slides before it.
+ * Keeps the stacked look of presenting the deck from the start without
+ * replaying every transition: windows already showing the slides before
+ * in full are kept, missing ones (or ones with fragments still hidden)
+ * are restored instantly (from cached content),
+ * and only the target slide animates. Windows above are removed, and
+ * with a stack depth, only the slides that stay on the screen are restored.
+ *
+ * @param renderer - The renderer instance
+ * @param slides - Slides of the deck
+ * @param index - Index of the slide to render
+ * @param fragment - Index of the last fragment to show (default: all)
+ * @param animate - Reveal the target slide with its transition (default: true)
+ * @returns The window of the target slide
+ */
+export async function renderSlideStack(
+  renderer: Renderer,
+  slides: Slide[],
+  index: number,
+  fragment?: number,
+  animate: boolean = true
 ): Promise<blessed.Widgets.BoxElement> {
-  return renderSlideInternal(renderer.screen, renderer.windowStack, renderer.theme, slide)
+  const { windowStack } = renderer
+  const first = Math.max(0, index + 1 - getStackCapacity(renderer))
+
+  // Windows can only be added on top, so slides removed from the bottom
+  // of the stack that are needed again mean starting over
+  let kept = 0
+  if (renderer.stackBase <= first) {
+    while (kept < windowStack.length && renderer.stackBase + kept < index) {
+      const shown = windowSlides.get(windowStack[kept])
+      if (shown?.slide !== slides[renderer.stackBase + kept] || !shown.complete) break
+      kept++
+    }
+  }
+
+  // Kept windows that all leave the screen anyway are not worth keeping
+  if (renderer.stackBase + kept <= first) kept = 0
+
+  for (const window of windowStack.splice(kept)) {
+    window.destroy()
+  }
+  if (kept === 0) renderer.stackBase = first
+
+  const next = renderer.stackBase + kept
+  for (let i = next; i < index; i++) {
+    await renderSlide(renderer, slides[i], undefined, false)
+  }
+
+  return renderSlide(renderer, slides[index], fragment, animate)
+}
+
+/**
+ * Lay out the renderer again after the terminal was resized.
+ * Windows keep the size and position computed when they were created,
+ * so the window stack is rendered again, instantly, for the new screen
+ * size: windows are placed by their layout again and their content
+ * re-flows to the new width. The matrix rain is re-seeded across the
+ * new columns. Scroll positions are not kept.
+ *
+ * @param renderer - The renderer instance
+ * @param slides - Slides of the deck
+ * @param index - Index of the current slide
+ * @param fragment - Index of the last fragment to show (default: all)
+ */
+export async function resizeRenderer(
+  renderer: Renderer,
+  slides: Slide[],
+  index: number,
+  fragment?: number
+): Promise<void> {
+  seedMatrixRain(renderer.screen, renderer.matrixRain)
+  clearWindows(renderer)
+  await renderSlideStack(renderer, slides, index, fragment, false)
+}
+
+/**
+ * Show the fragments of the topmost slide window up to a fragment index.
+ * Reveals the last fragment with the slide's transition, or replaces
+ * the content instantly when not animating (e.g. hiding a fragment).
+ *
+ * @param renderer - The renderer instance
+ * @param slide - The slide shown in the topmost window
+ * @param fragment - Index of the last fragment to show
+ * @param animate - Whether to reveal the last fragment with the transition
+ */
+export async function showFragment(
+  renderer: Renderer,
+  slide: Slide,
+  fragment: number,
+  animate: boolean = true
+): Promise<void> {
+  const window = renderer.windowStack[renderer.windowStack.length - 1]
+  if (!window) return
+
+  const theme = await resolveSlideTheme(slide, renderer.theme)
+  await showFragmentInternal(renderer.screen, window, theme, slide, fragment, animate)
+  windowSlides.set(window, { slide, complete: isLastFragment(slide, fragment) })
+}
+
+/**
+ * Scroll the content of the topmost slide window.
+ * Only windows whose content is taller than the window scroll.
+ *
+ * @param renderer - The renderer instance
+ * @param offset - Rows to scroll (negative scrolls up)
+ * @returns Whether the window scrolled
+ */
+export function scrollSlide(renderer: Renderer, offset: number): boolean {
+  const window = renderer.windowStack[renderer.windowStack.length - 1]
+  if (!window) return false
+
+  const scrolled = scrollWindow(window, offset)
+  if (scrolled) renderer.screen.render()
+
+  return scrolled
 }
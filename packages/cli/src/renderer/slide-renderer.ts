@@ -1,10 +1,19 @@
 import blessed from 'neo-blessed'
 import type { Theme } from '../schemas/theme.js'
-import type { Slide } from '../schemas/slide.js'
+import type { Slide, WindowLayout } from '../schemas/slide.js'
 import { normalizeBigText, processSlideContent } from '../core/content-processor.js'
-import { applyTransition } from './animations/transitions.js'
+import { prepareFragments, splitFragments } from '../core/fragments.js'
+import { getSlideThemeSource } from '../core/theme-resolver.js'
+import { applyTransition, instantReveal } from './animations/transitions.js'
 import { generateMultiLineBigText } from './text-generator.js'
-import { createWindow } from './window-manager.js'
+import {
+  createWindow,
+  countContentRows,
+  fitWindowToContent,
+  getContentWidth,
+  scrollWindow,
+  updateScrollIndicator,
+} from './window-manager.js'
 
 /**
  * Rendered slide content.
@@ -19,50 +28,191 @@ export interface RenderedContent {
   diagram?: string
 }
 
+/**
+ * Options for rendering a slide window.
+ */
+export interface RenderSlideOptions {
+  /** Grow the window to fit its content (default: false) */
+  autoFit?: boolean
+  /** Window layout, unless the slide sets its own (default: 'random') */
+  layout?: WindowLayout
+  /** Seed for the random layout */
+  seed?: number
+  /** Reveal the slide with its transition, or instantly (default: true) */
+  animate?: boolean
+  /** Index of the window for its color and layout (default: its position in the stack) */
+  index?: number
+}
+
+/**
+ * Built fragments of each slide, with the theme and width they were
+ * built for. Slide themes are recorded by their source (see
+ * getSlideThemeSource), since resolving them creates new objects.
+ * Reloaded slides are new objects, so they are built again.
+ */
+const fragmentCache = new WeakMap<Slide, { theme: Theme | string; width: number; fragments: string[] }>()
+
+/**
+ * Build the content of a slide window, split into fragments.
+ * Generates bigText if present and processes the body content fitted to
+ * the content width. The bigText is part of the first fragment.
+ *
+ * @param width - Width available for content (see getContentWidth)
+ * @param theme - Active theme for rendering
+ * @param slide - The slide to build
+ * @returns Content of each fragment (a single entry without fragments)
+ */
+export async function buildSlideFragments(
+  width: number,
+  theme: Theme,
+  slide: Slide
+): Promise<string[]> {
+  const { frontmatter, body } = slide
+
+  let bigText = ''
+
+  // Big text (figlet)
+  const bigTextLines = normalizeBigText(frontmatter.bigText)
+  if (bigTextLines.length > 0) {
+    const gradientName = frontmatter.gradient ?? 'fire'
+    const gradientColors = theme.gradients[gradientName] ?? theme.gradients.fire
+
+    bigText = await generateMultiLineBigText(bigTextLines, gradientColors) + '\n\n'
+  }
+
+  // Process body content (markdown, color tokens, mermaid), fit to the width
+  const processedBody = await processSlideContent(
+    prepareFragments(body, frontmatter.fragments),
+    theme,
+    { width }
+  )
+
+  const fragments = splitFragments(processedBody)
+  fragments[0] = bigText + fragments[0]
+
+  return fragments
+}
+
+/**
+ * Get the fragments of a slide window, building them once.
+ * Cached per slide, so restoring a window or revealing a fragment does
+ * not generate the bigText and process the body again.
+ *
+ * @param width - Width available for content (see getContentWidth)
+ * @param theme - Active theme for rendering
+ * @param slide - The slide to build
+ * @returns Content of each fragment
+ */
+async function getSlideFragments(width: number, theme: Theme, slide: Slide): Promise<string[]> {
+  const themeKey = getSlideThemeSource(slide) ?? theme
+  const cached = fragmentCache.get(slide)
+  if (cached && cached.theme === themeKey && cached.width === width) {
+    return cached.fragments
+  }
+
+  const fragments = await buildSlideFragments(width, theme, slide)
+  fragmentCache.set(slide, { theme: themeKey, width, fragments })
+
+  return fragments
+}
+
 /**
  * Render a slide to a window.
  * Creates a window, generates bigText if present, processes the body content,
  * and applies the specified transition effect to reveal the slide.
  *
+ * For slides with fragments, only the fragments up to `fragment` are
+ * shown. Without a fragment index, the whole slide is shown. Without
+ * `animate`, the content appears instantly instead of with the slide's
+ * transition.
+ *
+ * The window is placed by the slide's `layout`, or the layout in the
+ * options. Content taller than the window can be scrolled. With
+ * `autoFit`, the window first grows to fit all fragments, up to the
+ * screen height.
+ *
  * @param screen - The blessed screen instance
  * @param windowStack - Stack of existing windows
  * @param theme - Active theme for rendering
  * @param slide - The slide to render
+ * @param fragment - Index of the last fragment to show (default: all)
+ * @param options - Layout, auto-fit and animation options
  * @returns The created window box element containing the rendered slide
  */
 export async function renderSlide(
   screen: blessed.Widgets.Screen,
   windowStack: blessed.Widgets.BoxElement[],
   theme: Theme,
-  slide: Slide
+  slide: Slide,
+  fragment?: number,
+  options: RenderSlideOptions = {}
 ): Promise<blessed.Widgets.BoxElement> {
-  const { frontmatter, body } = slide
+  const { frontmatter } = slide
 
   // Create window
   const window = createWindow(screen, windowStack, theme, {
     title: frontmatter.title,
+    layout: frontmatter.layout ?? options.layout,
+    seed: options.seed,
+    index: options.index,
   })
 
-  // Build content
-  let content = ''
-
-  // Big text (figlet)
-  const bigTextLines = normalizeBigText(frontmatter.bigText)
-  if (bigTextLines.length > 0) {
-    const gradientName = frontmatter.gradient ?? 'fire'
-    const gradientColors = theme.gradients[gradientName] ?? theme.gradients.fire
+  const width = getContentWidth(window)
+  const fragments = await getSlideFragments(width, theme, slide)
+  const content = fragments.slice(0, (fragment ?? fragments.length - 1) + 1).join('\n')
 
-    const bigText = await generateMultiLineBigText(bigTextLines, gradientColors)
-    content += bigText + '\n\n'
+  // Size for all fragments, so revealing one does not resize the window
+  if (options.autoFit) {
+    fitWindowToContent(screen, window, countContentRows(fragments.join('\n'), width))
   }
 
-  // Process body content (color tokens, mermaid)
-  const processedBody = await processSlideContent(body, theme)
-  content += processedBody
-
   // Apply transition
-  const transition = frontmatter.transition ?? 'glitch'
+  const transition = options.animate === false ? 'instant' : frontmatter.transition ?? 'glitch'
   await applyTransition(window, screen, content, transition, theme)
 
+  updateScrollIndicator(window)
+  screen.render()
+
   return window
 }
+
+/**
+ * Show the fragments of a rendered slide up to a fragment index.
+ * When revealing, the last fragment is animated with the slide's
+ * transition below the fragments already shown. Otherwise the content
+ * is replaced instantly (e.g. when hiding a fragment). A revealed
+ * fragment is scrolled into view.
+ *
+ * @param screen - The blessed screen instance
+ * @param window - The window the slide is rendered in
+ * @param theme - Active theme for rendering
+ * @param slide - The rendered slide
+ * @param fragment - Index of the last fragment to show
+ * @param animate - Whether to reveal the last fragment with the transition
+ */
+export async function showFragment(
+  screen: blessed.Widgets.Screen,
+  window: blessed.Widgets.BoxElement,
+  theme: Theme,
+  slide: Slide,
+  fragment: number,
+  animate: boolean
+): Promise<void> {
+  const fragments = await getSlideFragments(getContentWidth(window), theme, slide)
+  const last = Math.max(0, Math.min(fragment, fragments.length - 1))
+  const revealed = fragments.slice(0, last).join('\n')
+
+  if (!animate || last === 0) {
+    instantReveal(window, screen, fragments.slice(0, last + 1).join('\n'))
+    updateScrollIndicator(window)
+    screen.render()
+    return
+  }
+
+  const transition = slide.frontmatter.transition ?? 'glitch'
+  await applyTransition(window, screen, fragments[last], transition, theme, revealed)
+
+  // Scroll to the end so the new fragment is visible
+  scrollWindow(window, Infinity)
+  screen.render()
+}
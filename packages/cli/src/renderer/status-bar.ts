@@ -0,0 +1,231 @@
+import blessed from 'neo-blessed'
+import type { Theme } from '../schemas/theme.js'
+import type { Settings, StatusBarItem } from '../schemas/config.js'
+import type { Deck } from '../core/deck-loader.js'
+
+/**
+ * What the status bar shows for the current slide.
+ */
+export interface StatusBarInfo {
+  /** Current slide index (0-based) */
+  index: number
+  /** Total number of slides */
+  total: number
+  /** Deck title */
+  title?: string
+  /** Deck author */
+  author?: string
+  /** Section of the current slide */
+  section?: string
+  /** Time shown by the clock (defaults to now) */
+  now?: Date
+}
+
+// Items shown on the right of the status bar, the rest is on the left
+const RIGHT_ITEMS: StatusBarItem[] = ['clock', 'slide']
+
+const SEPARATOR = ' · '
+
+/**
+ * Get the status bar items of a deck.
+ * `showSlideNumbers` adds the slide number to the configured items.
+ *
+ * @param settings - Settings of the deck
+ * @returns Items to show, empty if the deck has no status bar
+ */
+export function getStatusBarItems(settings?: Partial<Settings>): StatusBarItem[] {
+  const items = [...(settings?.statusBar ?? [])]
+
+  if (settings?.showSlideNumbers && !items.includes('slide')) {
+    items.push('slide')
+  }
+
+  return items
+}
+
+/**
+ * Get the status bar info of a slide in a deck.
+ *
+ * @param deck - The deck (title and author come from its config)
+ * @param index - Slide index (0-based)
+ * @returns Status bar info for the slide
+ */
+export function getStatusBarInfo(deck: Deck, index: number): StatusBarInfo {
+  return {
+    index,
+    total: deck.slides.length,
+    title: deck.config.title,
+    author: deck.config.author,
+    section: deck.slides[index]?.section,
+  }
+}
+
+/**
+ * Format a time for the status bar clock.
+ *
+ * @param date - Time to format
+ * @returns 24-hour time (e.g. '09:05')
+ */
+export function formatClock(date: Date): string {
+  const hours = String(date.getHours()).padStart(2, '0')
+  const minutes = String(date.getMinutes()).padStart(2, '0')
+  return `${hours}:${minutes}`
+}
+
+/**
+ * Get the plain text of a status bar item.
+ * Returns an empty string for items without a value (e.g. no section).
+ */
+function getItemText(item: StatusBarItem, info: StatusBarInfo): string {
+  switch (item) {
+    case 'slide':
+      return `${info.index + 1}/${info.total}`
+    case 'title':
+      return info.title ?? ''
+    case 'author':
+      return info.author ?? ''
+    case 'section':
+      return info.section ?? ''
+    case 'clock':
+      return formatClock(info.now ?? new Date())
+  }
+}
+
+/**
+ * Get the theme color of a status bar item.
+ */
+function getItemColor(item: StatusBarItem, theme: Theme): string {
+  switch (item) {
+    case 'slide':
+      return theme.colors.primary
+    case 'title':
+      return theme.colors.text
+    case 'section':
+      return theme.colors.accent
+    default:
+      return theme.colors.muted
+  }
+}
+
+/**
+ * Escape blessed tags in text.
+ */
+function escapeTags(text: string): string {
+  return text.replace(/[{}]/g, (ch) => (ch === '{' ? '{open}' : '{close}'))
+}
+
+/**
+ * Join status bar items, colored with blessed tags.
+ */
+function joinItems(
+  entries: Array<{ item: StatusBarItem; text: string }>,
+  theme: Theme
+): string {
+  return entries
+    .map(({ item, text }) => `{${getItemColor(item, theme)}-fg}${escapeTags(text)}{/}`)
+    .join(`{${theme.colors.muted}-fg}${SEPARATOR}{/}`)
+}
+
+/**
+ * Format the status bar line.
+ * Deck title, author and section are on the left, the clock and slide
+ * number on the right. When the line is too narrow, the left side is
+ * shortened first.
+ *
+ * @param items - Items to show, in order
+ * @param info - Current slide and deck metadata
+ * @param theme - Theme for the item colors
+ * @param width - Width of the status bar in columns
+ * @returns Status line with blessed tags
+ *
+ * @example
+ * formatStatusBar(['title', 'slide'], { index: 2, total: 10, title: 'Talk' }, theme, 40)
+ * // ' Talk                              3/10 ' (colored)
+ */
+export function formatStatusBar(
+  items: StatusBarItem[],
+  info: StatusBarInfo,
+  theme: Theme,
+  width: number
+): string {
+  const entries = items
+    .map((item) => ({ item, text: getItemText(item, info) }))
+    .filter((entry) => entry.text)
+
+  const right = entries.filter((entry) => RIGHT_ITEMS.includes(entry.item))
+  let left = entries.filter((entry) => !RIGHT_ITEMS.includes(entry.item))
+
+  const measure = (side: typeof entries) =>
+    side.reduce((total, entry) => total + entry.text.length, 0) +
+    Math.max(side.length - 1, 0) * SEPARATOR.length
+
+  // One column of padding at both ends, and at least one between the sides
+  const rightWidth = measure(right)
+  const available = width - rightWidth - 3
+
+  while (left.length > 0 && measure(left) > available) {
+    const last = left[left.length - 1]
+    const room = available - (measure(left) - last.text.length)
+
+    left = room > 1
+      ? [...left.slice(0, -1), { ...last, text: `${last.text.slice(0, room - 1)}…` }]
+      : left.slice(0, -1)
+  }
+
+  const gap = Math.max(width - measure(left) - rightWidth - 2, 1)
+
+  return ` ${joinItems(left, theme)}${' '.repeat(gap)}${joinItems(right, theme)} `
+}
+
+/**
+ * Create the status bar at the bottom of the screen.
+ *
+ * @param screen - The blessed screen
+ * @param theme - Theme for the bar background
+ * @param bottom - Rows between the bar and the bottom of the screen
+ * @returns Status bar element
+ */
+export function createStatusBar(
+  screen: blessed.Widgets.Screen,
+  theme: Theme,
+  bottom: number = 0
+): blessed.Widgets.BoxElement {
+  const statusBar = blessed.box({
+    screen,
+    bottom,
+    left: 0,
+    width: '100%',
+    height: 1,
+    tags: true,
+    style: {
+      fg: theme.colors.muted,
+      bg: theme.colors.background,
+    },
+  })
+
+  screen.append(statusBar)
+
+  return statusBar
+}
+
+/**
+ * Update the status bar for the current slide.
+ * Restyles the bar with the theme (which may change on reload) and keeps
+ * it in front of the slide windows.
+ *
+ * @param statusBar - The status bar element
+ * @param items - Items to show, in order
+ * @param info - Current slide and deck metadata
+ * @param theme - Theme for the bar
+ */
+export function updateStatusBar(
+  statusBar: blessed.Widgets.BoxElement,
+  items: StatusBarItem[],
+  info: StatusBarInfo,
+  theme: Theme
+): void {
+  statusBar.style.fg = theme.colors.muted
+  statusBar.style.bg = theme.colors.background
+  statusBar.setContent(formatStatusBar(items, info, theme, Number(statusBar.width)))
+  statusBar.setFront()
+}
@@ -60,3 +60,22 @@ export async function generateMultiLineBigText(
   )
   return results.join('\n')
 }
+
+/**
+ * Find the characters of a text that figlet cannot render.
+ * Figlet silently drops characters missing from the font, so these
+ * would disappear from the ASCII art.
+ *
+ * @param text - The text to check
+ * @param font - Figlet font to use (defaults to 'Standard')
+ * @returns Unique characters missing from the font, in order of appearance
+ *
+ * @example
+ * findUnrenderableChars('HÉLLO →') // ['→']
+ */
+export function findUnrenderableChars(text: string, font: string = 'Standard'): string[] {
+  ensureFontInitialized()
+
+  const chars = new Set([...text].filter((char) => char.trim()))
+  return [...chars].filter((char) => !figlet.textSync(char, { font }))
+}
@@ -1,5 +1,35 @@
 import blessed from 'neo-blessed'
 import type { Theme } from '../schemas/theme.js'
+import type { WindowLayout } from '../schemas/slide.js'
+import { visibleWidth } from '../core/markdown.js'
+
+/**
+ * Window padding used when the theme does not set one.
+ */
+const DEFAULT_PADDING = { top: 1, bottom: 1, left: 2, right: 2 }
+
+/**
+ * Window titles, kept to rebuild the label with the scroll indicator.
+ */
+const windowTitles = new WeakMap<blessed.Widgets.BoxElement, string>()
+
+/**
+ * Own colors of faded windows, to fade them from or restore them.
+ */
+const windowColors = new WeakMap<blessed.Widgets.BoxElement, { border: string; label: string; text: string }>()
+
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g
+
+/**
+ * Offset between windows in the cascade layout.
+ */
+const CASCADE_STEP = { top: 2, left: 4 }
+
+/**
+ * Number of cells in the grid layout.
+ */
+const GRID_COLUMNS = 2
+const GRID_ROWS = 2
 
 /**
  * Window creation options.
@@ -18,6 +48,159 @@ export interface WindowOptions {
   top?: number | string
   /** Left position (number for absolute, string for percentage) */
   left?: number | string
+  /** Layout strategy for the position and size (defaults to 'random') */
+  layout?: WindowLayout
+  /** Seed for the random layout (defaults to 0) */
+  seed?: number
+  /** Index of the window for its color and layout (defaults to its position in the stack) */
+  index?: number
+}
+
+/**
+ * Position and size of a window, in characters.
+ */
+export interface WindowBounds {
+  top: number
+  left: number
+  width: number
+  height: number
+}
+
+/**
+ * Width and height of a window or its content area, in characters.
+ */
+export interface WindowSize {
+  width: number
+  height: number
+}
+
+/**
+ * Get the default size of a slide window on a screen.
+ * Windows take 75% of the screen width and 70% of its height.
+ *
+ * @param screenWidth - Screen width in columns
+ * @param screenHeight - Screen height in rows
+ * @returns Default window size
+ */
+export function getDefaultWindowSize(screenWidth: number, screenHeight: number): WindowSize {
+  return {
+    width: Math.floor(screenWidth * 0.75),
+    height: Math.floor(screenHeight * 0.7),
+  }
+}
+
+/**
+ * Seeded random number generator for reproducible window positions.
+ *
+ * @param seed - Seed value
+ * @returns A number between 0 (inclusive) and 1 (exclusive)
+ */
+function seededRandom(seed: number): number {
+  const x = Math.sin(seed * 9999) * 10000
+  return x - Math.floor(x)
+}
+
+/**
+ * Get the position and size of a window for a layout.
+ * Positions only depend on the layout, the window's index in the stack,
+ * the screen size and the seed, so the same deck always renders the same.
+ *
+ * - random: default size at a seeded random position
+ * - cascade: default size, offset diagonally for each window
+ * - center: default size, centered on the screen
+ * - grid: a quarter of the screen, filling the cells of a 2x2 grid in turn
+ * - fullscreen: the whole screen
+ *
+ * @param layout - Layout strategy
+ * @param index - Index of the window in the stack
+ * @param screenWidth - Screen width in columns
+ * @param screenHeight - Screen height in rows
+ * @param seed - Seed for the random layout
+ * @returns Window position and size
+ *
+ * @example
+ * getWindowBounds('center', 0, 120, 40)
+ * // { top: 6, left: 15, width: 90, height: 28 }
+ */
+export function getWindowBounds(
+  layout: WindowLayout,
+  index: number,
+  screenWidth: number,
+  screenHeight: number,
+  seed: number = 0
+): WindowBounds {
+  if (layout === 'fullscreen') {
+    return { top: 0, left: 0, width: screenWidth, height: screenHeight }
+  }
+
+  if (layout === 'grid') {
+    const width = Math.floor(screenWidth / GRID_COLUMNS)
+    const height = Math.floor(screenHeight / GRID_ROWS)
+    const cell = index % (GRID_COLUMNS * GRID_ROWS)
+
+    return {
+      top: Math.floor(cell / GRID_COLUMNS) * height,
+      left: (cell % GRID_COLUMNS) * width,
+      width,
+      height,
+    }
+  }
+
+  const { width, height } = getDefaultWindowSize(screenWidth, screenHeight)
+
+  // Leave room for the shadow
+  const maxTop = Math.max(1, screenHeight - height - 2)
+  const maxLeft = Math.max(1, screenWidth - width - 2)
+
+  switch (layout) {
+    case 'center':
+      return {
+        top: Math.floor((screenHeight - height) / 2),
+        left: Math.floor((screenWidth - width) / 2),
+        width,
+        height,
+      }
+
+    case 'cascade': {
+      // Start over at the top left once the next step would not fit
+      const steps = Math.min(
+        Math.floor(maxTop / CASCADE_STEP.top),
+        Math.floor(maxLeft / CASCADE_STEP.left)
+      ) + 1
+      const step = index % steps
+
+      return { top: step * CASCADE_STEP.top, left: step * CASCADE_STEP.left, width, height }
+    }
+
+    default:
+      return {
+        top: Math.floor(seededRandom(seed + index * 137) * maxTop),
+        left: Math.floor(seededRandom(seed + index * 137 + 73) * maxLeft),
+        width,
+        height,
+      }
+  }
+}
+
+/**
+ * Get the content size of a slide window.
+ * Subtracts the border and the theme's window padding from the
+ * window size.
+ *
+ * @param theme - Theme configuration (window border and padding)
+ * @param size - Size of the window (e.g. from getWindowBounds)
+ * @returns Size of the content area
+ */
+export function getWindowContentSize(theme: Theme, size: WindowSize): WindowSize {
+  const { width, height } = size
+  const window = theme.window ?? { borderStyle: 'line', shadow: true }
+  const padding = window.padding ?? DEFAULT_PADDING
+  const border = window.borderStyle === 'none' ? 0 : 2
+
+  return {
+    width: width - border - padding.left - padding.right,
+    height: height - border - padding.top - padding.bottom,
+  }
 }
 
 /**
@@ -43,8 +226,8 @@ export function getWindowColor(index: number, theme: Theme): string {
 
 /**
  * Create a slide window with stacking effect.
- * Creates a bordered box element with theme-based styling,
- * random position for stacking effect, and adds it to the window stack.
+ * Creates a bordered box element with theme-based styling, placed by
+ * the layout strategy (see getWindowBounds), and adds it to the window stack.
  *
  * @param screen - The blessed screen instance
  * @param windowStack - Stack of existing windows
@@ -58,24 +241,27 @@ export function createWindow(
   theme: Theme,
   options: WindowOptions
 ): blessed.Widgets.BoxElement {
-  const windowIndex = windowStack.length
+  const windowIndex = options.index ?? windowStack.length
   const color = options.color ?? getWindowColor(windowIndex, theme)
 
   const screenWidth = (screen.width as number) || 120
   const screenHeight = (screen.height as number) || 40
 
-  // Default dimensions: 75% width, 70% height
-  const width = options.width ?? Math.floor(screenWidth * 0.75)
-  const height = options.height ?? Math.floor(screenHeight * 0.7)
-
-  // Random position within bounds (for stacking effect)
-  const maxTop = Math.max(1, screenHeight - (height as number) - 2)
-  const maxLeft = Math.max(1, screenWidth - (width as number) - 2)
-  const top = options.top ?? Math.floor(Math.random() * maxTop)
-  const left = options.left ?? Math.floor(Math.random() * maxLeft)
+  // Position and size from the layout, unless given explicitly
+  const bounds = getWindowBounds(
+    options.layout ?? 'random',
+    windowIndex,
+    screenWidth,
+    screenHeight,
+    options.seed
+  )
+  const width = options.width ?? bounds.width
+  const height = options.height ?? bounds.height
+  const top = options.top ?? bounds.top
+  const left = options.left ?? bounds.left
 
   const window = theme.window ?? { borderStyle: 'line', shadow: true }
-  const padding = window.padding ?? { top: 1, bottom: 1, left: 2, right: 2 }
+  const padding = window.padding ?? DEFAULT_PADDING
 
   const box = blessed.box({
     top,
@@ -95,14 +281,195 @@ export function createWindow(
     padding,
     tags: true,
     shadow: window.shadow,
+    // Content taller than the window scrolls (see scrollWindow)
+    scrollable: true,
+    alwaysScroll: true,
   })
 
+  windowTitles.set(box, options.title)
   screen.append(box)
   windowStack.push(box)
 
   return box
 }
 
+/**
+ * Mix two hex colors.
+ *
+ * @param from - Color at amount 0
+ * @param to - Color at amount 1
+ * @param amount - How far to go from one color to the other (0-1)
+ * @returns Mixed hex color
+ */
+function mixColors(from: string, to: string, amount: number): string {
+  const channel = (color: string, i: number) => parseInt(color.slice(1 + i * 2, 3 + i * 2), 16)
+
+  return '#' + [0, 1, 2]
+    .map((i) => Math.round(channel(from, i) + (channel(to, i) - channel(from, i)) * amount))
+    .map((value) => value.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Fade a window's border, title and text toward a color.
+ * Colors in the content itself (gradients, color tokens) are kept.
+ * The caller renders the screen.
+ *
+ * @param window - The window to fade
+ * @param color - Hex color to fade toward (e.g. the theme's muted color)
+ * @param amount - 0 restores the window's own colors, 1 fades them fully
+ *
+ * @example
+ * fadeWindow(window, theme.colors.muted, 0.5) // halfway to muted
+ */
+export function fadeWindow(
+  window: blessed.Widgets.BoxElement,
+  color: string,
+  amount: number
+): void {
+  const own = windowColors.get(window) ?? {
+    border: window.style.border.fg,
+    label: window.style.label.fg,
+    text: window.style.fg,
+  }
+  windowColors.set(window, own)
+
+  window.style.border.fg = mixColors(own.border, color, amount)
+  window.style.label.fg = mixColors(own.label, color, amount)
+  window.style.fg = mixColors(own.text, color, amount)
+}
+
+/**
+ * Get the width available for content inside a window.
+ * Subtracts the border and horizontal padding from the window width.
+ *
+ * @param window - The window box element
+ * @returns Content width in columns
+ */
+export function getContentWidth(window: blessed.Widgets.BoxElement): number {
+  return (window.width as number) - window.iwidth
+}
+
+/**
+ * Count the rows content takes up in a window, including wrapped lines.
+ *
+ * @param content - Processed content (blessed tags and ANSI colors)
+ * @param width - Width available for content
+ * @returns Number of rows
+ *
+ * @example
+ * countContentRows('short\n' + 'x'.repeat(25), 10) // 4
+ */
+export function countContentRows(content: string, width: number): number {
+  return content.split('\n').reduce((rows, line) => {
+    const lineWidth = visibleWidth(line.replace(ANSI_PATTERN, ''))
+    return rows + Math.max(1, Math.ceil(lineWidth / width))
+  }, 0)
+}
+
+/**
+ * Grow a window to fit its content, up to the screen height.
+ * The window moves up when it would extend past the bottom of the
+ * screen. Content that still does not fit can be scrolled.
+ *
+ * @param screen - The blessed screen instance
+ * @param window - The window to fit
+ * @param rows - Number of content rows (see countContentRows)
+ */
+export function fitWindowToContent(
+  screen: blessed.Widgets.Screen,
+  window: blessed.Widgets.BoxElement,
+  rows: number
+): void {
+  const screenHeight = (screen.height as number) || 40
+  const height = Math.min(Math.max(window.height as number, rows + window.iheight), screenHeight)
+
+  window.height = height
+  window.top = Math.min(window.top as number, screenHeight - height)
+}
+
+/**
+ * Format the scroll indicator shown in a window border.
+ * Shows which rows are visible and in which directions there is more.
+ *
+ * @param scroll - Index of the first visible row
+ * @param visibleRows - Number of rows that fit in the window
+ * @param totalRows - Number of content rows
+ * @returns Indicator text, or an empty string when the content fits
+ *
+ * @example
+ * formatScrollIndicator(0, 20, 45)  // '↓ 1-20/45'
+ * formatScrollIndicator(10, 20, 45) // '↑↓ 11-30/45'
+ */
+export function formatScrollIndicator(
+  scroll: number,
+  visibleRows: number,
+  totalRows: number
+): string {
+  if (totalRows <= visibleRows) return ''
+
+  const last = Math.min(scroll + visibleRows, totalRows)
+  const arrows = (scroll > 0 ? '↑' : '') + (last < totalRows ? '↓' : '')
+
+  return `${arrows} ${scroll + 1}-${last}/${totalRows}`
+}
+
+/**
+ * Get the number of wrapped content rows of a window.
+ * Unlike blessed's getScrollHeight, this ignores child elements such as
+ * the border label, which moves along when the window scrolls.
+ */
+function getContentRows(window: blessed.Widgets.BoxElement): number {
+  return window._clines?.length ?? 0
+}
+
+/**
+ * Get the number of content rows that fit inside a window.
+ */
+function getVisibleRows(window: blessed.Widgets.BoxElement): number {
+  return Math.max(0, (window.height as number) - window.iheight)
+}
+
+/**
+ * Update the scroll indicator in a window's border label.
+ *
+ * @param window - The window to update
+ */
+export function updateScrollIndicator(window: blessed.Widgets.BoxElement): void {
+  const title = windowTitles.get(window) ?? ''
+  // childBase is the first visible row of a scrolled blessed box
+  const indicator = formatScrollIndicator(
+    window.childBase,
+    getVisibleRows(window),
+    getContentRows(window)
+  )
+
+  window.setLabel(indicator ? ` ${title} ─ ${indicator} ` : ` ${title} `)
+}
+
+/**
+ * Scroll a window's content by a number of rows.
+ * Scrolling stops at the top and bottom of the content. The scroll
+ * indicator is updated; the caller renders the screen.
+ *
+ * @param window - The window to scroll
+ * @param offset - Rows to scroll (negative scrolls up)
+ * @returns Whether the scroll position changed
+ */
+export function scrollWindow(window: blessed.Widgets.BoxElement, offset: number): boolean {
+  const maxScroll = Math.max(0, getContentRows(window) - getVisibleRows(window))
+  const scroll = Math.min(Math.max(window.childBase + offset, 0), maxScroll)
+
+  if (scroll === window.childBase) return false
+
+  window.childBase = scroll
+  // Lets blessed move the border label along with the content
+  window.emit('scroll')
+  updateScrollIndicator(window)
+
+  return true
+}
+
 /**
  * Clear all windows from stack.
  * Destroys all window elements in the stack and resets the stack to empty.
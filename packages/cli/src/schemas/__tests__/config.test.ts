@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest'
-import { DeckConfigSchema, SettingsSchema, ExportSettingsSchema } from '../config'
+import {
+  DeckConfigSchema,
+  SettingsSchema,
+  ExportSettingsSchema,
+  KeybindingsSchema,
+  DEFAULT_KEYBINDINGS,
+} from '../config'
 
 // Valid theme for testing
 const validTheme = {
@@ -90,6 +96,21 @@ describe('SettingsSchema', () => {
     })
   })
 
+  describe('statusBar field', () => {
+    it('defaults to no items', () => {
+      expect(SettingsSchema.parse({}).statusBar).toEqual([])
+    })
+
+    it('accepts items in any order', () => {
+      const result = SettingsSchema.parse({ statusBar: ['clock', 'title', 'slide'] })
+      expect(result.statusBar).toEqual(['clock', 'title', 'slide'])
+    })
+
+    it('rejects unknown items', () => {
+      expect(() => SettingsSchema.parse({ statusBar: ['weather'] })).toThrow()
+    })
+  })
+
   describe('showProgress field', () => {
     it('defaults to false', () => {
       const result = SettingsSchema.parse({})
@@ -102,6 +123,64 @@ describe('SettingsSchema', () => {
     })
   })
 
+  describe('autoFit field', () => {
+    it('defaults to false', () => {
+      const result = SettingsSchema.parse({})
+      expect(result.autoFit).toBe(false)
+    })
+
+    it('accepts true', () => {
+      const result = SettingsSchema.parse({ autoFit: true })
+      expect(result.autoFit).toBe(true)
+    })
+  })
+
+  describe('duration field', () => {
+    it('defaults to no target', () => {
+      expect(SettingsSchema.parse({}).duration).toBe(0)
+    })
+
+    it('rejects negative duration', () => {
+      expect(() => SettingsSchema.parse({ duration: -5 })).toThrow()
+    })
+  })
+
+  describe('layout fields', () => {
+    it('defaults to a random layout with seed 0', () => {
+      const result = SettingsSchema.parse({})
+      expect(result.layout).toBe('random')
+      expect(result.layoutSeed).toBe(0)
+    })
+
+    it('rejects invalid layout', () => {
+      expect(() => SettingsSchema.parse({ layout: 'stack' })).toThrow()
+    })
+
+    it('rejects non-integer seed', () => {
+      expect(() => SettingsSchema.parse({ layoutSeed: 1.5 })).toThrow()
+    })
+  })
+
+  describe('stack depth fields', () => {
+    it('keeps all windows by default', () => {
+      const result = SettingsSchema.parse({})
+      expect(result.maxStackDepth).toBe(0)
+      expect(result.stackTrim).toBe('destroy')
+    })
+
+    it('accepts fading windows', () => {
+      const result = SettingsSchema.parse({ maxStackDepth: 5, stackTrim: 'fade' })
+      expect(result.maxStackDepth).toBe(5)
+      expect(result.stackTrim).toBe('fade')
+    })
+
+    it('rejects invalid stack depth', () => {
+      expect(() => SettingsSchema.parse({ maxStackDepth: -1 })).toThrow()
+      expect(() => SettingsSchema.parse({ maxStackDepth: 2.5 })).toThrow()
+      expect(() => SettingsSchema.parse({ stackTrim: 'hide' })).toThrow()
+    })
+  })
+
   describe('full settings object', () => {
     it('accepts all fields', () => {
       const settings = {
@@ -109,7 +188,15 @@ describe('SettingsSchema', () => {
         loop: true,
         autoAdvance: 3000,
         showSlideNumbers: true,
+        statusBar: ['title', 'section', 'clock'],
         showProgress: true,
+        duration: 30,
+        autoFit: true,
+        layout: 'cascade',
+        layoutSeed: 42,
+        maxStackDepth: 8,
+        stackTrim: 'fade',
+        keybindings: { ...DEFAULT_KEYBINDINGS, next: ['x'] },
       }
       const result = SettingsSchema.parse(settings)
       expect(result).toEqual(settings)
@@ -122,12 +209,68 @@ describe('SettingsSchema', () => {
         loop: false,
         autoAdvance: 0,
         showSlideNumbers: false,
+        statusBar: [],
         showProgress: false,
+        duration: 0,
+        autoFit: false,
+        layout: 'random',
+        layoutSeed: 0,
+        maxStackDepth: 0,
+        stackTrim: 'destroy',
+        keybindings: DEFAULT_KEYBINDINGS,
       })
     })
   })
 })
 
+describe('KeybindingsSchema', () => {
+  it('has the default keys', () => {
+    expect(DEFAULT_KEYBINDINGS.next).toEqual(['space', 'enter', 'right', 'n'])
+    expect(DEFAULT_KEYBINDINGS.quit).toEqual(['q', 'escape', 'C-c'])
+  })
+
+  it('keeps the defaults of actions that are not configured', () => {
+    const result = KeybindingsSchema.parse({ next: ['x', 'pagedown'] })
+    expect(result.next).toEqual(['x', 'pagedown'])
+    expect(result.prev).toEqual(DEFAULT_KEYBINDINGS.prev)
+  })
+
+  it('accepts keys with modifiers', () => {
+    expect(KeybindingsSchema.parse({ next: ['C-q', 'M-x', 'S-tab', 'f10'] }).next).toHaveLength(4)
+  })
+
+  it('allows unbinding an action', () => {
+    expect(KeybindingsSchema.parse({ list: [] }).list).toEqual([])
+  })
+
+  it('rejects unknown key names', () => {
+    const result = KeybindingsSchema.safeParse({ next: ['spacebar'] })
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0].message).toBe('Unknown key: "spacebar"')
+  })
+
+  it('rejects unknown actions', () => {
+    expect(() => KeybindingsSchema.parse({ jump: ['x'] })).toThrow()
+  })
+
+  it('rejects keys bound to two actions', () => {
+    const result = KeybindingsSchema.safeParse({ next: ['l'] })
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0].message).toBe('Key "l" is bound to both next and list')
+  })
+
+  it('always quits with Ctrl+C', () => {
+    expect(KeybindingsSchema.parse({ quit: ['x'] }).quit).toEqual(['x', 'C-c'])
+    expect(KeybindingsSchema.parse({ quit: [] }).quit).toEqual(['C-c'])
+  })
+
+  it('rejects binding Ctrl+C to another action', () => {
+    const result = KeybindingsSchema.safeParse({ next: ['C-c'] })
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0].message).toBe('Key "C-c" always quits and cannot be bound to next')
+  })
+})
+
 describe('ExportSettingsSchema', () => {
   describe('width field', () => {
     it('defaults to 120', () => {
@@ -111,6 +111,24 @@ describe('SlideFrontmatterSchema', () => {
     })
   })
 
+  describe('layout field', () => {
+    it('is undefined by default', () => {
+      const result = SlideFrontmatterSchema.parse({ title: 'Test' })
+      expect(result.layout).toBeUndefined()
+    })
+
+    it('accepts all layouts', () => {
+      for (const layout of ['random', 'cascade', 'center', 'grid', 'fullscreen']) {
+        const result = SlideFrontmatterSchema.parse({ title: 'Test', layout })
+        expect(result.layout).toBe(layout)
+      }
+    })
+
+    it('rejects invalid layout', () => {
+      expect(() => SlideFrontmatterSchema.parse({ title: 'Test', layout: 'stack' })).toThrow()
+    })
+  })
+
   describe('meta field', () => {
     it('accepts object meta', () => {
       const frontmatter = { title: 'Test', meta: { author: 'John', version: 1 } }
@@ -1,5 +1,128 @@
 import { z } from 'zod'
 import { ThemeSchema } from './theme'
+import { WindowLayoutSchema } from './slide'
+
+// Blessed names of non-character keys
+const NAMED_KEYS = [
+  'space', 'enter', 'return', 'escape', 'backspace', 'tab', 'delete', 'insert',
+  'up', 'down', 'left', 'right', 'home', 'end', 'pageup', 'pagedown',
+  'f1', 'f2', 'f3', 'f4', 'f5', 'f6', 'f7', 'f8', 'f9', 'f10', 'f11', 'f12',
+]
+
+/**
+ * Check whether a string is a blessed key name.
+ * Names are a character or a named key with optional modifiers
+ * (C- for Ctrl, M- for Alt, S- for Shift), e.g. 'n', 'right', 'C-c'.
+ */
+function isKeyName(key: string): boolean {
+  const name = key.replace(/^(C-)?(M-)?(S-)?/, '')
+  return name.length === 1 ? name !== ' ' : NAMED_KEYS.includes(name)
+}
+
+/**
+ * Schema for the keys bound to an action (blessed key names).
+ */
+const KeysSchema = z.array(
+  z.string().refine(isKeyName, (key) => ({ message: `Unknown key: "${key}"` }))
+)
+
+/**
+ * Key that always quits, so a presentation can be ended even when the
+ * quit keys are rebound.
+ */
+export const QUIT_KEY = 'C-c'
+
+/**
+ * Schema for keyboard bindings.
+ * Maps presentation actions to the keys that trigger them. Actions that
+ * are not configured keep their default keys. QUIT_KEY is added to the
+ * quit keys and cannot be bound to another action.
+ */
+export const KeybindingsSchema = z.object({
+  // Next slide (or fragment)
+  next: KeysSchema.default(['space', 'enter', 'right', 'n']),
+  // Previous slide (or hide fragment)
+  prev: KeysSchema.default(['left', 'backspace', 'p']),
+  first: KeysSchema.default(['home']),
+  last: KeysSchema.default(['end']),
+  // Scroll slides taller than their window
+  scrollUp: KeysSchema.default(['up', 'k']),
+  scrollDown: KeysSchema.default(['down', 'j']),
+  // Go-to prompt (slide number or title)
+  goto: KeysSchema.default(['g', ':']),
+  // Slide list overlay
+  list: KeysSchema.default(['l']),
+  // Talk timer in the notes window
+  toggleTimer: KeysSchema.default(['t']),
+  resetTimer: KeysSchema.default(['r']),
+  // Pause/resume auto-play (settings.autoAdvance)
+  toggleAutoAdvance: KeysSchema.default(['a']),
+  // Blank the screen to the theme background
+  blackout: KeysSchema.default(['b']),
+  // Freeze the current frame
+  freeze: KeysSchema.default(['f']),
+  // Keybinding help overlay
+  help: KeysSchema.default(['?']),
+  quit: KeysSchema.default(['q', 'escape', QUIT_KEY]),
+}).strict().superRefine((keybindings, ctx) => {
+  // A key can only trigger one action
+  const actions = new Map<string, string>()
+  for (const [action, keys] of Object.entries(keybindings)) {
+    for (const key of keys) {
+      if (key === QUIT_KEY && action !== 'quit') {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Key "${QUIT_KEY}" always quits and cannot be bound to ${action}`,
+          path: [action],
+        })
+        continue
+      }
+
+      const other = actions.get(key)
+      if (other) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Key "${key}" is bound to both ${other} and ${action}`,
+          path: [action],
+        })
+      }
+      actions.set(key, action)
+    }
+  }
+}).transform((keybindings) => (
+  keybindings.quit.includes(QUIT_KEY)
+    ? keybindings
+    : { ...keybindings, quit: [...keybindings.quit, QUIT_KEY] }
+))
+
+export type Keybindings = z.infer<typeof KeybindingsSchema>
+
+/**
+ * Presentation action that can be bound to keys
+ */
+export type KeyAction = keyof Keybindings
+
+/**
+ * Default keyboard bindings
+ */
+export const DEFAULT_KEYBINDINGS: Keybindings = KeybindingsSchema.parse({})
+
+/**
+ * Schema for the items of the status bar.
+ * The slide number and clock are shown on the right, the rest on the left.
+ */
+export const StatusBarItemSchema = z.enum(['slide', 'title', 'author', 'section', 'clock'])
+
+export type StatusBarItem = z.infer<typeof StatusBarItemSchema>
+
+/**
+ * Schema for what happens to slide windows beyond settings.maxStackDepth.
+ * - destroy: removed from the screen
+ * - fade: dimmed toward the theme's muted color over a few slides, then removed
+ */
+export const StackTrimSchema = z.enum(['destroy', 'fade'])
+
+export type StackTrim = z.infer<typeof StackTrimSchema>
 
 /**
  * Schema for presentation settings.
@@ -10,12 +133,28 @@ export const SettingsSchema = z.object({
   startSlide: z.number().min(0).default(0),
   // Loop back to first slide after last
   loop: z.boolean().default(false),
-  // Auto-advance slides (ms, 0 = disabled)
+  // Auto-advance slides (ms, 0 = disabled; a slide's meta.duration overrides it)
   autoAdvance: z.number().min(0).default(0),
-  // Show slide numbers
+  // Show slide numbers (adds 'slide' to the status bar)
   showSlideNumbers: z.boolean().default(false),
+  // Status bar items, in order (empty = no status bar unless showSlideNumbers)
+  statusBar: z.array(StatusBarItemSchema).default([]),
   // Show progress bar
   showProgress: z.boolean().default(false),
+  // Planned talk duration for the notes timer (minutes, 0 = no target)
+  duration: z.number().min(0).default(0),
+  // Grow slide windows to fit their content (up to the screen) before scrolling
+  autoFit: z.boolean().default(false),
+  // Where slide windows are placed (can be overridden per slide)
+  layout: WindowLayoutSchema.default('random'),
+  // Seed for the random layout (same seed, same window positions)
+  layoutSeed: z.number().int().default(0),
+  // Slide windows stacked on the screen (0 = all of them)
+  maxStackDepth: z.number().int().min(0).default(0),
+  // Whether windows beyond maxStackDepth are removed or fade out first
+  stackTrim: StackTrimSchema.default('destroy'),
+  // Keys for presentation actions (see KeybindingsSchema for the defaults)
+  keybindings: KeybindingsSchema.default({}),
 })
 
 export type Settings = z.infer<typeof SettingsSchema>
@@ -35,6 +174,20 @@ export const ExportSettingsSchema = z.object({
 
 export type ExportSettings = z.infer<typeof ExportSettingsSchema>
 
+/**
+ * Schema for built-in theme preset names.
+ * Each preset maps to a bundled theme in the theme registry.
+ */
+export const ThemePresetSchema = z.enum([
+  'matrix',
+  'neon',
+  'retro',
+  'minimal',
+  'hacker',
+])
+
+export type ThemePreset = z.infer<typeof ThemePresetSchema>
+
 /**
  * Schema for validating deck configuration (deck.config.ts).
  * Defines the complete configuration for a presentation deck.
@@ -46,13 +199,17 @@ export const DeckConfigSchema = z.object({
   date: z.string().optional(),
 
   // Theme preset (optional - uses 'matrix' if not specified)
-  // Available presets: 'matrix'
-  themePreset: z.enum(['matrix']).optional(),
+  // Available presets: 'matrix', 'neon', 'retro', 'minimal', 'hacker'
+  themePreset: ThemePresetSchema.optional(),
 
   // Theme object (optional - for advanced customization)
   // If both themePreset and theme are specified, theme takes precedence
   theme: ThemeSchema.optional(),
 
+  // Explicit slide order: files or section directories relative to the
+  // deck directory. Only listed slides are included.
+  slides: z.array(z.string()).optional(),
+
   // Presentation settings
   settings: SettingsSchema.optional(),
 
@@ -1,5 +1,19 @@
 import { z } from 'zod'
 
+/**
+ * Schema for window layout strategies.
+ * Controls where slide windows are placed on the screen.
+ */
+export const WindowLayoutSchema = z.enum([
+  'random',      // Default: scattered, reproducible with settings.layoutSeed
+  'cascade',     // Diagonal offsets
+  'center',      // Centered on the screen
+  'grid',        // Tiled in a 2x2 grid
+  'fullscreen',  // Filling the screen
+])
+
+export type WindowLayout = z.infer<typeof WindowLayoutSchema>
+
 /**
  * Schema for validating slide frontmatter.
  * Defines the metadata for a single slide.
@@ -28,8 +42,25 @@ export const SlideFrontmatterSchema = z.object({
     'fade',        // Fade in
     'instant',     // No animation
     'typewriter',  // Character by character
+    'slide-left',  // Window moves left into place (enters from the right)
+    'slide-right', // Window moves right into place (enters from the left)
+    'slide-up',    // Window moves up into place (enters from the bottom)
+    'slide-down',  // Window moves down into place (enters from the top)
+    'wipe',        // Column by column, left to right
+    'scanline',    // CRT-style line sweep
+    'decrypt',     // All characters scramble, then settle
   ]).default('glitch'),
 
+  // Reveal top-level list items one at a time
+  fragments: z.boolean().optional(),
+
+  // Window layout (overrides settings.layout)
+  layout: WindowLayoutSchema.optional(),
+
+  // How long auto-play shows the slide (overrides settings.autoAdvance)
+  // Minutes as a number, or a string such as '90s', '2m' or '1:30'
+  duration: z.union([z.number(), z.string()]).optional(),
+
   // Custom metadata (ignored by renderer, useful for tooling)
   meta: z.record(z.string(), z.unknown()).optional(),
 })
@@ -49,6 +80,10 @@ export const SlideSchema = z.object({
   notes: z.string().optional(),
   // Source file path
   sourcePath: z.string(),
+  // Line where the slide starts in its source file (single-file decks)
+  sourceLine: z.number().optional(),
+  // Section title (from the section subdirectory)
+  section: z.string().optional(),
   // Slide index in deck (0-indexed)
   index: z.number(),
 })
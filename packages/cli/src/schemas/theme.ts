@@ -83,6 +83,25 @@ export const ThemeSchema = z.object({
       right: z.number().min(0).max(10).default(2),
     }).optional(),
   }).optional(),
+
+  // Syntax highlighting colors for fenced code blocks
+  // Unset token colors fall back to the color palette
+  syntax: z.object({
+    keyword: HexColorSchema.optional(),
+    string: HexColorSchema.optional(),
+    number: HexColorSchema.optional(),
+    comment: HexColorSchema.optional(),
+    function: HexColorSchema.optional(),
+    type: HexColorSchema.optional(),
+    property: HexColorSchema.optional(),
+    variable: HexColorSchema.optional(),
+    operator: HexColorSchema.optional(),
+    punctuation: HexColorSchema.optional(),
+    // Line number gutter
+    lineNumber: HexColorSchema.optional(),
+    // Background of highlighted lines
+    highlight: HexColorSchema.optional(),
+  }).optional(),
 })
 
 export type Theme = z.infer<typeof ThemeSchema>
@@ -0,0 +1,45 @@
+import type { ThemeObject } from '../core/theme.js'
+import { ThemePresetSchema, type ThemePreset } from '../schemas/config.js'
+import matrix from './matrix/index.js'
+import neon from '../../themes/neon.js'
+import retro from '../../themes/retro.js'
+import minimal from '../../themes/minimal.js'
+import hacker from '../../themes/hacker.js'
+
+/**
+ * Built-in themes bundled with term-deck, keyed by preset name.
+ * Shared by `themePreset` in deck.config, `init --theme`, the `themes`
+ * command, and per-slide `theme` frontmatter.
+ */
+export const BUILTIN_THEMES: Record<ThemePreset, ThemeObject> = {
+  matrix,
+  neon,
+  retro,
+  minimal,
+  hacker,
+}
+
+/**
+ * Names of all built-in theme presets, in display order.
+ */
+export const THEME_PRESET_NAMES: readonly ThemePreset[] = ThemePresetSchema.options
+
+/**
+ * Check whether a name refers to a built-in theme preset.
+ *
+ * @param name - The name to check
+ * @returns true if the name is a known preset
+ */
+export function isThemePreset(name: string): name is ThemePreset {
+  return (THEME_PRESET_NAMES as readonly string[]).includes(name)
+}
+
+/**
+ * Look up a built-in theme by preset name.
+ *
+ * @param name - The preset name (e.g., 'neon')
+ * @returns The theme, or undefined if no preset has that name
+ */
+export function getThemePreset(name: string): ThemeObject | undefined {
+  return isThemePreset(name) ? BUILTIN_THEMES[name] : undefined
+}
@@ -9,6 +9,7 @@ import {
   isAllowedFile,
   isAllowedMimeType,
   isValidTextContent,
+  parseBundleSettings,
 } from '@/lib/upload-validation'
 import matter from 'gray-matter'
 
@@ -20,6 +21,10 @@ export async function POST(request: NextRequest) {
     const files = formData.getAll('files') as File[]
     const title = formData.get('title') as string | null
     const author = formData.get('author') as string | null
+    const settings = parseBundleSettings(
+      formData.get('maxStackDepth') as string | null,
+      formData.get('stackTrim') as string | null
+    )
 
     if (!files || files.length === 0) {
       return NextResponse.json(
@@ -28,6 +33,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (settings === null) {
+      return NextResponse.json(
+        { error: 'Invalid stack settings. Stack depth must be a whole number of 0 or more, and stack trim "destroy" or "fade".' },
+        { status: 400 }
+      )
+    }
+
     // Validate file types and sizes to prevent malicious uploads and DoS attacks
     let totalSize = 0
     for (const file of files) {
@@ -120,6 +132,7 @@ export async function POST(request: NextRequest) {
         title: title || undefined,
         author: author || undefined,
         theme: DEFAULT_THEME,
+        settings,
       },
       slides,
     }
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { MatrixBackground } from '@/components/matrix'
 import { DEFAULT_THEME } from '@/schemas/theme'
+import type { BundleSettings } from '@/schemas/deck-bundle'
 
 const MAX_FILE_SIZE = 1 * 1024 * 1024    // 1MB per file
 const MAX_TOTAL_SIZE = 5 * 1024 * 1024   // 5MB total
@@ -28,6 +29,8 @@ export default function UploadPage() {
   const [files, setFiles] = useState<UploadedFile[]>([])
   const [title, setTitle] = useState('')
   const [author, setAuthor] = useState('')
+  const [maxStackDepth, setMaxStackDepth] = useState(0)
+  const [stackTrim, setStackTrim] = useState<BundleSettings['stackTrim']>('destroy')
   const [isDragging, setIsDragging] = useState(false)
   const [isUploading, setIsUploading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -132,6 +135,10 @@ export default function UploadPage() {
 
       if (title) formData.append('title', title)
       if (author) formData.append('author', author)
+      if (maxStackDepth > 0) {
+        formData.append('maxStackDepth', String(maxStackDepth))
+        formData.append('stackTrim', stackTrim)
+      }
 
       const response = await fetch('/api/upload', {
         method: 'POST',
@@ -197,6 +204,35 @@ export default function UploadPage() {
                            focus:border-cyber-green focus:outline-none"
                 />
               </div>
+              <div>
+                <label className="block text-cyber-muted text-sm mb-2">
+                  Stacked windows (0 = all)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={maxStackDepth}
+                  onChange={(e) => setMaxStackDepth(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                  className="w-full bg-transparent border border-cyber-green/30 px-4 py-2
+                           focus:border-cyber-green focus:outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-cyber-muted text-sm mb-2">
+                  Older windows
+                </label>
+                <select
+                  value={stackTrim}
+                  onChange={(e) => setStackTrim(e.target.value as BundleSettings['stackTrim'])}
+                  disabled={maxStackDepth === 0}
+                  className="w-full bg-cyber-bg border border-cyber-green/30 px-4 py-2
+                           focus:border-cyber-green focus:outline-none disabled:opacity-50"
+                >
+                  <option value="destroy">Remove</option>
+                  <option value="fade">Fade out, then remove</option>
+                </select>
+              </div>
             </div>
 
             {/* Drop zone */}
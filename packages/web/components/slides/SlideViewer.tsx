@@ -6,6 +6,7 @@ import { MatrixBackground } from '@/components/matrix'
 import { SlideWindow } from './SlideWindow'
 import { SlideList } from './SlideList'
 import { ProgressBar } from './ProgressBar'
+import { getStackedWindows } from '@/lib/window-stack'
 
 interface SlideViewerProps {
   deck: DeckBundle
@@ -121,8 +122,8 @@ export function SlideViewer({ deck }: SlideViewerProps) {
     return () => document.removeEventListener('fullscreenchange', handleFullscreenChange)
   }, [])
 
-  // Get all slides up to and including current (for stacking effect)
-  const visibleSlides = slides.slice(0, currentIndex + 1)
+  // Get the slides stacked up to and including current (for stacking effect)
+  const stackedWindows = getStackedWindows(currentIndex, config.settings)
 
   return (
     <div className="relative min-h-screen overflow-x-hidden overflow-y-auto">
@@ -132,13 +133,15 @@ export function SlideViewer({ deck }: SlideViewerProps) {
       {/* Slide content - stack all visible slides */}
       <div className="relative z-10 min-h-screen flex items-start justify-center pt-16 pb-4 px-4">
         <div className="relative">
-          {visibleSlides.map((slide, idx) => (
+          {stackedWindows.map(({ index, fade }, position) => (
             <SlideWindow
-              key={`slide-${idx}`}
-              slide={slide}
+              key={`slide-${index}`}
+              slide={slides[index]}
               theme={theme}
-              isActive={idx === currentIndex}
-              windowIndex={idx}
+              isActive={index === currentIndex}
+              isBase={position === 0}
+              windowIndex={index}
+              fade={fade}
             />
           ))}
         </div>
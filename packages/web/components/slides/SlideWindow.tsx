@@ -4,13 +4,27 @@ import type { Theme } from '@/schemas/theme'
 import type { Slide } from '@/schemas/slide'
 import { BigText } from './BigText'
 import { SlideBody } from './SlideBody'
-import { GlitchTransition, FadeTransition, TypewriterTransition } from '@/components/transitions'
+import {
+  GlitchTransition,
+  FadeTransition,
+  TypewriterTransition,
+  WipeTransition,
+  ScanlineTransition,
+  DecryptTransition,
+  useSlideIn,
+} from '@/components/transitions'
+import { mixColors } from '@/lib/core/colors'
+import type { SlideDirection } from '@/lib/core/transitions'
 
 interface SlideWindowProps {
   slide: Slide
   theme: Theme
   isActive: boolean
   windowIndex: number
+  // Bottom window of the stack, which sizes it (defaults to the first slide)
+  isBase?: boolean
+  // How far the window has faded toward the muted color (0-1)
+  fade?: number
   onTransitionComplete?: () => void
 }
 
@@ -84,11 +98,22 @@ export function SlideWindow({
   theme,
   isActive,
   windowIndex,
+  isBase = windowIndex === 0,
+  fade = 0,
   onTransitionComplete,
 }: SlideWindowProps) {
-  const borderColor = WINDOW_COLORS[windowIndex % WINDOW_COLORS.length]
+  const ownColor = WINDOW_COLORS[windowIndex % WINDOW_COLORS.length]
+  const borderColor = fade > 0 ? mixColors(ownColor, theme.colors.muted, fade) : ownColor
+  const titleColor = fade > 0 ? mixColors('#ffffff', theme.colors.muted, fade) : undefined
   const { frontmatter, body } = slide
 
+  // Slide-in transitions move the whole window into place
+  const transition = frontmatter.transition || 'glitch'
+  const slideDirection = isActive && transition.startsWith('slide-')
+    ? transition.slice('slide-'.length) as SlideDirection
+    : null
+  const slideOffset = useSlideIn(slideDirection, theme, onTransitionComplete)
+
   // Estimate content height for positioning
   const contentHeight = estimateContentHeight(slide)
 
@@ -122,8 +147,6 @@ export function SlideWindow({
       return renderContent(body)
     }
 
-    const transition = frontmatter.transition || 'glitch'
-
     switch (transition) {
       case 'glitch':
         return (
@@ -155,6 +178,42 @@ export function SlideWindow({
             {(displayContent) => renderContent(displayContent)}
           </TypewriterTransition>
         )
+      case 'wipe':
+        return (
+          <WipeTransition
+            content={body}
+            theme={theme}
+            onComplete={onTransitionComplete}
+          >
+            {(displayContent) => renderContent(displayContent)}
+          </WipeTransition>
+        )
+      case 'scanline':
+        return (
+          <ScanlineTransition
+            content={body}
+            theme={theme}
+            onComplete={onTransitionComplete}
+          >
+            {(displayContent) => renderContent(displayContent)}
+          </ScanlineTransition>
+        )
+      case 'decrypt':
+        return (
+          <DecryptTransition
+            content={body}
+            theme={theme}
+            onComplete={onTransitionComplete}
+          >
+            {(displayContent) => renderContent(displayContent)}
+          </DecryptTransition>
+        )
+      case 'slide-left':
+      case 'slide-right':
+      case 'slide-up':
+      case 'slide-down':
+        // The window moves in with its content (see useSlideIn)
+        return renderContent(body)
       case 'instant':
       default:
         setTimeout(() => onTransitionComplete?.(), 0)
@@ -162,16 +221,14 @@ export function SlideWindow({
     }
   }
 
-  // First slide is relative (establishes size), rest are absolute
-  const isFirstSlide = windowIndex === 0
-
+  // Bottom window is relative (establishes size), rest are absolute
   return (
     <div
-      className={`cyber-window flex flex-col w-[75vw] max-w-4xl max-h-[85vh] ${isFirstSlide ? 'relative' : 'absolute top-0 left-0'}`}
+      className={`cyber-window flex flex-col w-[75vw] max-w-4xl max-h-[85vh] ${isBase ? 'relative' : 'absolute top-0 left-0'}`}
       style={{
         borderColor,
         boxShadow: `0 0 10px ${borderColor}40, 0 0 20px ${borderColor}20`,
-        transform: `translate(${offsetX}px, ${offsetY}px)`,
+        transform: `translate(${offsetX + slideOffset.x}px, ${offsetY + slideOffset.y}px)`,
         zIndex: windowIndex,
       }}
     >
@@ -181,12 +238,15 @@ export function SlideWindow({
         style={{ borderColor: `${borderColor}40` }}
       >
         <span style={{ color: borderColor }}>┌─ </span>
-        <span className="text-white">{frontmatter.title}</span>
+        <span className="text-white" style={{ color: titleColor }}>{frontmatter.title}</span>
         <span style={{ color: borderColor }}> ─┐</span>
       </div>
 
-      {/* Window content - scrollable */}
-      <div className="px-6 pb-6 pt-4 overflow-y-auto min-h-[200px] flex-1">
+      {/* Window content - scrollable, dims along with a fading window */}
+      <div
+        className="px-6 pb-6 pt-4 overflow-y-auto min-h-[200px] flex-1"
+        style={{ opacity: 1 - fade * 0.6 }}
+      >
         {renderTransition()}
       </div>
     </div>
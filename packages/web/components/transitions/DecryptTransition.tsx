@@ -0,0 +1,51 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import type { Theme } from '@/schemas/theme'
+import { decryptFrame } from '@/lib/core/transitions'
+
+interface DecryptTransitionProps {
+  content: string
+  theme: Theme
+  onComplete?: () => void
+  children: (displayContent: string) => React.ReactNode
+}
+
+export function DecryptTransition({
+  content,
+  theme,
+  onComplete,
+  children,
+}: DecryptTransitionProps) {
+  const [displayContent, setDisplayContent] = useState('')
+  const completedRef = useRef(false)
+
+  useEffect(() => {
+    completedRef.current = false
+
+    // Everything scrambles at once, then settles together
+    const steps = theme.animations.glitchIterations * 2
+    let currentStep = steps
+
+    const animate = () => {
+      if (completedRef.current) return
+      if (currentStep <= 0) {
+        setDisplayContent(content)
+        onComplete?.()
+        return
+      }
+
+      setDisplayContent(decryptFrame(content, currentStep / steps))
+      currentStep--
+      setTimeout(animate, 30)
+    }
+
+    animate()
+
+    return () => {
+      completedRef.current = true
+    }
+  }, [content, theme.animations.glitchIterations, onComplete])
+
+  return <>{children(displayContent)}</>
+}
@@ -0,0 +1,55 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import type { Theme } from '@/schemas/theme'
+import { countVisible, scanlineFrame } from '@/lib/core/transitions'
+
+interface ScanlineTransitionProps {
+  content: string
+  theme: Theme
+  onComplete?: () => void
+  children: (displayContent: string) => React.ReactNode
+}
+
+export function ScanlineTransition({
+  content,
+  theme,
+  onComplete,
+  children,
+}: ScanlineTransitionProps) {
+  const [displayContent, setDisplayContent] = useState('')
+  const completedRef = useRef(false)
+
+  useEffect(() => {
+    completedRef.current = false
+    setDisplayContent('')
+
+    const lines = content.split('\n')
+    const width = Math.max(1, ...lines.map(countVisible))
+    // Beam in the theme's primary color
+    const beam = `{PRIMARY}${'━'.repeat(width)}{/}`
+    const lineDelay = theme.animations.lineDelay / 4
+    let row = 0
+
+    const animate = () => {
+      if (completedRef.current) return
+      if (row >= lines.length) {
+        setDisplayContent(content)
+        onComplete?.()
+        return
+      }
+
+      setDisplayContent(scanlineFrame(lines, row, beam))
+      row++
+      setTimeout(animate, lineDelay)
+    }
+
+    animate()
+
+    return () => {
+      completedRef.current = true
+    }
+  }, [content, theme.animations.lineDelay, onComplete])
+
+  return <>{children(displayContent)}</>
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import type { Theme } from '@/schemas/theme'
+import { getSlideOffset, type SlideDirection } from '@/lib/core/transitions'
+
+/**
+ * Offset of a window sliding into place.
+ * Unlike the other transitions, this moves the whole window, so it is
+ * a hook for SlideWindow rather than a content wrapper. Without a
+ * direction, the window stays in place.
+ */
+export function useSlideIn(
+  direction: SlideDirection | null,
+  theme: Theme,
+  onComplete?: () => void
+): { x: number; y: number } {
+  const [offset, setOffset] = useState(() =>
+    direction && typeof window !== 'undefined'
+      ? getSlideOffset(direction, window.innerWidth, window.innerHeight)
+      : { x: 0, y: 0 }
+  )
+  const completedRef = useRef(false)
+
+  useEffect(() => {
+    if (!direction) {
+      setOffset({ x: 0, y: 0 })
+      return
+    }
+
+    completedRef.current = false
+
+    const start = getSlideOffset(direction, window.innerWidth, window.innerHeight)
+    const steps = 10
+    const stepDelay = (theme.animations.lineDelay * 2) / steps
+    let currentStep = 0
+
+    const animate = () => {
+      if (completedRef.current) return
+      if (currentStep >= steps) {
+        setOffset({ x: 0, y: 0 })
+        onComplete?.()
+        return
+      }
+
+      // Ease out: fast at first, slowing down into place
+      const remaining = (1 - currentStep / steps) ** 2
+      setOffset({ x: start.x * remaining, y: start.y * remaining })
+      currentStep++
+      setTimeout(animate, stepDelay)
+    }
+
+    animate()
+
+    return () => {
+      completedRef.current = true
+    }
+  }, [direction, theme.animations.lineDelay, onComplete])
+
+  return offset
+}
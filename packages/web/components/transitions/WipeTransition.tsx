@@ -0,0 +1,53 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import type { Theme } from '@/schemas/theme'
+import { countVisible, wipeFrame } from '@/lib/core/transitions'
+
+interface WipeTransitionProps {
+  content: string
+  theme: Theme
+  onComplete?: () => void
+  children: (displayContent: string) => React.ReactNode
+}
+
+export function WipeTransition({
+  content,
+  theme,
+  onComplete,
+  children,
+}: WipeTransitionProps) {
+  const [displayContent, setDisplayContent] = useState('')
+  const completedRef = useRef(false)
+
+  useEffect(() => {
+    completedRef.current = false
+    setDisplayContent('')
+
+    const width = Math.max(0, ...content.split('\n').map(countVisible))
+    const steps = Math.min(width, 20)
+    const stepDelay = (theme.animations.lineDelay * 2) / Math.max(steps, 1)
+    let currentStep = 0
+
+    const animate = () => {
+      if (completedRef.current) return
+      if (currentStep >= steps) {
+        setDisplayContent(content)
+        onComplete?.()
+        return
+      }
+
+      currentStep++
+      setDisplayContent(wipeFrame(content, Math.ceil((width * currentStep) / steps)))
+      setTimeout(animate, stepDelay)
+    }
+
+    animate()
+
+    return () => {
+      completedRef.current = true
+    }
+  }, [content, theme.animations.lineDelay, onComplete])
+
+  return <>{children(displayContent)}</>
+}
@@ -1,3 +1,7 @@
 export { GlitchTransition } from './GlitchTransition'
 export { FadeTransition } from './FadeTransition'
 export { TypewriterTransition } from './TypewriterTransition'
+export { WipeTransition } from './WipeTransition'
+export { ScanlineTransition } from './ScanlineTransition'
+export { DecryptTransition } from './DecryptTransition'
+export { useSlideIn } from './SlideInTransition'
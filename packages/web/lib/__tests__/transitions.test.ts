@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import {
+  splitTokens,
+  countVisible,
+  wipeFrame,
+  scanlineFrame,
+  decryptFrame,
+  getSlideOffset,
+} from '../core/transitions'
+import { GLITCH_CHARS } from '../core/constants'
+
+describe('transitions', () => {
+  describe('splitTokens', () => {
+    it('should keep color tokens whole', () => {
+      expect(splitTokens('{GREEN}Hi{/}')).toEqual([
+        { text: '{GREEN}', token: true },
+        { text: 'H', token: false },
+        { text: 'i', token: false },
+        { text: '{/}', token: true },
+      ])
+    })
+
+    it('should count visible characters only', () => {
+      expect(countVisible('{CYAN}Hello{/} there')).toBe(11)
+    })
+  })
+
+  describe('wipeFrame', () => {
+    it('should show the first columns of each line', () => {
+      expect(wipeFrame('Hello\nWorld', 2)).toBe('He\nWo')
+    })
+
+    it('should keep color tokens intact', () => {
+      expect(wipeFrame('{GREEN}Hello{/}', 3)).toBe('{GREEN}Hel{/}')
+    })
+  })
+
+  describe('scanlineFrame', () => {
+    it('should show the lines above the beam', () => {
+      expect(scanlineFrame(['A', 'B', 'C'], 2, '━')).toBe('A\nB\n━')
+    })
+  })
+
+  describe('decryptFrame', () => {
+    it('should scramble all characters at full ratio', () => {
+      for (const char of decryptFrame('abc', 1)) {
+        expect(GLITCH_CHARS).toContain(char)
+      }
+    })
+
+    it('should keep tokens and protected characters', () => {
+      expect(decryptFrame('{GREEN}a b{/}', 1)).toMatch(/^\{GREEN\}. .\{\/\}$/)
+    })
+
+    it('should show the content at ratio 0', () => {
+      expect(decryptFrame('Hello\nWorld', 0)).toBe('Hello\nWorld')
+    })
+  })
+
+  describe('getSlideOffset', () => {
+    it('should start outside the edge the window enters from', () => {
+      expect(getSlideOffset('left', 1200, 800)).toEqual({ x: 1200, y: 0 })
+      expect(getSlideOffset('right', 1200, 800)).toEqual({ x: -1200, y: 0 })
+      expect(getSlideOffset('up', 1200, 800)).toEqual({ x: 0, y: 800 })
+      expect(getSlideOffset('down', 1200, 800)).toEqual({ x: 0, y: -800 })
+    })
+  })
+})
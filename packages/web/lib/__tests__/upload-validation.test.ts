@@ -3,6 +3,7 @@ import {
   isAllowedFile,
   isAllowedMimeType,
   isValidTextContent,
+  parseBundleSettings,
   MAX_FILE_SIZE,
   MAX_TOTAL_SIZE,
   ALLOWED_EXTENSIONS,
@@ -226,4 +227,23 @@ This is a presentation about 🚀 **rockets**.
       })
     })
   })
+
+  describe('parseBundleSettings', () => {
+    it('should parse the stacking settings', () => {
+      expect(parseBundleSettings('3', 'fade')).toEqual({ maxStackDepth: 3, stackTrim: 'fade' })
+      expect(parseBundleSettings('2', null)).toEqual({ maxStackDepth: 2, stackTrim: 'destroy' })
+    })
+
+    it('should leave settings out when the form sets none', () => {
+      expect(parseBundleSettings(null, null)).toBeUndefined()
+      expect(parseBundleSettings('', '')).toBeUndefined()
+    })
+
+    it('should reject invalid values', () => {
+      expect(parseBundleSettings('-1', null)).toBeNull()
+      expect(parseBundleSettings('1.5', null)).toBeNull()
+      expect(parseBundleSettings('many', null)).toBeNull()
+      expect(parseBundleSettings('2', 'shrink')).toBeNull()
+    })
+  })
 })
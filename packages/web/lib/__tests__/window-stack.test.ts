@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { getStackedWindows, FADE_STEPS } from '../window-stack'
+import { mixColors } from '../core/colors'
+
+describe('window-stack', () => {
+  describe('getStackedWindows', () => {
+    it('should stack every slide so far by default', () => {
+      expect(getStackedWindows(2)).toEqual([
+        { index: 0, fade: 0 },
+        { index: 1, fade: 0 },
+        { index: 2, fade: 0 },
+      ])
+      expect(getStackedWindows(2, { maxStackDepth: 0 })).toHaveLength(3)
+    })
+
+    it('should remove windows beyond the stack depth', () => {
+      expect(getStackedWindows(4, { maxStackDepth: 2, stackTrim: 'destroy' })).toEqual([
+        { index: 3, fade: 0 },
+        { index: 4, fade: 0 },
+      ])
+    })
+
+    it('should fade windows beyond the stack depth before removing them', () => {
+      const windows = getStackedWindows(9, { maxStackDepth: 2, stackTrim: 'fade' })
+
+      expect(windows).toHaveLength(2 + FADE_STEPS)
+      expect(windows.map((w) => w.index)).toEqual([5, 6, 7, 8, 9])
+      expect(windows.map((w) => w.fade)).toEqual([1, 2 / 3, 1 / 3, 0, 0])
+    })
+
+    it('should not fade the first slides', () => {
+      expect(getStackedWindows(1, { maxStackDepth: 2, stackTrim: 'fade' })).toEqual([
+        { index: 0, fade: 0 },
+        { index: 1, fade: 0 },
+      ])
+    })
+  })
+
+  describe('mixColors', () => {
+    it('should mix hex colors', () => {
+      expect(mixColors('#000000', '#ffffff', 0)).toBe('#000000')
+      expect(mixColors('#000000', '#ffffff', 1)).toBe('#ffffff')
+      expect(mixColors('#00cc66', '#666666', 0.5)).toBe('#339966')
+    })
+  })
+})
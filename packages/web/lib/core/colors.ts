@@ -35,6 +35,19 @@ export function resolveColorToken(token: string, theme: Theme): string {
   return BUILTIN_COLORS[token] ?? theme.colors.text
 }
 
+/**
+ * Mix two hex colors.
+ * An amount of 0 gives the first color, 1 the second.
+ */
+export function mixColors(from: string, to: string, amount: number): string {
+  const channel = (color: string, i: number) => parseInt(color.slice(1 + i * 2, 3 + i * 2), 16)
+
+  return '#' + [0, 1, 2]
+    .map((i) => Math.round(channel(from, i) + (channel(to, i) - channel(from, i)) * amount))
+    .map((value) => value.toString(16).padStart(2, '0'))
+    .join('')
+}
+
 /**
  * Parse color tokens in content and return React elements.
  * Transforms {GREEN}text{/} syntax to <span> elements.
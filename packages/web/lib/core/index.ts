@@ -1,3 +1,4 @@
 export * from './colors'
 export * from './gradient'
 export * from './constants'
+export * from './transitions'
@@ -0,0 +1,106 @@
+import { GLITCH_CHARS, PROTECTED_CHARS } from './constants'
+
+/**
+ * Color tokens ({GREEN}, {/}), which take up no columns.
+ */
+const TOKEN_PATTERN = /\{[^{}\n]*\}/g
+
+/**
+ * Split a line into color tokens and visible characters.
+ * Tokens are kept whole, so transitions never break them.
+ */
+export function splitTokens(line: string): Array<{ text: string; token: boolean }> {
+  const parts: Array<{ text: string; token: boolean }> = []
+  const regex = new RegExp(TOKEN_PATTERN)
+  let index = 0
+  let match: RegExpExecArray | null
+
+  while ((match = regex.exec(line)) !== null) {
+    for (const char of line.slice(index, match.index)) {
+      parts.push({ text: char, token: false })
+    }
+    parts.push({ text: match[0], token: true })
+    index = match.index + match[0].length
+  }
+
+  for (const char of line.slice(index)) {
+    parts.push({ text: char, token: false })
+  }
+
+  return parts
+}
+
+/**
+ * Count the visible characters of a line (tokens excluded).
+ */
+export function countVisible(line: string): number {
+  return splitTokens(line).filter((part) => !part.token).length
+}
+
+/**
+ * Wipe frame: the first columns of every line, tokens kept.
+ */
+export function wipeFrame(content: string, columns: number): string {
+  return content
+    .split('\n')
+    .map((line) => {
+      let visible = 0
+      return splitTokens(line)
+        .filter((part) => part.token || visible++ < columns)
+        .map((part) => part.text)
+        .join('')
+    })
+    .join('\n')
+}
+
+/**
+ * Scanline frame: the lines above the beam, then the beam itself.
+ */
+export function scanlineFrame(lines: string[], row: number, beam: string): string {
+  return [...lines.slice(0, row), beam].join('\n')
+}
+
+/**
+ * Decrypt frame: characters scrambled across the whole content.
+ * Tokens and protected characters are never scrambled.
+ */
+export function decryptFrame(content: string, scrambleRatio: number): string {
+  return content
+    .split('\n')
+    .map((line) =>
+      splitTokens(line)
+        .map(({ text, token }) =>
+          token || PROTECTED_CHARS.has(text) || Math.random() >= scrambleRatio
+            ? text
+            : GLITCH_CHARS[Math.floor(Math.random() * GLITCH_CHARS.length)]
+        )
+        .join('')
+    )
+    .join('\n')
+}
+
+/**
+ * Direction a window slides in (moves that way into place).
+ */
+export type SlideDirection = 'left' | 'right' | 'up' | 'down'
+
+/**
+ * Offset a window starts sliding in from, just outside the viewport
+ * edge it enters from.
+ */
+export function getSlideOffset(
+  direction: SlideDirection,
+  viewportWidth: number,
+  viewportHeight: number
+): { x: number; y: number } {
+  switch (direction) {
+    case 'left':
+      return { x: viewportWidth, y: 0 }
+    case 'right':
+      return { x: -viewportWidth, y: 0 }
+    case 'up':
+      return { x: 0, y: viewportHeight }
+    case 'down':
+      return { x: 0, y: -viewportHeight }
+  }
+}
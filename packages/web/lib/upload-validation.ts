@@ -1,3 +1,6 @@
+// Relative import: lib tests run without the @/ path alias
+import { BundleSettingsSchema, type BundleSettings } from '../schemas/deck-bundle'
+
 // File size limits
 export const MAX_FILE_SIZE = 1 * 1024 * 1024 // 1MB per file
 export const MAX_TOTAL_SIZE = 5 * 1024 * 1024 // 5MB total
@@ -58,3 +61,28 @@ export function isValidTextContent(content: string): boolean {
   // Require at least 90% printable characters (markdown files should be nearly 100%)
   return printableRatio >= 0.9
 }
+
+/**
+ * Parse the stacking settings of an upload form.
+ * Returns undefined when the form sets neither field, and null when a
+ * value is invalid.
+ *
+ * @example
+ * parseBundleSettings('3', 'fade') // { maxStackDepth: 3, stackTrim: 'fade' }
+ * parseBundleSettings('-1', null)  // null
+ */
+export function parseBundleSettings(
+  maxStackDepth: string | null,
+  stackTrim: string | null
+): BundleSettings | null | undefined {
+  if (!maxStackDepth && !stackTrim) {
+    return undefined
+  }
+
+  const result = BundleSettingsSchema.safeParse({
+    maxStackDepth: maxStackDepth ? Number(maxStackDepth) : undefined,
+    stackTrim: stackTrim || undefined,
+  })
+
+  return result.success ? result.data : null
+}
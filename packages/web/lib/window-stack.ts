@@ -0,0 +1,42 @@
+import type { BundleSettings } from '@/schemas/deck-bundle'
+
+// Slides over which windows beyond the stack depth fade out
+export const FADE_STEPS = 3
+
+/**
+ * A slide window in the stack.
+ */
+export interface StackedWindow {
+  /** Index of the slide (also places and colors the window) */
+  index: number
+  /** How far the window has faded toward the muted color (0-1) */
+  fade: number
+}
+
+/**
+ * Get the slide windows stacked up to the current slide.
+ * Matches the terminal: without a stack depth every slide so far is
+ * stacked, otherwise the oldest windows are removed, or fade out over
+ * a few slides first.
+ *
+ * @example
+ * getStackedWindows(4, { maxStackDepth: 2, stackTrim: 'destroy' })
+ * // [{ index: 3, fade: 0 }, { index: 4, fade: 0 }]
+ */
+export function getStackedWindows(
+  currentIndex: number,
+  settings?: Partial<BundleSettings>
+): StackedWindow[] {
+  const depth = settings?.maxStackDepth ?? 0
+  const fadeSteps = settings?.stackTrim === 'fade' ? FADE_STEPS : 0
+  const first = depth > 0 ? Math.max(0, currentIndex + 1 - depth - fadeSteps) : 0
+
+  const windows: StackedWindow[] = []
+  for (let index = first; index <= currentIndex; index++) {
+    const age = currentIndex - index
+    const step = depth > 0 && fadeSteps > 0 ? Math.max(0, age - depth + 1) : 0
+    windows.push({ index, fade: step / FADE_STEPS })
+  }
+
+  return windows
+}
@@ -2,6 +2,19 @@ import { z } from 'zod'
 import { ThemeSchema } from './theme'
 import { SlideFrontmatterSchema } from './slide'
 
+/**
+ * Schema for the viewer settings of a deck bundle.
+ * Mirrors the stacking settings of the CLI deck config.
+ */
+export const BundleSettingsSchema = z.object({
+  // Slide windows stacked on the page (0 = all of them)
+  maxStackDepth: z.number().int().min(0).default(0),
+  // Whether windows beyond maxStackDepth are removed or fade out first
+  stackTrim: z.enum(['destroy', 'fade']).default('destroy'),
+})
+
+export type BundleSettings = z.infer<typeof BundleSettingsSchema>
+
 /**
  * Schema for a deck bundle stored in Vercel Blob.
  * This is the format used for sharing decks via URL.
@@ -14,6 +27,7 @@ export const DeckBundleSchema = z.object({
     title: z.string().optional(),
     author: z.string().optional(),
     theme: ThemeSchema,
+    settings: BundleSettingsSchema.optional(),
   }),
   slides: z.array(z.object({
     frontmatter: SlideFrontmatterSchema,
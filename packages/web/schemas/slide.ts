@@ -27,6 +27,13 @@ export const SlideFrontmatterSchema = z.object({
     'fade',
     'instant',
     'typewriter',
+    'slide-left',
+    'slide-right',
+    'slide-up',
+    'slide-down',
+    'wipe',
+    'scanline',
+    'decrypt',
   ]).default('glitch'),
 
   // Custom metadata